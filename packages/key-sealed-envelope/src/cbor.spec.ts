@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { CBORTag, decodeCBOR, encodeCBOR } from "./cbor.js";
+import { areUint8ArraysEqual } from "./utils.js";
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+function fromHex(value: string): Uint8Array {
+  return new Uint8Array(
+    value.match(/../g)!.map((byte) => Number.parseInt(byte, 16))
+  );
+}
+
+describe("CBOR", () => {
+  it("matches RFC 8949 Appendix A examples", () => {
+    expect(hex(encodeCBOR(0))).toBe("00");
+    expect(hex(encodeCBOR(23))).toBe("17");
+    expect(hex(encodeCBOR(24))).toBe("1818");
+    expect(hex(encodeCBOR(1000))).toBe("1903e8");
+    expect(hex(encodeCBOR(1000000))).toBe("1a000f4240");
+    expect(hex(encodeCBOR(1000000000000))).toBe("1b000000e8d4a51000");
+    expect(hex(encodeCBOR(-1))).toBe("20");
+    expect(hex(encodeCBOR(-1000))).toBe("3903e7");
+    expect(hex(encodeCBOR("IETF"))).toBe("6449455446");
+    expect(hex(encodeCBOR(new Uint8Array([1, 2, 3, 4])))).toBe("4401020304");
+    expect(hex(encodeCBOR([1, [2, 3], [4, 5]]))).toBe("8301820203820405");
+    expect(hex(encodeCBOR({ a: 1, b: [2, 3] }))).toBe("a26161016162820203");
+    expect(hex(encodeCBOR(new CBORTag(1, 1363896240)))).toBe("c11a514b67b0");
+    expect(hex(encodeCBOR([false, true, null]))).toBe("83f4f5f6");
+  });
+
+  it("round-trips values", () => {
+    const value = new Map<unknown, unknown>([
+      ["text", "héllo"],
+      ["bytes", new Uint8Array([0, 255])],
+      ["list", [1, -2, 2 ** 40]],
+      [1, new CBORTag(18, [null, true])],
+    ]);
+
+    const decoded = decodeCBOR(encodeCBOR(value as never));
+    expect(decoded).toEqual(value);
+  });
+
+  it("round-trips multi-megabyte byte strings", () => {
+    const payload = new Uint8Array(8 * 1024 * 1024);
+    for (let offset = 0; offset < payload.length; offset += 65536) {
+      crypto.getRandomValues(payload.subarray(offset, offset + 65536));
+    }
+
+    const encoded = encodeCBOR(["header", payload]);
+    // A 4-byte length head, after the array head and the short text string
+    expect(encoded.length).toBe(1 + 7 + 5 + payload.length);
+    const [text, bytes] = decodeCBOR(encoded) as [string, Uint8Array];
+    expect(text).toBe("header");
+    expect(areUint8ArraysEqual(bytes, payload)).toBe(true);
+  });
+
+  it("rejects truncated input", () => {
+    expect(() => decodeCBOR(fromHex("1903"))).toThrow("Truncated CBOR");
+    expect(() => decodeCBOR(fromHex("4401020304").subarray(0, 3))).toThrow(
+      "Truncated CBOR"
+    );
+    expect(() => decodeCBOR(fromHex("9a7fffffff"))).toThrow("Truncated CBOR");
+  });
+
+  it("rejects trailing bytes", () => {
+    expect(() => decodeCBOR(fromHex("0000"))).toThrow(
+      "Trailing bytes after CBOR item"
+    );
+  });
+
+  it("rejects duplicate map keys", () => {
+    expect(() => decodeCBOR(fromHex("a2616101616102"))).toThrow(
+      "Duplicate CBOR map key"
+    );
+  });
+
+  it("rejects unsupported encodings", () => {
+    // Indefinite-length array
+    expect(() => decodeCBOR(fromHex("9fff"))).toThrow(
+      "Unsupported CBOR encoding"
+    );
+    // Half-precision float
+    expect(() => decodeCBOR(fromHex("f93c00"))).toThrow(
+      "Unsupported CBOR simple value"
+    );
+  });
+
+  it("rejects deeply nested input", () => {
+    expect(() => decodeCBOR(new Uint8Array(100).fill(0x81))).toThrow(
+      "CBOR nested too deeply"
+    );
+  });
+});
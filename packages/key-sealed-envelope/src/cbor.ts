@@ -0,0 +1,263 @@
+/**
+ * A tagged CBOR data item (RFC 8949 §3.4).
+ */
+export class CBORTag {
+  constructor(
+    readonly tag: number,
+    readonly value: CBORValue
+  ) {}
+}
+
+/**
+ * The subset of the CBOR data model this library reads and writes. Maps
+ * decode as `Map`s; plain objects encode as maps with text keys.
+ */
+export type CBORValue =
+  | number
+  | string
+  | boolean
+  | null
+  | Uint8Array
+  | CBORValue[]
+  | Map<CBORValue, CBORValue>
+  | { [key: string]: CBORValue }
+  | CBORTag;
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+const SIMPLE_FALSE = 20;
+const SIMPLE_TRUE = 21;
+const SIMPLE_NULL = 22;
+
+const MAX_DEPTH = 64;
+
+// Initial capacity of an encoding buffer, enough for a typical envelope's
+// header fields
+const INITIAL_ENCODER_CAPACITY = 256;
+
+class Encoder {
+  private bytes = new Uint8Array(INITIAL_ENCODER_CAPACITY);
+  private length = 0;
+
+  // Grows the buffer geometrically, so appending stays amortized linear
+  private reserve(length: number): void {
+    const required = this.length + length;
+    if (required <= this.bytes.length) {
+      return;
+    }
+    let capacity = this.bytes.length * 2;
+    while (capacity < required) {
+      capacity *= 2;
+    }
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+  }
+
+  private writeByte(byte: number): void {
+    this.reserve(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  private write(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  private writeHead(major: number, value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error("CBOR lengths and integers must be safe integers");
+    }
+    if (value < 24) {
+      this.writeByte((major << 5) | value);
+    } else if (value < 0x100) {
+      this.write(new Uint8Array([(major << 5) | 24, value]));
+    } else if (value < 0x10000) {
+      this.write(new Uint8Array([(major << 5) | 25, value >> 8, value & 0xff]));
+    } else if (value < 0x100000000) {
+      const head = new Uint8Array(5);
+      head[0] = (major << 5) | 26;
+      new DataView(head.buffer).setUint32(1, value);
+      this.write(head);
+    } else {
+      const head = new Uint8Array(9);
+      head[0] = (major << 5) | 27;
+      new DataView(head.buffer).setBigUint64(1, BigInt(value));
+      this.write(head);
+    }
+  }
+
+  writeItem(value: CBORValue): void {
+    if (typeof value === "number") {
+      if (!Number.isSafeInteger(value)) {
+        throw new Error("Only safe integers can be encoded as CBOR numbers");
+      }
+      if (value >= 0) {
+        this.writeHead(MAJOR_UNSIGNED, value);
+      } else {
+        this.writeHead(MAJOR_NEGATIVE, -1 - value);
+      }
+    } else if (typeof value === "string") {
+      const bytes = new TextEncoder().encode(value);
+      this.writeHead(MAJOR_TEXT, bytes.length);
+      this.write(bytes);
+    } else if (typeof value === "boolean") {
+      this.writeByte(
+        (MAJOR_SIMPLE << 5) | (value ? SIMPLE_TRUE : SIMPLE_FALSE)
+      );
+    } else if (value === null) {
+      this.writeByte((MAJOR_SIMPLE << 5) | SIMPLE_NULL);
+    } else if (value instanceof Uint8Array) {
+      this.writeHead(MAJOR_BYTES, value.length);
+      this.write(value);
+    } else if (Array.isArray(value)) {
+      this.writeHead(MAJOR_ARRAY, value.length);
+      for (const item of value) this.writeItem(item);
+    } else if (value instanceof CBORTag) {
+      this.writeHead(MAJOR_TAG, value.tag);
+      this.writeItem(value.value);
+    } else {
+      const entries =
+        value instanceof Map ? [...value.entries()] : Object.entries(value);
+      this.writeHead(MAJOR_MAP, entries.length);
+      for (const [key, item] of entries) {
+        this.writeItem(key);
+        this.writeItem(item);
+      }
+    }
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Encodes a value as CBOR. Integers and lengths use their shortest form, and
+ * map entries keep their insertion order.
+ *
+ * @throws If the value contains a number that is not a safe integer
+ */
+export function encodeCBOR(value: CBORValue): Uint8Array {
+  const encoder = new Encoder();
+  encoder.writeItem(value);
+  return encoder.finish();
+}
+
+class Decoder {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  private take(length: number): Uint8Array {
+    if (length > this.bytes.length - this.offset) {
+      throw new Error("Truncated CBOR");
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) return info;
+    const length = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+    if (length === undefined) {
+      throw new Error("Unsupported CBOR encoding");
+    }
+    let value = 0;
+    for (const byte of this.take(length)) {
+      value = value * 0x100 + byte;
+    }
+    if (!Number.isSafeInteger(value)) {
+      throw new Error("CBOR integer too large");
+    }
+    return value;
+  }
+
+  readItem(depth = 0): CBORValue {
+    if (depth > MAX_DEPTH) {
+      throw new Error("CBOR nested too deeply");
+    }
+    const initial = this.take(1)[0]!;
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === MAJOR_SIMPLE) {
+      if (info === SIMPLE_FALSE) return false;
+      if (info === SIMPLE_TRUE) return true;
+      if (info === SIMPLE_NULL) return null;
+      throw new Error("Unsupported CBOR simple value");
+    }
+
+    const argument = this.readArgument(info);
+    switch (major) {
+      case MAJOR_UNSIGNED:
+        return argument;
+      case MAJOR_NEGATIVE:
+        return -1 - argument;
+      case MAJOR_BYTES:
+        return this.take(argument);
+      case MAJOR_TEXT:
+        return new TextDecoder("utf-8", { fatal: true }).decode(
+          this.take(argument)
+        );
+      case MAJOR_ARRAY: {
+        // Each item takes at least a byte, so bound the length before
+        // allocating anything
+        this.checkRemaining(argument);
+        const items: CBORValue[] = [];
+        for (let i = 0; i < argument; i++) {
+          items.push(this.readItem(depth + 1));
+        }
+        return items;
+      }
+      case MAJOR_MAP: {
+        this.checkRemaining(argument * 2);
+        const map = new Map<CBORValue, CBORValue>();
+        for (let i = 0; i < argument; i++) {
+          const key = this.readItem(depth + 1);
+          if (map.has(key)) {
+            throw new Error("Duplicate CBOR map key");
+          }
+          map.set(key, this.readItem(depth + 1));
+        }
+        return map;
+      }
+      default:
+        return new CBORTag(argument, this.readItem(depth + 1));
+    }
+  }
+
+  private checkRemaining(items: number): void {
+    if (items > this.bytes.length - this.offset) {
+      throw new Error("Truncated CBOR");
+    }
+  }
+}
+
+/**
+ * Decodes a single CBOR data item, which must span all of `bytes`.
+ * Indefinite lengths, floats and other simple values are not supported.
+ *
+ * @throws If the input is malformed, truncated or has trailing bytes
+ */
+export function decodeCBOR(bytes: Uint8Array): CBORValue {
+  const decoder = new Decoder(bytes);
+  const value = decoder.readItem();
+  if (!decoder.done) {
+    throw new Error("Trailing bytes after CBOR item");
+  }
+  return value;
+}
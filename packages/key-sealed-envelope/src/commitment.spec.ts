@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { computeCtx } from "./commitment.js";
+
+async function generateCEK(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey(
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function encrypt(
+  cek: CryptoKey,
+  iv: Uint8Array,
+  aad?: Uint8Array
+): Promise<Uint8Array> {
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, ...(aad && { additionalData: aad }) },
+    cek,
+    new TextEncoder().encode("test message")
+  );
+
+  const result = new Uint8Array(iv.length + ciphertext.byteLength);
+  result.set(iv);
+  result.set(new Uint8Array(ciphertext), iv.length);
+  return result;
+}
+
+describe("computeCtx", () => {
+  it("is deterministic", async () => {
+    const cek = await generateCEK();
+    const payload = await encrypt(cek, new Uint8Array(12));
+
+    const ctx1 = await computeCtx(cek, payload, undefined);
+    const ctx2 = await computeCtx(cek, payload, undefined);
+
+    expect(ctx1).toHaveLength(32);
+    expect(ctx1).toEqual(ctx2);
+  });
+
+  it("binds the content key", async () => {
+    const cek = await generateCEK();
+    const otherCEK = await generateCEK();
+    const payload = await encrypt(cek, new Uint8Array(12));
+
+    expect(await computeCtx(cek, payload, undefined)).not.toEqual(
+      await computeCtx(otherCEK, payload, undefined)
+    );
+  });
+
+  it("binds the associated data", async () => {
+    const cek = await generateCEK();
+    const aad = new TextEncoder().encode("tenant-1");
+    const payload = await encrypt(cek, new Uint8Array(12), aad);
+
+    expect(await computeCtx(cek, payload, aad)).not.toEqual(
+      await computeCtx(cek, payload, new TextEncoder().encode("tenant-2"))
+    );
+    expect(await computeCtx(cek, payload, aad)).not.toEqual(
+      await computeCtx(cek, payload, undefined)
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  CTX_CONSTANT_STRING,
+  CTX_KEY_COMMITMENT_CONSTANT_STRING,
+  CTX_STREAM_KEY_COMMITMENT_CONSTANT_STRING,
+} from "./constants.js";
+import { concatUint8Arrays as concat } from "./utils.js";
+
+/**
+ * Computes the CTX key commitment tag for a v2 envelope payload.
+ *
+ * Follows the CTX construction (Chan and Rogaway, "On Committing
+ * Authenticated Encryption"): the tag is H(K, N, A, T) over the content key,
+ * nonce, associated data and GCM tag. Because the key is hashed, a
+ * ciphertext can only match the tag under the one CEK the sender committed
+ * to, so recipients handed different CEKs cannot all accept it.
+ *
+ * @param cek - Content encryption key; must be extractable
+ * @param encryptedPayload - IV, ciphertext and GCM tag, concatenated
+ * @param aad - Associated data the payload was encrypted with, if any
+ * @returns SHA-256 commitment tag
+ */
+export async function computeCtx(
+  cek: CryptoKey,
+  encryptedPayload: Uint8Array,
+  aad: Uint8Array | undefined
+): Promise<Uint8Array> {
+  const separator = new TextEncoder().encode(
+    CTX_KEY_COMMITMENT_CONSTANT_STRING
+  );
+  const key = new Uint8Array(await crypto.subtle.exportKey("raw", cek));
+  const iv = encryptedPayload.subarray(0, 12);
+  const gcmTag = encryptedPayload.subarray(-16);
+  const associatedData = aad ?? new Uint8Array(0);
+
+  // AAD is the only variable-length field, so it is length-prefixed
+  const aadLength = new Uint8Array(8);
+  new DataView(aadLength.buffer).setBigUint64(0, BigInt(associatedData.length));
+
+  const ctxInput = new Uint8Array(
+    separator.length +
+      key.length +
+      iv.length +
+      aadLength.length +
+      associatedData.length +
+      gcmTag.length
+  );
+
+  let offset = 0;
+  for (const part of [separator, key, iv, aadLength, associatedData, gcmTag]) {
+    ctxInput.set(part, offset);
+    offset += part.length;
+  }
+
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", ctxInput));
+}
+
+/**
+ * Computes the key commitment tag for a sealed stream. A stream has no
+ * single GCM tag to commit to, so the tag is H(K, N, A) over the content
+ * key, the nonce prefix shared by its segments and the associated data. It
+ * is checked before any segment is decrypted.
+ *
+ * @param cek - Content encryption key; must be extractable
+ * @param noncePrefix - Nonce prefix of the stream's segments
+ * @param aad - Associated data the stream was sealed with, if any
+ * @returns SHA-256 commitment tag
+ */
+export async function computeStreamCtx(
+  cek: CryptoKey,
+  noncePrefix: Uint8Array,
+  aad: Uint8Array | undefined
+): Promise<Uint8Array> {
+  const separator = new TextEncoder().encode(
+    CTX_STREAM_KEY_COMMITMENT_CONSTANT_STRING
+  );
+  const key = new Uint8Array(await crypto.subtle.exportKey("raw", cek));
+  const associatedData = aad ?? new Uint8Array(0);
+
+  const aadLength = new Uint8Array(8);
+  new DataView(aadLength.buffer).setBigUint64(0, BigInt(associatedData.length));
+
+  return new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-256",
+      concat(separator, key, noncePrefix, aadLength, associatedData)
+    )
+  );
+}
+
+/**
+ * Computes the CTX tag used by v1 envelopes: a digest of the IV, ciphertext
+ * and GCM tag. It does not bind the CEK, so it is only checked for
+ * compatibility.
+ *
+ * @param encryptedPayload - IV, ciphertext and GCM tag, concatenated
+ * @returns SHA-256 digest of the payload
+ */
+export async function computeLegacyCtx(
+  encryptedPayload: Uint8Array
+): Promise<Uint8Array> {
+  const iv = encryptedPayload.subarray(0, 12);
+  const gcmTag = encryptedPayload.subarray(-16);
+
+  const separator = new TextEncoder().encode(CTX_CONSTANT_STRING);
+  const ctxInput = new Uint8Array(
+    separator.length +
+      iv.length +
+      (encryptedPayload.length - 28) +
+      gcmTag.length
+  );
+
+  let offset = 0;
+  ctxInput.set(separator, offset);
+  offset += separator.length;
+  ctxInput.set(iv, offset);
+  offset += iv.length;
+  ctxInput.set(encryptedPayload.subarray(12, -16), offset);
+  offset += encryptedPayload.length - 28;
+  ctxInput.set(gcmTag, offset);
+
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", ctxInput));
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import { sealCore } from "./sealer/core.js";
+import { deserializeEnvelope, serializeEnvelope } from "./serialization.js";
+import { unsealCore } from "./unsealer/core.js";
+
+const sender = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+  "sign",
+  "verify",
+])) as CryptoKeyPair;
+const recipient = (await crypto.subtle.generateKey({ name: "X25519" }, true, [
+  "deriveKey",
+])) as CryptoKeyPair;
+
+const message = JSON.stringify(
+  Array.from({ length: 200 }, (_, id) => ({ id, status: "pending" }))
+);
+
+async function seal(
+  payload: string | Uint8Array,
+  options: Parameters<typeof sealCore>[4] = {}
+) {
+  return await sealCore(
+    payload,
+    sender.privateKey,
+    "sender1",
+    { recipient1: recipient.publicKey },
+    options
+  );
+}
+
+async function unseal(
+  envelope: Parameters<typeof unsealCore>[0],
+  options: Parameters<typeof unsealCore>[3] = {}
+) {
+  return await unsealCore(
+    envelope,
+    { recipient1: recipient.privateKey },
+    { sender1: sender.publicKey },
+    options
+  );
+}
+
+describe("payload compression", () => {
+  it.each(["deflate", "gzip"] as const)(
+    "round-trips %s-compressed payloads",
+    async (compression) => {
+      const envelope = await seal(message, { compression });
+      const uncompressed = await seal(message);
+
+      expect(envelope.zip).toBe(compression);
+      expect(envelope.payload.length).toBeLessThan(
+        uncompressed.payload.length / 4
+      );
+      expect(new TextDecoder().decode(await unseal(envelope))).toBe(message);
+    }
+  );
+
+  it("records nothing without compression", async () => {
+    const envelope = await seal(message, { compression: "none" });
+
+    expect(envelope).not.toHaveProperty("zip");
+    expect(new TextDecoder().decode(await unseal(envelope))).toBe(message);
+  });
+
+  it("survives the binary encoding", async () => {
+    const envelope = await seal(message, { compression: "gzip" });
+
+    const restored = deserializeEnvelope(serializeEnvelope(envelope));
+    expect(restored).toEqual(envelope);
+    expect(new TextDecoder().decode(await unseal(restored))).toBe(message);
+  });
+
+  it("signs the compression algorithm", async () => {
+    const envelope = await seal(message, { compression: "deflate" });
+
+    await expect(unseal({ ...envelope, zip: "gzip" as const })).rejects.toThrow(
+      "Invalid envelope signature"
+    );
+    const { zip: _, ...stripped } = envelope;
+    await expect(unseal(stripped)).rejects.toThrow(
+      "Invalid envelope signature"
+    );
+  });
+
+  it("stops decompressing past maxDecompressedSize", async () => {
+    const bomb = new Uint8Array(1024 * 1024);
+    const envelope = await seal(bomb, { compression: "deflate" });
+    expect(envelope.payload.length).toBeLessThan(2048);
+
+    await expect(
+      unseal(envelope, { maxDecompressedSize: 64 * 1024 })
+    ).rejects.toThrow("Decompressed payload exceeds maxDecompressedSize");
+    expect(await unseal(envelope)).toHaveLength(bomb.length);
+  });
+
+  it("rejects unknown compression algorithms", async () => {
+    const envelope = await seal(message);
+
+    await expect(unseal({ ...envelope, zip: "br" as "gzip" })).rejects.toThrow(
+      "Unsupported compression algorithm: br"
+    );
+  });
+
+  it("rejects compression the wire format cannot express", async () => {
+    await expect(
+      seal(message, { fmt: "jwe", compression: "gzip" })
+    ).rejects.toThrow("gzip compression cannot be represented in JWE");
+    await expect(
+      seal(message, { fmt: "cose", compression: "deflate" })
+    ).rejects.toThrow("deflate compression cannot be represented in COSE");
+  });
+});
@@ -0,0 +1,76 @@
+import { type CompressionAlgorithm } from "./types/index.js";
+import { concatUint8Arrays as concat } from "./utils.js";
+
+// "deflate" is raw DEFLATE, as JWE's "DEF"; the Compression Streams API
+// calls that "deflate-raw" and uses "deflate" for the zlib format
+const STREAM_FORMATS = {
+  deflate: "deflate-raw",
+  gzip: "gzip",
+} as const satisfies Record<CompressionAlgorithm, CompressionFormat>;
+
+// Resolves to undefined if the output would pass maxLength
+async function transform(
+  stream: CompressionStream | DecompressionStream,
+  input: Uint8Array,
+  maxLength = Infinity
+): Promise<Uint8Array | undefined> {
+  // Write errors resurface when reading
+  const writer = stream.writable.getWriter();
+  writer.write(input).catch(() => {});
+  writer.close().catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+    if (length > maxLength) {
+      await reader.cancel();
+      return undefined;
+    }
+  }
+  return concat(...chunks);
+}
+
+/**
+ * Compresses a payload before it is encrypted.
+ */
+export async function compress(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm
+): Promise<Uint8Array> {
+  return (await transform(
+    new CompressionStream(STREAM_FORMATS[algorithm]),
+    data
+  ))!;
+}
+
+/**
+ * Decompresses a decrypted payload, giving up as soon as the output passes
+ * `maxLength`, so that a small payload cannot expand without bound.
+ *
+ * @throws If the data is not validly compressed, or expands past `maxLength`
+ */
+export async function decompress(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+  maxLength: number
+): Promise<Uint8Array> {
+  let decompressed: Uint8Array | undefined;
+  try {
+    decompressed = await transform(
+      new DecompressionStream(STREAM_FORMATS[algorithm]),
+      data,
+      maxLength
+    );
+  } catch {
+    throw new Error("Invalid compressed payload");
+  }
+  if (!decompressed) {
+    throw new Error("Decompressed payload exceeds maxDecompressedSize");
+  }
+  return decompressed;
+}
@@ -1 +1,60 @@
 export const CTX_CONSTANT_STRING = "@eropple/key-sealed-envelope/v1";
+
+export const CTX_KEY_COMMITMENT_CONSTANT_STRING =
+  "@eropple/key-sealed-envelope/v2/ctx";
+
+export const CTX_STREAM_KEY_COMMITMENT_CONSTANT_STRING =
+  "@eropple/key-sealed-envelope/v2/stream-ctx";
+
+export const HPKE_INFO_STRING = "@eropple/key-sealed-envelope/v2/hpke";
+
+export const ENVELOPE_VERSION = 2;
+
+/**
+ * Default limit on the CEK entries an unsealer tries in an anonymous
+ * envelope.
+ */
+export const DEFAULT_MAX_RECIPIENT_ATTEMPTS = 32;
+
+/**
+ * Default limit on the size of a decompressed payload.
+ */
+export const DEFAULT_MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Plaintext bytes per segment of a sealed stream, by default and at most.
+ */
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+export const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Curve and digest for each ECDSA signature algorithm.
+ */
+export const ECDSA_PARAMS = {
+  ES256: { namedCurve: "P-256", hash: "SHA-256" },
+  ES384: { namedCurve: "P-384", hash: "SHA-384" },
+  ES512: { namedCurve: "P-521", hash: "SHA-512" },
+} as const;
+
+/**
+ * Length of an uncompressed EC public key (0x04 ‖ x ‖ y) for each supported
+ * curve, or of a raw X25519 public key, as used for ephemeral keys in
+ * wrapped CEKs.
+ */
+export const EC_POINT_LENGTHS: Record<string, number> = {
+  "P-256": 65,
+  "P-384": 97,
+  "P-521": 133,
+  "X25519": 32,
+};
+
+/**
+ * Length in bytes of the raw ECDH (or X25519) shared secret for each
+ * supported curve.
+ */
+export const ECDH_SECRET_LENGTHS: Record<string, number> = {
+  "P-256": 32,
+  "P-384": 48,
+  "P-521": 66,
+  "X25519": 32,
+};
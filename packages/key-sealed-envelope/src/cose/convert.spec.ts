@@ -0,0 +1,254 @@
+import { ECDHKey } from "@ldclabs/cose-ts/ecdh";
+import { ECDSAKey } from "@ldclabs/cose-ts/ecdsa";
+import { Ed25519Key } from "@ldclabs/cose-ts/ed25519";
+import { Header } from "@ldclabs/cose-ts/header";
+import { hkdf256 } from "@ldclabs/cose-ts/hkdf";
+import {
+  KDFContext,
+  PartyInfo,
+  SuppPubInfo,
+} from "@ldclabs/cose-ts/kdfcontext";
+import { Sign1Message } from "@ldclabs/cose-ts/sign1";
+import { EncryptMessagePrefix, skipTag } from "@ldclabs/cose-ts/tag";
+import { decodeCBOR, encodeCBOR } from "@ldclabs/cose-ts/utils";
+import { describe, expect, it } from "vitest";
+
+import { sealCore } from "../sealer/core.js";
+import { deserializeEnvelope } from "../serialization.js";
+import { unsealCore } from "../unsealer/core.js";
+import { base64UrlToUint8Array } from "../utils.js";
+
+import { fromCOSE, toCOSE } from "./convert.js";
+
+async function generateKeys(kind: "RSA" | "EC" | "OKP") {
+  const rsa = {
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  };
+  const [signing, wrapping]: (
+    | Algorithm
+    | RsaHashedKeyGenParams
+    | EcKeyGenParams
+  )[] = {
+    RSA: [
+      { name: "RSA-PSS", ...rsa },
+      { name: "RSA-OAEP", ...rsa },
+    ],
+    EC: [
+      { name: "ECDSA", namedCurve: "P-256" },
+      { name: "ECDH", namedCurve: "P-256" },
+    ],
+    OKP: [{ name: "Ed25519" }, { name: "X25519" }],
+  }[kind];
+
+  const sender = (await crypto.subtle.generateKey(signing!, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const recipient = (await crypto.subtle.generateKey(
+    wrapping!,
+    true,
+    kind === "RSA" ? ["encrypt", "decrypt"] : ["deriveKey"]
+  )) as CryptoKeyPair;
+  return { sender, recipient };
+}
+
+// Opens a COSE_Encrypt the way a COSE library would, with cose-ts doing the
+// ECDH and key derivation
+async function decryptWithCOSETS(
+  coseEncrypt: Uint8Array,
+  recipientKey: CryptoKey,
+  externalAAD: Uint8Array
+): Promise<Uint8Array> {
+  expect(coseEncrypt.subarray(0, 2)).toEqual(EncryptMessagePrefix);
+  const [protectedHeader, unprotected, ciphertext, recipients] = decodeCBOR<
+    [
+      Uint8Array,
+      Map<unknown, unknown>,
+      Uint8Array,
+      [Uint8Array, Map<number, unknown>, Uint8Array][],
+    ]
+  >(skipTag(EncryptMessagePrefix, coseEncrypt));
+  const [recipientProtected, recipientUnprotected, wrappedKey] = recipients[0]!;
+  expect(Header.fromBytes(recipientProtected).getInt(1)).toBe(-31);
+
+  const jwk = await crypto.subtle.exportKey("jwk", recipientKey);
+  const crv = { "P-256": 1, "X25519": 4 }[jwk.crv!]!;
+  const ephemeralKey = new ECDHKey(
+    recipientUnprotected.get(-1) as ConstructorParameters<typeof ECDHKey>[0]
+  );
+  const z = ECDHKey.fromSecret(crv, base64UrlToUint8Array(jwk.d!)).ecdh(
+    ephemeralKey
+  );
+
+  const context = new KDFContext(
+    -5,
+    new PartyInfo(),
+    new PartyInfo(),
+    new SuppPubInfo(256, Header.fromBytes(recipientProtected))
+  );
+  const kek = await crypto.subtle.importKey(
+    "raw",
+    hkdf256(z, undefined, context.toBytes(), 32),
+    "AES-KW",
+    false,
+    ["unwrapKey"]
+  );
+  const cek = await crypto.subtle.unwrapKey(
+    "raw",
+    wrappedKey,
+    kek,
+    "AES-KW",
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: unprotected.get(5) as Uint8Array,
+        additionalData: encodeCBOR(["Encrypt", protectedHeader, externalAAD]),
+      },
+      cek,
+      ciphertext
+    )
+  );
+}
+
+describe("COSE conversion", () => {
+  it.each(["EC", "OKP"] as const)(
+    "produces a COSE_Sign1 and COSE_Encrypt that cose-ts can open (%s keys)",
+    async (kind) => {
+      const { sender, recipient } = await generateKeys(kind);
+      const envelope = await sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        { recipient1: recipient.publicKey },
+        { fmt: "cose", aad: "tenant-1" }
+      );
+      expect(envelope.kw).toBe("ECDH-ES+HKDF-256+A256KW");
+
+      const aad = new TextEncoder().encode("tenant-1");
+      const rawSenderKey = new Uint8Array(
+        await crypto.subtle.exportKey("raw", sender.publicKey)
+      );
+      const verifier =
+        kind === "EC"
+          ? ECDSAKey.fromPublic(rawSenderKey)
+          : Ed25519Key.fromPublic(rawSenderKey);
+      const message = Sign1Message.fromBytes(verifier, toCOSE(envelope), aad);
+      expect(new TextDecoder().decode(message.protected!.getBytes(4))).toBe(
+        "sender1"
+      );
+
+      const plaintext = await decryptWithCOSETS(
+        message.payload,
+        recipient.privateKey,
+        aad
+      );
+      expect(new TextDecoder().decode(plaintext)).toBe("test message");
+    }
+  );
+
+  it.each(["RSA", "EC", "OKP"] as const)(
+    "round-trips through fromCOSE (%s keys)",
+    async (kind) => {
+      const { sender, recipient } = await generateKeys(kind);
+      const envelope = await sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        { recipient1: recipient.publicKey },
+        { fmt: "cose", exp: new Date(Date.now() + 60_000) }
+      );
+
+      const restored = fromCOSE(toCOSE(envelope));
+      expect(restored).toEqual(envelope);
+
+      const decrypted = await unsealCore(
+        restored,
+        { recipient1: recipient.privateKey },
+        { sender1: sender.publicKey }
+      );
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    }
+  );
+
+  it("is recognized by deserializeEnvelope", async () => {
+    const { sender, recipient } = await generateKeys("OKP");
+    const envelope = await sealCore(
+      "test message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey },
+      { fmt: "cose" }
+    );
+
+    expect(deserializeEnvelope(toCOSE(envelope))).toEqual(envelope);
+  });
+
+  it("rejects a COSE message altered after signing", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const envelope = await sealCore(
+      "test message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey },
+      { fmt: "cose", exp: new Date(Date.now() + 60_000) }
+    );
+
+    const tampered = fromCOSE(
+      toCOSE({ ...envelope, exp: envelope.exp! + 3600 })
+    );
+    await expect(
+      unsealCore(
+        tampered,
+        { recipient1: recipient.privateKey },
+        {
+          sender1: sender.publicKey,
+        }
+      )
+    ).rejects.toThrow("Invalid envelope signature");
+  });
+
+  it("rejects envelopes not sealed for COSE", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const envelope = await sealCore(
+      "test message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey }
+    );
+
+    expect(() => toCOSE(envelope)).toThrow(
+      'Only envelopes sealed with fmt: "cose" can be converted'
+    );
+  });
+
+  it("rejects key wrapping COSE cannot express", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+
+    await expect(
+      sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        { recipient1: recipient.publicKey },
+        { fmt: "cose", kw: "ECDH-ES+A256KW" }
+      )
+    ).rejects.toThrow("ECDH-ES+A256KW cannot be represented in COSE");
+  });
+
+  it("rejects malformed messages", () => {
+    expect(() => fromCOSE(new Uint8Array([0xd2, 0x80]))).toThrow(
+      "Malformed COSE message"
+    );
+    expect(() => fromCOSE(new Uint8Array([0x80]))).toThrow(
+      "Malformed COSE message"
+    );
+  });
+});
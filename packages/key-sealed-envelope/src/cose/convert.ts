@@ -0,0 +1,187 @@
+import { CBORTag, type CBORValue, decodeCBOR, encodeCBOR } from "../cbor.js";
+import {
+  type KeySealedEnvelope,
+  type KeyWrapAlgorithm,
+} from "../types/index.js";
+import {
+  base64ToUint8Array,
+  concatUint8Arrays as concat,
+  uint8ArrayToBase64,
+} from "../utils.js";
+
+import {
+  buildCOSESign1,
+  COSE_ALGORITHMS,
+  COSE_ENCRYPT_TAG,
+  COSE_KEY_WRAP_ALGORITHMS,
+  COSE_SIGN1_TAG,
+  CWT_CLAIM_KEYS,
+  ephemeralKeyFromCOSEKey,
+  HEADER_ALG,
+  HEADER_CTX,
+  HEADER_CWT_CLAIMS,
+  HEADER_EPHEMERAL_KEY,
+  HEADER_IV,
+  HEADER_KID,
+  HEADER_VERSION,
+} from "./helpers.js";
+
+const decoder = new TextDecoder("utf-8", { fatal: true });
+
+function malformed(): never {
+  throw new Error("Malformed COSE message");
+}
+
+function asBytes(value: CBORValue | undefined): Uint8Array {
+  return value instanceof Uint8Array ? value : malformed();
+}
+
+function asMap(value: CBORValue | undefined): Map<CBORValue, CBORValue> {
+  return value instanceof Map ? value : malformed();
+}
+
+function asArray(value: CBORValue | undefined): CBORValue[] {
+  return Array.isArray(value) ? value : malformed();
+}
+
+function untag(value: CBORValue, tag: number): CBORValue[] {
+  if (!(value instanceof CBORTag) || value.tag !== tag) {
+    malformed();
+  }
+  return asArray(value.value);
+}
+
+function algorithmNamed(id: CBORValue | undefined): string | undefined {
+  return Object.keys(COSE_ALGORITHMS).find(
+    (name) => COSE_ALGORITHMS[name as keyof typeof COSE_ALGORITHMS] === id
+  );
+}
+
+/**
+ * Presents an envelope as a tagged COSE_Sign1 (RFC 9052) whose payload is a
+ * tagged COSE_Encrypt with one COSE_recipient per key ID. COSE libraries can
+ * verify the COSE_Sign1 with the sender's public key, then decrypt the
+ * COSE_Encrypt with a recipient's private key.
+ *
+ * The envelope must have been sealed with `fmt: "cose"`. Associated data is
+ * external in COSE, so it is not part of the message; verifiers and
+ * decrypters supply it as the external AAD.
+ *
+ * @param envelope - Envelope sealed with `fmt: "cose"`
+ * @returns The encoded COSE_Sign1
+ * @throws If the envelope was not sealed for COSE
+ */
+export function toCOSE(envelope: KeySealedEnvelope): Uint8Array {
+  if (envelope.fmt !== "cose") {
+    throw new Error('Only envelopes sealed with fmt: "cose" can be converted');
+  }
+
+  const { signature, ...contents } = envelope;
+  const { protectedHeader, payload } = buildCOSESign1(contents, undefined);
+
+  return encodeCBOR(
+    new CBORTag(COSE_SIGN1_TAG, [
+      protectedHeader,
+      new Map(),
+      payload,
+      base64ToUint8Array(signature),
+    ])
+  );
+}
+
+/**
+ * Reads back an envelope from the output of {@link toCOSE}. Nothing is
+ * verified here; unseal the result as usual, supplying the associated data
+ * if there is any. The unsealers also accept COSE messages directly.
+ *
+ * @param data - A COSE_Sign1 produced by {@link toCOSE}
+ * @returns The envelope
+ * @throws If the message is malformed or was not produced by this library
+ */
+export function fromCOSE(data: Uint8Array): KeySealedEnvelope {
+  const [signProtected, , signPayload, signature] = untag(
+    decodeCBOR(data),
+    COSE_SIGN1_TAG
+  );
+  const signHeader = asMap(decodeCBOR(asBytes(signProtected)));
+  const [encryptProtected, encryptUnprotected, ciphertext, recipients] = untag(
+    decodeCBOR(asBytes(signPayload)),
+    COSE_ENCRYPT_TAG
+  );
+  const encryptHeader = asMap(decodeCBOR(asBytes(encryptProtected)));
+  const unprotectedHeader = asMap(encryptUnprotected);
+
+  const version = encryptHeader.get(HEADER_VERSION);
+  if (typeof version !== "number") {
+    throw new Error("COSE message was not produced by key-sealed-envelope");
+  }
+
+  const alg = algorithmNamed(signHeader.get(HEADER_ALG));
+  const enc = algorithmNamed(encryptHeader.get(HEADER_ALG));
+  if (!alg || !enc) {
+    throw new Error("Unsupported COSE algorithm");
+  }
+
+  let kw: KeyWrapAlgorithm | undefined;
+  const cek: Record<string, string> = {};
+  for (const recipient of asArray(recipients)) {
+    const [recipientProtected, recipientUnprotected, encryptedKey] =
+      asArray(recipient);
+    const recipientHeader = asMap(decodeCBOR(asBytes(recipientProtected)));
+    const recipientKw = algorithmNamed(
+      recipientHeader.get(HEADER_ALG)
+    ) as KeyWrapAlgorithm;
+    if (!COSE_KEY_WRAP_ALGORITHMS.includes(recipientKw)) {
+      throw new Error(`Unsupported key wrapping algorithm: ${recipientKw}`);
+    }
+    if (kw !== undefined && recipientKw !== kw) {
+      throw new Error("Mixed key wrapping algorithms are not supported");
+    }
+    kw = recipientKw;
+
+    const kid = decoder.decode(asBytes(recipientHeader.get(HEADER_KID)));
+    cek[kid] = uint8ArrayToBase64(
+      kw === "ECDH-ES+HKDF-256+A256KW"
+        ? concat(
+            ephemeralKeyFromCOSEKey(
+              asMap(recipientUnprotected).get(HEADER_EPHEMERAL_KEY) ?? null
+            ),
+            asBytes(encryptedKey)
+          )
+        : asBytes(encryptedKey)
+    );
+  }
+  if (!kw) {
+    malformed();
+  }
+
+  const envelope = {
+    v: version,
+    alg,
+    kw,
+    enc,
+    fmt: "cose",
+    kid: decoder.decode(asBytes(signHeader.get(HEADER_KID))),
+    cek,
+    payload: uint8ArrayToBase64(
+      concat(asBytes(unprotectedHeader.get(HEADER_IV)), asBytes(ciphertext))
+    ),
+    ctx: uint8ArrayToBase64(asBytes(unprotectedHeader.get(HEADER_CTX))),
+    signature: uint8ArrayToBase64(asBytes(signature)),
+  } as KeySealedEnvelope;
+
+  const claims = encryptHeader.has(HEADER_CWT_CLAIMS)
+    ? asMap(encryptHeader.get(HEADER_CWT_CLAIMS))
+    : new Map<CBORValue, CBORValue>();
+  const jti = claims.get(CWT_CLAIM_KEYS.jti);
+  if (jti !== undefined) {
+    envelope.jti = decoder.decode(asBytes(jti));
+  }
+  for (const name of ["iat", "nbf", "exp"] as const) {
+    const value = claims.get(CWT_CLAIM_KEYS[name]);
+    if (value !== undefined) {
+      envelope[name] = typeof value === "number" ? value : malformed();
+    }
+  }
+  return envelope;
+}
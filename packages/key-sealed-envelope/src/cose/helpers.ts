@@ -0,0 +1,285 @@
+import { CBORTag, type CBORValue, encodeCBOR } from "../cbor.js";
+import { EC_POINT_LENGTHS } from "../constants.js";
+import {
+  type KeySealedEnvelope,
+  type KeyWrapAlgorithm,
+  type SignatureAlgorithm,
+} from "../types/index.js";
+import { base64ToUint8Array } from "../utils.js";
+
+/**
+ * Key wrapping algorithms that COSE libraries can unwrap as-is.
+ */
+export const COSE_KEY_WRAP_ALGORITHMS: readonly KeyWrapAlgorithm[] = [
+  "RSA-OAEP-256",
+  "ECDH-ES+HKDF-256+A256KW",
+];
+
+export const COSE_SIGN1_TAG = 18;
+export const COSE_ENCRYPT_TAG = 96;
+
+// Header parameters (RFC 9052 §3.1, RFC 9053 §6.4.1, RFC 9597). COSE has
+// none for the envelope version or the CTX tag, so those use text labels.
+export const HEADER_ALG = 1;
+export const HEADER_CONTENT_TYPE = 3;
+export const HEADER_KID = 4;
+export const HEADER_IV = 5;
+export const HEADER_CWT_CLAIMS = 15;
+export const HEADER_EPHEMERAL_KEY = -1;
+export const HEADER_VERSION = "kse";
+export const HEADER_CTX = "ctx";
+
+/**
+ * CWT claim keys (RFC 8392 §4) for the envelope claims. `jti` travels as
+ * `cti`, the UTF-8 bytes of the envelope ID.
+ */
+export const CWT_CLAIM_KEYS = { jti: 7, iat: 6, nbf: 5, exp: 4 } as const;
+
+/**
+ * COSE algorithm identifiers (RFC 9053, RFC 8230) for the header algorithms.
+ */
+export const COSE_ALGORITHMS = {
+  "PS256": -37,
+  "ES256": -7,
+  "ES384": -35,
+  "ES512": -36,
+  "EdDSA": -8,
+  "A256GCM": 3,
+  "RSA-OAEP-256": -41,
+  "ECDH-ES+HKDF-256+A256KW": -31,
+} as const satisfies Partial<
+  Record<SignatureAlgorithm | KeyWrapAlgorithm | "A256GCM", number>
+>;
+
+const COSE_A256KW = -5;
+
+// CoAP content format for application/cose; cose-type="cose-encrypt"
+const COSE_ENCRYPT_CONTENT_FORMAT = 96;
+
+// COSE_Key parameters and values (RFC 9053 §7)
+const KEY_KTY = 1;
+const KEY_CRV = -1;
+const KEY_X = -2;
+const KEY_Y = -3;
+const KTY_OKP = 1;
+const KTY_EC2 = 2;
+const COSE_CURVES: Record<string, number> = {
+  "P-256": 1,
+  "P-384": 2,
+  "P-521": 3,
+  "X25519": 4,
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * The protected header of a recipient's COSE_recipient structure. It names
+ * the recipient's key, so that ECDH-ES key derivation, which covers the
+ * protected header, is bound to it.
+ */
+export function coseRecipientProtectedHeader(
+  kw: KeyWrapAlgorithm,
+  recipientKid: string
+): Uint8Array {
+  if (!COSE_KEY_WRAP_ALGORITHMS.includes(kw)) {
+    throw new Error(`${kw} cannot be represented in COSE`);
+  }
+  return encodeCBOR(
+    new Map<CBORValue, CBORValue>([
+      [HEADER_ALG, COSE_ALGORITHMS[kw as keyof typeof COSE_ALGORITHMS]],
+      [HEADER_KID, encoder.encode(recipientKid)],
+    ])
+  );
+}
+
+/**
+ * The COSE_KDF_Context (RFC 9053 §5.2) for deriving an A256KW key under
+ * ECDH-ES + A256KW. No party information is sent; the recipient's protected
+ * header carries its key ID instead.
+ */
+export function coseKDFContext(
+  recipientProtectedHeader: Uint8Array
+): Uint8Array {
+  const noPartyInfo = [null, null, null];
+  return encodeCBOR([
+    COSE_A256KW,
+    noPartyInfo,
+    noPartyInfo,
+    [256, recipientProtectedHeader],
+  ]);
+}
+
+/**
+ * The COSE_Encrypt protected header for an envelope: the content encryption
+ * algorithm, the envelope version and its claims.
+ */
+export function coseEncryptProtectedHeader(
+  envelope: Omit<KeySealedEnvelope, "cek" | "payload" | "ctx" | "signature">
+): Uint8Array {
+  const claims = new Map<CBORValue, CBORValue>();
+  if (envelope.jti !== undefined) {
+    claims.set(CWT_CLAIM_KEYS.jti, encoder.encode(envelope.jti));
+  }
+  for (const name of ["iat", "nbf", "exp"] as const) {
+    const value = envelope[name];
+    if (value !== undefined) {
+      claims.set(CWT_CLAIM_KEYS[name], value);
+    }
+  }
+
+  const header = new Map<CBORValue, CBORValue>([
+    [HEADER_ALG, COSE_ALGORITHMS[envelope.enc]],
+    [HEADER_VERSION, envelope.v],
+  ]);
+  if (claims.size > 0) {
+    header.set(HEADER_CWT_CLAIMS, claims);
+  }
+  return encodeCBOR(header);
+}
+
+/**
+ * The AES-GCM additional data COSE prescribes: the Enc_structure over the
+ * protected header and any external AAD (RFC 9052 §5.3).
+ */
+export function coseEncStructure(
+  protectedHeader: Uint8Array,
+  aad: Uint8Array | undefined
+): Uint8Array {
+  return encodeCBOR(["Encrypt", protectedHeader, aad ?? new Uint8Array(0)]);
+}
+
+// Point lengths identify the curve; EC points are uncompressed (0x04 ‖ x ‖ y)
+function ephemeralKeyToCOSEKey(raw: Uint8Array): Map<CBORValue, CBORValue> {
+  const curve = Object.keys(EC_POINT_LENGTHS).find(
+    (candidate) => EC_POINT_LENGTHS[candidate] === raw.length
+  );
+  if (!curve) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  if (curve === "X25519") {
+    return new Map<CBORValue, CBORValue>([
+      [KEY_KTY, KTY_OKP],
+      [KEY_CRV, COSE_CURVES[curve]!],
+      [KEY_X, raw],
+    ]);
+  }
+
+  const coordinateLength = (raw.length - 1) / 2;
+  return new Map<CBORValue, CBORValue>([
+    [KEY_KTY, KTY_EC2],
+    [KEY_CRV, COSE_CURVES[curve]!],
+    [KEY_X, raw.slice(1, 1 + coordinateLength)],
+    [KEY_Y, raw.slice(1 + coordinateLength)],
+  ]);
+}
+
+/**
+ * Reverses the COSE_Key encoding of an ephemeral public key.
+ *
+ * @throws If the key is not on a supported curve
+ */
+export function ephemeralKeyFromCOSEKey(key: CBORValue): Uint8Array {
+  if (!(key instanceof Map)) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  const curve = Object.keys(COSE_CURVES).find(
+    (candidate) => COSE_CURVES[candidate] === key.get(KEY_CRV)
+  );
+  const x = key.get(KEY_X);
+  if (!curve || !(x instanceof Uint8Array)) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  if (key.get(KEY_KTY) === KTY_OKP && curve === "X25519") {
+    if (x.length !== EC_POINT_LENGTHS[curve]) {
+      throw new Error("Unsupported ephemeral key");
+    }
+    return x;
+  }
+  const y = key.get(KEY_Y);
+  if (key.get(KEY_KTY) !== KTY_EC2 || !(y instanceof Uint8Array)) {
+    throw new Error("Unsupported ephemeral key");
+  }
+
+  const raw = new Uint8Array(1 + x.length + y.length);
+  raw[0] = 0x04;
+  raw.set(x, 1);
+  raw.set(y, 1 + x.length);
+  if (raw.length !== EC_POINT_LENGTHS[curve]) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  return raw;
+}
+
+/**
+ * Builds the tagged COSE_Encrypt for an envelope sealed with `fmt: "cose"`.
+ * The result is deterministic, so it can be rebuilt to check the envelope
+ * signature.
+ *
+ * @throws If the envelope's key wrapping cannot be expressed in COSE
+ */
+export function buildCOSEEncrypt(
+  envelope: Omit<KeySealedEnvelope, "signature">
+): CBORTag {
+  const recipients = Object.entries(envelope.cek).map(([kid, encrypted]) => {
+    const protectedHeader = coseRecipientProtectedHeader(envelope.kw, kid);
+    const bytes = base64ToUint8Array(encrypted);
+    if (envelope.kw === "RSA-OAEP-256") {
+      return [protectedHeader, new Map(), bytes];
+    }
+
+    // ECDH-ES+HKDF-256+A256KW: the ephemeral key, then 40 bytes of AES-KW
+    // output
+    const unprotectedHeader = new Map<CBORValue, CBORValue>([
+      [
+        HEADER_EPHEMERAL_KEY,
+        ephemeralKeyToCOSEKey(bytes.subarray(0, bytes.length - 40)),
+      ],
+    ]);
+    return [protectedHeader, unprotectedHeader, bytes.slice(-40)];
+  });
+
+  const payload = base64ToUint8Array(envelope.payload);
+  return new CBORTag(COSE_ENCRYPT_TAG, [
+    coseEncryptProtectedHeader(envelope),
+    new Map<CBORValue, CBORValue>([
+      [HEADER_IV, payload.slice(0, 12)],
+      [HEADER_CTX, base64ToUint8Array(envelope.ctx)],
+    ]),
+    payload.slice(12),
+    recipients,
+  ]);
+}
+
+/**
+ * The COSE_Sign1 that signs an envelope sealed with `fmt: "cose"`: its
+ * protected header and payload, and the Sig_structure over them with any
+ * AAD as external data (RFC 9052 §4.4).
+ */
+export function buildCOSESign1(
+  envelope: Omit<KeySealedEnvelope, "signature">,
+  aad: Uint8Array | undefined
+): {
+  protectedHeader: Uint8Array;
+  payload: Uint8Array;
+  toBeSigned: Uint8Array;
+} {
+  const protectedHeader = encodeCBOR(
+    new Map<CBORValue, CBORValue>([
+      [HEADER_ALG, COSE_ALGORITHMS[envelope.alg]],
+      [HEADER_CONTENT_TYPE, COSE_ENCRYPT_CONTENT_FORMAT],
+      [HEADER_KID, encoder.encode(envelope.kid)],
+    ])
+  );
+  const payload = encodeCBOR(buildCOSEEncrypt(envelope));
+
+  return {
+    protectedHeader,
+    payload,
+    toBeSigned: encodeCBOR([
+      "Signature1",
+      protectedHeader,
+      aad ?? new Uint8Array(0),
+      payload,
+    ]),
+  };
+}
@@ -0,0 +1 @@
+export { fromCOSE, toCOSE } from "./convert.js";
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+
+import { ECSealer } from "../sealer/ec-sealer.js";
+import { deserializeEnvelope, serializeEnvelope } from "../serialization.js";
+import {
+  type ECPrivateNamedJWK,
+  type ECPublicNamedJWK,
+  type KeySealedEnvelope,
+  type OKPPrivateNamedJWK,
+} from "../types/index.js";
+import { ECUnsealer } from "../unsealer/ec-unsealer.js";
+
+import { EnvelopeCountersigner } from "./envelope-countersigner.js";
+
+async function generateJWKs(
+  algorithm: EcKeyGenParams,
+  usages: KeyUsage[],
+  kid: string
+) {
+  const keyPair = await crypto.subtle.generateKey(algorithm, true, usages);
+  return {
+    privateJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid,
+    } as ECPrivateNamedJWK,
+    publicJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid,
+    } as ECPublicNamedJWK,
+  };
+}
+
+const ecdsa = { name: "ECDSA", namedCurve: "P-256" };
+const service = await generateJWKs(ecdsa, ["sign", "verify"], "service");
+const operator = await generateJWKs(ecdsa, ["sign", "verify"], "operator");
+const auditor = await generateJWKs(ecdsa, ["sign", "verify"], "auditor");
+const recipient = await generateJWKs(
+  { name: "ECDH", namedCurve: "P-256" },
+  ["deriveKey"],
+  "recipient1"
+);
+
+const sealer = await ECSealer.create(service.privateJWK, [recipient.publicJWK]);
+const operatorCountersigner = await EnvelopeCountersigner.create(
+  operator.privateJWK
+);
+const auditorCountersigner = await EnvelopeCountersigner.create(
+  auditor.privateJWK
+);
+
+const senderKeys = [service.publicJWK, operator.publicJWK, auditor.publicJWK];
+const dualControl = await ECUnsealer.create(recipient.privateJWK, senderKeys, {
+  signaturePolicy: { kids: ["service", "operator"], threshold: 2 },
+});
+
+async function seal(): Promise<KeySealedEnvelope> {
+  return await sealer.seal("approved transfer", ["recipient1"]);
+}
+
+describe("EnvelopeCountersigner", () => {
+  it("satisfies a signature policy with the sender's signature", async () => {
+    const envelope = await operatorCountersigner.countersign(await seal());
+
+    expect(envelope.signatures).toEqual([
+      { kid: "operator", alg: "ES256", signature: expect.any(String) },
+    ]);
+    const decrypted = await dualControl.unseal(envelope);
+    expect(new TextDecoder().decode(decrypted)).toBe("approved transfer");
+  });
+
+  it("rejects envelopes short of the threshold", async () => {
+    const envelope = await seal();
+
+    await expect(dualControl.unseal(envelope)).rejects.toThrow(
+      "Envelope has 1 of 2 required signatures"
+    );
+    // Signatures from keys outside the policy do not count
+    await expect(
+      dualControl.unseal(await auditorCountersigner.countersign(envelope))
+    ).rejects.toThrow("Envelope has 1 of 2 required signatures");
+  });
+
+  it("counts countersignatures without the sender's", async () => {
+    const unsealer = await ECUnsealer.create(recipient.privateJWK, senderKeys, {
+      signaturePolicy: { kids: ["operator", "auditor"], threshold: 2 },
+    });
+
+    const envelope = await auditorCountersigner.countersign(
+      await operatorCountersigner.countersign(await seal())
+    );
+
+    const decrypted = await unsealer.unseal(envelope);
+    expect(new TextDecoder().decode(decrypted)).toBe("approved transfer");
+  });
+
+  it("does not count invalid countersignatures", async () => {
+    const envelope = await operatorCountersigner.countersign(await seal());
+    const [countersignature] = envelope.signatures!;
+
+    // Moved to another envelope
+    await expect(
+      dualControl.unseal({ ...(await seal()), signatures: [countersignature!] })
+    ).rejects.toThrow("Envelope has 1 of 2 required signatures");
+    // Relabeled as another key's
+    await expect(
+      dualControl.unseal({
+        ...envelope,
+        signatures: [{ ...countersignature!, kid: "service" }],
+      })
+    ).rejects.toThrow("Envelope has 1 of 2 required signatures");
+  });
+
+  it("covers the associated data", async () => {
+    const envelope = await sealer.seal("approved transfer", ["recipient1"], {
+      aad: "tenant-1",
+    });
+
+    const countersigned = await operatorCountersigner.countersign(envelope, {
+      aad: "tenant-2",
+    });
+    await expect(
+      dualControl.unseal(countersigned, { aad: "tenant-1" })
+    ).rejects.toThrow("Envelope has 1 of 2 required signatures");
+
+    const approved = await operatorCountersigner.countersign(envelope, {
+      aad: "tenant-1",
+    });
+    const decrypted = await dualControl.unseal(approved, { aad: "tenant-1" });
+    expect(new TextDecoder().decode(decrypted)).toBe("approved transfer");
+  });
+
+  it("survives the binary encoding", async () => {
+    const envelope = await operatorCountersigner.countersign(await seal());
+
+    const restored = deserializeEnvelope(serializeEnvelope(envelope));
+    expect(restored).toEqual(envelope);
+    const decrypted = await dualControl.unseal(restored);
+    expect(new TextDecoder().decode(decrypted)).toBe("approved transfer");
+  });
+
+  it("leaves unsealers without a policy unaffected", async () => {
+    const unsealer = await ECUnsealer.create(recipient.privateJWK, [
+      service.publicJWK,
+    ]);
+
+    const envelope = await operatorCountersigner.countersign(await seal());
+    const decrypted = await unsealer.unseal(envelope);
+    expect(new TextDecoder().decode(decrypted)).toBe("approved transfer");
+  });
+
+  it("countersigns with other key types", async () => {
+    const keyPair = (await crypto.subtle.generateKey(
+      { name: "Ed25519" },
+      true,
+      ["sign", "verify"]
+    )) as CryptoKeyPair;
+    const countersigner = await EnvelopeCountersigner.create({
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid: "operator-ed25519",
+    } as OKPPrivateNamedJWK);
+
+    const envelope = await countersigner.countersign(await seal());
+    expect(envelope.signatures![0]!.alg).toBe("EdDSA");
+  });
+
+  it("countersigns only once per key", async () => {
+    const envelope = await operatorCountersigner.countersign(await seal());
+
+    await expect(operatorCountersigner.countersign(envelope)).rejects.toThrow(
+      "Envelope is already countersigned by operator"
+    );
+  });
+
+  it("rejects JWE envelopes", async () => {
+    const envelope = await sealer.seal("approved transfer", ["recipient1"], {
+      fmt: "jwe",
+    });
+
+    await expect(operatorCountersigner.countersign(envelope)).rejects.toThrow(
+      "Countersignatures are not supported with jwe"
+    );
+  });
+
+  it("validates the policy threshold", async () => {
+    const unsealer = await ECUnsealer.create(recipient.privateJWK, senderKeys, {
+      signaturePolicy: { kids: ["service"], threshold: 2 },
+    });
+
+    await expect(unsealer.unseal(await seal())).rejects.toThrow(
+      "Signature policy threshold must be between 1 and 1"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { ENVELOPE_VERSION } from "../constants.js";
+import { signingKeyAlgorithm } from "../keys.js";
+import { signatureAlgorithmFor, signEnvelope } from "../sealer/helpers.js";
+import {
+  type ECPrivateNamedJWK,
+  type KeySealedEnvelope,
+  type OKPPrivateNamedJWK,
+  type RSAPrivateNamedJWK,
+  type SignatureAlgorithm,
+  type UnsealOptions,
+} from "../types/index.js";
+import {
+  countersignedContents,
+  isHiddenSenderEnvelope,
+} from "../unsealer/helpers.js";
+import { normalizeAAD } from "../utils.js";
+
+/**
+ * Adds countersignatures to sealed envelopes, e.g. so that an operator can
+ * approve an envelope a service sealed. Unsealers with a `signaturePolicy`
+ * count valid countersignatures alongside the sender's signature.
+ *
+ * A countersignature endorses the envelope as it stands, so unseal it (or
+ * otherwise check it) before countersigning. Any key type can countersign.
+ *
+ * @example
+ * const countersigner = await EnvelopeCountersigner.create(operatorPrivateJWK);
+ * const approved = await countersigner.countersign(envelope);
+ */
+export class EnvelopeCountersigner {
+  private readonly privateKey: CryptoKey;
+  private readonly privateKid: string;
+  private readonly alg: SignatureAlgorithm;
+
+  private constructor(
+    privateKey: CryptoKey,
+    privateKid: string,
+    alg: SignatureAlgorithm
+  ) {
+    this.privateKey = privateKey;
+    this.privateKid = privateKid;
+    this.alg = alg;
+  }
+
+  /**
+   * Creates a new EnvelopeCountersigner instance.
+   * @param privateJwk - Your RSA, EC or Ed25519 private key for signing
+   * @returns New EnvelopeCountersigner instance
+   * @throws If the key type is not supported
+   */
+  static async create(
+    privateJwk: RSAPrivateNamedJWK | ECPrivateNamedJWK | OKPPrivateNamedJWK
+  ): Promise<EnvelopeCountersigner> {
+    const privateKey = await crypto.subtle.importKey(
+      "jwk",
+      privateJwk,
+      signingKeyAlgorithm(privateJwk),
+      true,
+      ["sign"]
+    );
+
+    return new EnvelopeCountersigner(
+      privateKey,
+      privateJwk.kid,
+      signatureAlgorithmFor(privateKey)
+    );
+  }
+
+  /**
+   * Countersigns an envelope, leaving the original untouched.
+   *
+   * @param envelope - The sealed envelope to countersign
+   * @param options - The associated data the envelope was sealed with, if
+   *   any, which the countersignature covers too
+   * @returns A copy of the envelope with the countersignature added
+   * @throws If the envelope is not a native v2 envelope, hides its sender,
+   *   or has already been countersigned by this key
+   */
+  async countersign(
+    envelope: KeySealedEnvelope,
+    options: UnsealOptions = {}
+  ): Promise<KeySealedEnvelope> {
+    // JSON input may carry any version, whatever the type says
+    const version: number | undefined = envelope.v;
+    if (version !== ENVELOPE_VERSION) {
+      throw new Error("Only v2 envelopes can be countersigned");
+    }
+    // Its sender's signature is encrypted, so there is nothing to countersign
+    if (isHiddenSenderEnvelope(envelope)) {
+      throw new Error("Envelopes with a hidden sender cannot be countersigned");
+    }
+    if (envelope.fmt) {
+      throw new Error(
+        `Countersignatures are not supported with ${envelope.fmt}`
+      );
+    }
+    const signatures = envelope.signatures ?? [];
+    if (signatures.some(({ kid }) => kid === this.privateKid)) {
+      throw new Error(
+        `Envelope is already countersigned by ${this.privateKid}`
+      );
+    }
+
+    const signature = await signEnvelope(
+      countersignedContents(
+        envelope,
+        normalizeAAD(options.aad),
+        this.privateKid,
+        this.alg
+      ),
+      this.privateKey,
+      this.alg
+    );
+
+    return {
+      ...envelope,
+      signatures: [
+        ...signatures,
+        { kid: this.privateKid, alg: this.alg, signature },
+      ],
+    };
+  }
+}
@@ -0,0 +1 @@
+export { EnvelopeCountersigner } from "./envelope-countersigner.js";
@@ -0,0 +1,109 @@
+import {
+  Aes256Gcm,
+  CipherSuite,
+  DhkemP256HkdfSha256,
+  DhkemX25519HkdfSha256,
+  HkdfSha256,
+} from "@hpke/core";
+import { describe, expect, it } from "vitest";
+
+import { hpkeOpen, hpkeSeal } from "./hpke.js";
+
+// Checked against an independent implementation rather than the RFC 9180
+// vectors, which use AES-128-GCM or ChaCha20-Poly1305 for these KEMs
+const suites = [
+  {
+    name: "DHKEM(P-256, HKDF-SHA256)",
+    algorithm: { name: "ECDH", namedCurve: "P-256" },
+    kem: new DhkemP256HkdfSha256(),
+  },
+  {
+    name: "DHKEM(X25519, HKDF-SHA256)",
+    algorithm: { name: "X25519" },
+    kem: new DhkemX25519HkdfSha256(),
+  },
+];
+
+const info = new TextEncoder().encode("test info");
+const aad = new TextEncoder().encode("test aad");
+const plaintext = new TextEncoder().encode("test message");
+
+describe.each(suites)("HPKE with $name", ({ algorithm, kem }) => {
+  const suite = new CipherSuite({
+    kem,
+    kdf: new HkdfSha256(),
+    aead: new Aes256Gcm(),
+  });
+
+  async function generateRecipient() {
+    const keyPair = (await crypto.subtle.generateKey(algorithm, true, [
+      "deriveKey",
+    ])) as CryptoKeyPair;
+    // The other implementation checks key_ops against its own usages
+    const { key_ops: _, ...jwk } = await crypto.subtle.exportKey(
+      "jwk",
+      keyPair.privateKey
+    );
+    return { keyPair, jwk };
+  }
+
+  it("opens messages sealed by another implementation", async () => {
+    const { keyPair, jwk } = await generateRecipient();
+    const { d: _, ...publicJwk } = jwk;
+
+    const sender = await suite.createSenderContext({
+      recipientPublicKey: await suite.kem.importKey("jwk", publicJwk, true),
+      info: info.buffer as ArrayBuffer,
+    });
+    const ciphertext = await sender.seal(
+      plaintext.buffer as ArrayBuffer,
+      aad.buffer as ArrayBuffer
+    );
+
+    const opened = await hpkeOpen(
+      keyPair.privateKey,
+      new Uint8Array(sender.enc),
+      info,
+      aad,
+      new Uint8Array(ciphertext)
+    );
+    expect(opened).toEqual(plaintext);
+  });
+
+  it("seals messages another implementation can open", async () => {
+    const { keyPair, jwk } = await generateRecipient();
+
+    const { enc, ciphertext } = await hpkeSeal(
+      keyPair.publicKey,
+      info,
+      aad,
+      plaintext
+    );
+
+    const recipient = await suite.createRecipientContext({
+      recipientKey: await suite.kem.importKey("jwk", jwk, false),
+      enc: enc.slice().buffer,
+      info: info.buffer as ArrayBuffer,
+    });
+    const opened = await recipient.open(
+      ciphertext.slice().buffer,
+      aad.buffer as ArrayBuffer
+    );
+    expect(new Uint8Array(opened)).toEqual(plaintext);
+  });
+
+  it("rejects a different info", async () => {
+    const { keyPair } = await generateRecipient();
+
+    const { enc, ciphertext } = await hpkeSeal(
+      keyPair.publicKey,
+      info,
+      aad,
+      plaintext
+    );
+
+    await expect(
+      hpkeOpen(keyPair.privateKey, enc, new Uint8Array(0), aad, ciphertext)
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,228 @@
+import { ecdhSharedSecret } from "./kdf.js";
+import { concatUint8Arrays as concat } from "./utils.js";
+
+// HPKE (RFC 9180) Base mode, single-shot, with HKDF-SHA256 and AES-256-GCM,
+// over DHKEM(P-256, HKDF-SHA256) or DHKEM(X25519, HKDF-SHA256).
+
+const MODE_BASE = 0x00;
+const KDF_HKDF_SHA256 = 0x0001;
+const AEAD_AES_256_GCM = 0x0002;
+
+const KEM_IDS: Record<string, number> = {
+  "P-256": 0x0010,
+  "X25519": 0x0020,
+};
+
+const encoder = new TextEncoder();
+
+function i2osp(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value >>>= 8;
+  }
+  return bytes;
+}
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  // An empty HMAC key is equivalent to a block of zeros, and WebCrypto
+  // refuses empty keys
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    key.length > 0 ? key : new Uint8Array(32),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, data));
+}
+
+async function labeledExtract(
+  suiteId: Uint8Array,
+  salt: Uint8Array,
+  label: string,
+  ikm: Uint8Array
+): Promise<Uint8Array> {
+  return hmac(
+    salt,
+    concat(encoder.encode("HPKE-v1"), suiteId, encoder.encode(label), ikm)
+  );
+}
+
+async function labeledExpand(
+  suiteId: Uint8Array,
+  prk: Uint8Array,
+  label: string,
+  info: Uint8Array,
+  length: number
+): Promise<Uint8Array> {
+  const labeledInfo = concat(
+    i2osp(length, 2),
+    encoder.encode("HPKE-v1"),
+    suiteId,
+    encoder.encode(label),
+    info
+  );
+
+  const output = new Uint8Array(Math.ceil(length / 32) * 32);
+  let previous: Uint8Array = new Uint8Array(0);
+  for (let i = 0; i * 32 < length; i++) {
+    previous = await hmac(prk, concat(previous, labeledInfo, i2osp(i + 1, 1)));
+    output.set(previous, i * 32);
+  }
+  return output.subarray(0, length);
+}
+
+function curveOf(key: CryptoKey): string {
+  const curve =
+    (key.algorithm as Partial<EcKeyAlgorithm>).namedCurve ?? key.algorithm.name;
+  if (KEM_IDS[curve] === undefined) {
+    throw new Error(`HPKE does not support curve: ${curve}`);
+  }
+  return curve;
+}
+
+async function serializePublicKey(key: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey("raw", key));
+}
+
+// WebCrypto cannot export a public key from a private one, so go through the
+// private key's JWK, which carries the public coordinates too
+async function publicKeyFor(privateKey: CryptoKey): Promise<Uint8Array> {
+  const {
+    d: _,
+    key_ops: __,
+    ...publicJwk
+  } = await crypto.subtle.exportKey("jwk", privateKey);
+  const publicKey = await crypto.subtle.importKey(
+    "jwk",
+    publicJwk,
+    privateKey.algorithm as EcKeyImportParams,
+    true,
+    []
+  );
+  return serializePublicKey(publicKey);
+}
+
+async function extractAndExpand(
+  curve: string,
+  dh: Uint8Array,
+  kemContext: Uint8Array
+): Promise<Uint8Array> {
+  const suiteId = concat(encoder.encode("KEM"), i2osp(KEM_IDS[curve]!, 2));
+  const eaePrk = await labeledExtract(
+    suiteId,
+    new Uint8Array(0),
+    "eae_prk",
+    dh
+  );
+  return labeledExpand(suiteId, eaePrk, "shared_secret", kemContext, 32);
+}
+
+async function keySchedule(
+  curve: string,
+  sharedSecret: Uint8Array,
+  info: Uint8Array
+): Promise<{ key: CryptoKey; nonce: Uint8Array }> {
+  const suiteId = concat(
+    encoder.encode("HPKE"),
+    i2osp(KEM_IDS[curve]!, 2),
+    i2osp(KDF_HKDF_SHA256, 2),
+    i2osp(AEAD_AES_256_GCM, 2)
+  );
+  const empty = new Uint8Array(0);
+
+  const pskIdHash = await labeledExtract(suiteId, empty, "psk_id_hash", empty);
+  const infoHash = await labeledExtract(suiteId, empty, "info_hash", info);
+  const context = concat(i2osp(MODE_BASE, 1), pskIdHash, infoHash);
+
+  const secret = await labeledExtract(suiteId, sharedSecret, "secret", empty);
+  const keyBytes = await labeledExpand(suiteId, secret, "key", context, 32);
+  // Single-shot: the one message uses sequence number 0, so the nonce is
+  // the base nonce itself
+  const nonce = await labeledExpand(suiteId, secret, "base_nonce", context, 12);
+
+  const key = await crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+  return { key, nonce };
+}
+
+/**
+ * Encrypts a message to a recipient public key.
+ *
+ * @param recipientKey - P-256 ECDH or X25519 public key
+ * @param info - Application-supplied context bound into the key schedule
+ * @param aad - Associated data for the AEAD
+ * @param plaintext - Message to encrypt
+ * @returns The encapsulated key and the ciphertext
+ */
+export async function hpkeSeal(
+  recipientKey: CryptoKey,
+  info: Uint8Array,
+  aad: Uint8Array,
+  plaintext: Uint8Array
+): Promise<{ enc: Uint8Array; ciphertext: Uint8Array }> {
+  const curve = curveOf(recipientKey);
+  const ephemeralKey = (await crypto.subtle.generateKey(
+    recipientKey.algorithm as EcKeyGenParams,
+    true,
+    ["deriveKey"]
+  )) as CryptoKeyPair;
+
+  const dh = await ecdhSharedSecret(ephemeralKey.privateKey, recipientKey);
+  const enc = await serializePublicKey(ephemeralKey.publicKey);
+  const kemContext = concat(enc, await serializePublicKey(recipientKey));
+  const sharedSecret = await extractAndExpand(curve, dh, kemContext);
+
+  const { key, nonce } = await keySchedule(curve, sharedSecret, info);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: nonce, additionalData: aad },
+    key,
+    plaintext
+  );
+
+  return { enc, ciphertext: new Uint8Array(ciphertext) };
+}
+
+/**
+ * Decrypts a message sealed with {@link hpkeSeal}.
+ *
+ * @param recipientKey - Extractable P-256 ECDH or X25519 private key
+ * @param enc - The encapsulated key
+ * @param info - Context the message was sealed with
+ * @param aad - Associated data the message was sealed with
+ * @param ciphertext - Message to decrypt
+ * @returns The plaintext
+ * @throws If the key cannot be used for HPKE or decryption fails
+ */
+export async function hpkeOpen(
+  recipientKey: CryptoKey,
+  enc: Uint8Array,
+  info: Uint8Array,
+  aad: Uint8Array,
+  ciphertext: Uint8Array
+): Promise<Uint8Array> {
+  const curve = curveOf(recipientKey);
+  const ephemeralKey = await crypto.subtle.importKey(
+    "raw",
+    enc,
+    recipientKey.algorithm as EcKeyImportParams,
+    true,
+    []
+  );
+
+  const dh = await ecdhSharedSecret(recipientKey, ephemeralKey);
+  const kemContext = concat(enc, await publicKeyFor(recipientKey));
+  const sharedSecret = await extractAndExpand(curve, dh, kemContext);
+
+  const { key, nonce } = await keySchedule(curve, sharedSecret, info);
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: nonce, additionalData: aad },
+      key,
+      ciphertext
+    )
+  );
+}
@@ -1,4 +1,12 @@
 export * from "./unsealer/index.js";
 export * from "./sealer/index.js";
+export * from "./countersigner/index.js";
+export * from "./key-ring/index.js";
+export * from "./verifier/index.js";
+export * from "./replay/index.js";
+export * from "./jwe/index.js";
+export * from "./cose/index.js";
+export { deserializeEnvelope, serializeEnvelope } from "./serialization.js";
+export { inspectEnvelope } from "./inspect.js";
 
 export * from "./types/index.js";
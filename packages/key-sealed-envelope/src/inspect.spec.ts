@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+
+import { EnvelopeCountersigner } from "./countersigner/envelope-countersigner.js";
+import { inspectEnvelope } from "./inspect.js";
+import { ECSealer } from "./sealer/ec-sealer.js";
+import { OKPSealer } from "./sealer/okp-sealer.js";
+import { RSASealer } from "./sealer/rsa-sealer.js";
+import { serializeEnvelope } from "./serialization.js";
+import {
+  type ECPrivateNamedJWK,
+  type ECPublicNamedJWK,
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+  type RSAPrivateNamedJWK,
+  type RSAPublicNamedJWK,
+} from "./types/index.js";
+
+async function generateJWKs<Private, Public>(
+  algorithm: RsaHashedKeyGenParams | EcKeyGenParams | Algorithm,
+  usages: KeyUsage[],
+  kid: string
+) {
+  const keyPair = (await crypto.subtle.generateKey(
+    algorithm,
+    true,
+    usages
+  )) as CryptoKeyPair;
+  return {
+    privateJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid,
+    } as Private,
+    publicJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid,
+    } as Public,
+  };
+}
+
+const rsaParams = {
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: "SHA-256",
+};
+
+const ecSender = await generateJWKs<ECPrivateNamedJWK, ECPublicNamedJWK>(
+  { name: "ECDSA", namedCurve: "P-384" },
+  ["sign", "verify"],
+  "ec-sender"
+);
+const ecRecipients = [
+  await generateJWKs<ECPrivateNamedJWK, ECPublicNamedJWK>(
+    { name: "ECDH", namedCurve: "P-384" },
+    ["deriveKey"],
+    "alice"
+  ),
+  await generateJWKs<ECPrivateNamedJWK, ECPublicNamedJWK>(
+    { name: "ECDH", namedCurve: "P-384" },
+    ["deriveKey"],
+    "bob"
+  ),
+];
+const ecSealer = await ECSealer.create(
+  ecSender.privateJWK,
+  ecRecipients.map(({ publicJWK }) => publicJWK)
+);
+
+const message = "inspect me";
+
+describe("inspectEnvelope", () => {
+  it("describes an envelope without keys", async () => {
+    const envelope = await ecSealer.seal(message, ["alice", "bob"], {
+      exp: new Date(Date.now() + 60_000),
+    });
+
+    expect(inspectEnvelope(envelope)).toEqual({
+      v: 2,
+      kid: "ec-sender",
+      header: { v: 2, alg: "ES384", kw: "ECDH-ES+A256KW", enc: "A256GCM" },
+      claims: { jti: envelope.jti, exp: envelope.exp },
+      recipients: [
+        { kid: "alice", wrappedKeySize: 97 + 40, keyType: "P-384" },
+        { kid: "bob", wrappedKeySize: 97 + 40, keyType: "P-384" },
+      ],
+      ciphertextSize: message.length,
+      countersigners: [],
+    });
+    expect(inspectEnvelope(serializeEnvelope(envelope))).toEqual(
+      inspectEnvelope(envelope)
+    );
+  });
+
+  it("guesses RSA modulus sizes", async () => {
+    const sender = await generateJWKs<RSAPrivateNamedJWK, RSAPublicNamedJWK>(
+      { name: "RSA-PSS", ...rsaParams },
+      ["sign", "verify"],
+      "rsa-sender"
+    );
+    const recipient = await generateJWKs<RSAPrivateNamedJWK, RSAPublicNamedJWK>(
+      { name: "RSA-OAEP", ...rsaParams },
+      ["encrypt", "decrypt"],
+      "rsa-recipient"
+    );
+    const sealer = await RSASealer.create(sender.privateJWK, [
+      recipient.publicJWK,
+    ]);
+
+    const envelope = await sealer.seal(message, ["rsa-recipient"]);
+
+    expect(inspectEnvelope(envelope).recipients).toEqual([
+      { kid: "rsa-recipient", wrappedKeySize: 256, keyType: "RSA-2048" },
+    ]);
+  });
+
+  it("guesses X25519 recipients of HPKE", async () => {
+    const sender = await generateJWKs<OKPPrivateNamedJWK, OKPPublicNamedJWK>(
+      { name: "Ed25519" },
+      ["sign", "verify"],
+      "okp-sender"
+    );
+    const recipient = await generateJWKs<OKPPrivateNamedJWK, OKPPublicNamedJWK>(
+      { name: "X25519" },
+      ["deriveKey"],
+      "okp-recipient"
+    );
+    const sealer = await OKPSealer.create(sender.privateJWK, [
+      recipient.publicJWK,
+    ]);
+
+    const envelope = await sealer.seal(message, ["okp-recipient"], {
+      kw: "HPKE-A256GCM",
+    });
+
+    expect(inspectEnvelope(envelope).recipients).toEqual([
+      { kid: "okp-recipient", wrappedKeySize: 32 + 48, keyType: "X25519" },
+    ]);
+  });
+
+  it("reports what anonymous and hidden-sender envelopes reveal", async () => {
+    const envelope = await ecSealer.sealHiddenSender(message, ["alice"], {
+      anonymousRecipients: true,
+    });
+
+    const inspection = inspectEnvelope(envelope);
+    expect(inspection).not.toHaveProperty("kid");
+    expect(inspection.header).toEqual({
+      v: 2,
+      kw: "ECDH-ES+A256KW",
+      enc: "A256GCM",
+      anon: true,
+      hid: true,
+    });
+    expect(inspection.recipients).toEqual([
+      { wrappedKeySize: 97 + 40, keyType: "P-384" },
+    ]);
+  });
+
+  it("lists countersigners", async () => {
+    const operator = await generateJWKs<ECPrivateNamedJWK, ECPublicNamedJWK>(
+      { name: "ECDSA", namedCurve: "P-256" },
+      ["sign", "verify"],
+      "operator"
+    );
+    const countersigner = await EnvelopeCountersigner.create(
+      operator.privateJWK
+    );
+
+    const envelope = await countersigner.countersign(
+      await ecSealer.seal(message, ["bob"])
+    );
+
+    expect(inspectEnvelope(envelope).countersigners).toEqual(["operator"]);
+  });
+
+  it("rejects malformed envelopes", async () => {
+    const envelope = await ecSealer.seal(message, ["alice"]);
+
+    expect(() => inspectEnvelope({ ...envelope, payload: "AAAA" })).toThrow(
+      "Malformed envelope"
+    );
+    expect(() =>
+      inspectEnvelope({ ...envelope, cek: { alice: "%%%" } })
+    ).toThrow("Malformed envelope");
+    expect(() => inspectEnvelope({ ...envelope, ctx: 7 } as never)).toThrow(
+      "Malformed envelope"
+    );
+  });
+});
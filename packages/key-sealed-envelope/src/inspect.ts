@@ -0,0 +1,153 @@
+import { EC_POINT_LENGTHS } from "./constants.js";
+import { deserializeEnvelope } from "./serialization.js";
+import {
+  type EnvelopeInspection,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type KeyTypeGuess,
+  type KeyWrapAlgorithm,
+  type LegacyKeySealedEnvelope,
+} from "./types/index.js";
+import {
+  checkEnvelopeStructure,
+  isHiddenSenderEnvelope,
+  isLegacyEnvelope,
+} from "./unsealer/helpers.js";
+import { base64ToUint8Array } from "./utils.js";
+
+// Bytes each ECDH-based algorithm adds to the ephemeral public key: an AES
+// Key Wrap of the CEK, an AES-GCM encryption of it (with the HPKE tag, or
+// the v1 IV and tag)
+const ECDH_WRAP_OVERHEAD: Partial<Record<KeyWrapAlgorithm, number>> = {
+  "ECDH-ES+A256KW": 40,
+  "ECDH-ES+HKDF-256+A256KW": 40,
+  "HPKE-A256GCM": 48,
+  "ECDH+A256GCMKW": 60,
+};
+
+// AES-GCM IV and tag around the payload
+const PAYLOAD_OVERHEAD = 12 + 16;
+
+function decodedLength(base64: string): number {
+  try {
+    return base64ToUint8Array(base64).length;
+  } catch {
+    throw new Error("Malformed envelope");
+  }
+}
+
+function guessKeyType(
+  wrappedKeySize: number,
+  kw: KeyWrapAlgorithm | undefined
+): KeyTypeGuess | undefined {
+  // v1 envelopes name no algorithm, but only used RSA-OAEP and ECDH+A256GCMKW
+  const candidates = kw ? [kw] : (["RSA-OAEP-256", "ECDH+A256GCMKW"] as const);
+  for (const candidate of candidates) {
+    if (candidate === "RSA-OAEP-256") {
+      // RSA-OAEP output is as long as the modulus
+      if (wrappedKeySize >= 256 && wrappedKeySize % 64 === 0) {
+        return `RSA-${wrappedKeySize * 8}`;
+      }
+      continue;
+    }
+    const overhead = ECDH_WRAP_OVERHEAD[candidate];
+    if (overhead === undefined) continue;
+    const curve = Object.keys(EC_POINT_LENGTHS).find(
+      (name) => EC_POINT_LENGTHS[name] === wrappedKeySize - overhead
+    );
+    if (curve) {
+      return curve as KeyTypeGuess;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describes an envelope without any keys, for debugging and tooling: who
+ * sent it, who it was sealed for, how large its parts are, and which kinds
+ * of keys its recipients have, as far as the sizes of their wrapped CEKs
+ * tell.
+ *
+ * Only the envelope's structure is checked. Nothing is verified, so treat
+ * everything reported as the envelope's claim, not as fact.
+ *
+ * @param input - The envelope, or its serialized bytes in either encoding
+ *   or as a COSE message
+ * @returns What the envelope reveals
+ * @throws If the envelope is malformed
+ */
+export function inspectEnvelope(
+  input:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope
+    | Uint8Array
+): EnvelopeInspection {
+  const envelope =
+    input instanceof Uint8Array ? deserializeEnvelope(input) : input;
+  checkEnvelopeStructure(envelope);
+
+  const legacy = isLegacyEnvelope(envelope);
+  const hidden = isHiddenSenderEnvelope(envelope);
+  const kws = legacy ? undefined : envelope.kws;
+  const anonymous = !legacy && envelope.anon === true;
+
+  const ciphertextSize = decodedLength(envelope.payload) - PAYLOAD_OVERHEAD;
+  if (ciphertextSize < 0) {
+    throw new Error("Malformed envelope");
+  }
+
+  const countersignatures: unknown =
+    legacy || hidden ? undefined : envelope.signatures;
+  if (countersignatures !== undefined && !Array.isArray(countersignatures)) {
+    throw new Error("Malformed envelope");
+  }
+
+  return {
+    v: legacy ? 1 : 2,
+    ...(!hidden && { kid: envelope.kid }),
+    ...(!legacy && {
+      header: {
+        v: envelope.v,
+        ...(!hidden && { alg: envelope.alg }),
+        kw: envelope.kw,
+        enc: envelope.enc,
+        ...(!hidden && envelope.fmt && { fmt: envelope.fmt }),
+        ...(envelope.zip && { zip: envelope.zip }),
+        ...(envelope.anon && { anon: envelope.anon }),
+        ...(hidden && { hid: envelope.hid }),
+      },
+    }),
+    claims: legacy
+      ? {}
+      : {
+          ...(envelope.jti !== undefined && { jti: envelope.jti }),
+          ...(envelope.iat !== undefined && { iat: envelope.iat }),
+          ...(envelope.nbf !== undefined && { nbf: envelope.nbf }),
+          ...(envelope.exp !== undefined && { exp: envelope.exp }),
+        },
+    recipients: Object.entries(envelope.cek).map(([kid, wrappedKey]) => {
+      const wrappedKeySize = decodedLength(wrappedKey);
+      const kw = kws?.[kid];
+      const keyType = guessKeyType(
+        wrappedKeySize,
+        kw ?? (legacy ? undefined : envelope.kw)
+      );
+      return {
+        ...(!anonymous && { kid }),
+        wrappedKeySize,
+        ...(keyType && { keyType }),
+        ...(kw && { kw }),
+      };
+    }),
+    ciphertextSize,
+    countersigners: ((countersignatures ?? []) as unknown[]).map((entry) => {
+      const kid: unknown = (entry as { kid?: unknown } | null)?.kid;
+      if (typeof kid !== "string") {
+        throw new Error("Malformed envelope");
+      }
+      return kid;
+    }),
+    ...(!legacy && !hidden && envelope.prov && { prov: envelope.prov }),
+  };
+}
@@ -0,0 +1,226 @@
+import { generalDecrypt, generalVerify } from "jose";
+import { describe, expect, it } from "vitest";
+
+import { sealCore } from "../sealer/core.js";
+import { unsealCore } from "../unsealer/core.js";
+import { base64UrlToUint8Array, uint8ArrayToBase64Url } from "../utils.js";
+
+import { fromJWE, toJWE } from "./convert.js";
+
+// Keys usable both here and by jose, which derives ECDH secrets with
+// deriveBits
+async function generateKeys(kind: "RSA" | "EC" | "OKP") {
+  const rsa = {
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  };
+  const [signing, wrapping]: (
+    | Algorithm
+    | RsaHashedKeyGenParams
+    | EcKeyGenParams
+  )[] = {
+    RSA: [
+      { name: "RSA-PSS", ...rsa },
+      { name: "RSA-OAEP", ...rsa },
+    ],
+    EC: [
+      { name: "ECDSA", namedCurve: "P-256" },
+      { name: "ECDH", namedCurve: "P-256" },
+    ],
+    OKP: [{ name: "Ed25519" }, { name: "X25519" }],
+  }[kind];
+
+  const sender = (await crypto.subtle.generateKey(signing!, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const recipient = (await crypto.subtle.generateKey(
+    wrapping!,
+    true,
+    kind === "RSA" ? ["encrypt", "decrypt"] : ["deriveKey", "deriveBits"]
+  )) as CryptoKeyPair;
+  return { sender, recipient };
+}
+
+describe("JWE conversion", () => {
+  it.each(["RSA", "EC", "OKP"] as const)(
+    "produces a JWS-signed JWE that jose can open (%s keys)",
+    async (kind) => {
+      const { sender, recipient } = await generateKeys(kind);
+      const envelope = await sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        { recipient1: recipient.publicKey },
+        { fmt: "jwe", aad: "tenant-1" }
+      );
+
+      const jws = toJWE(envelope, { aad: "tenant-1" });
+      const { payload, protectedHeader } = await generalVerify(
+        jws,
+        sender.publicKey
+      );
+      expect(protectedHeader?.kid).toBe("sender1");
+
+      const jwe = JSON.parse(new TextDecoder().decode(payload));
+      const { plaintext, additionalAuthenticatedData } = await generalDecrypt(
+        jwe,
+        recipient.privateKey
+      );
+      expect(new TextDecoder().decode(plaintext)).toBe("test message");
+      expect(new TextDecoder().decode(additionalAuthenticatedData)).toBe(
+        "tenant-1"
+      );
+    }
+  );
+
+  it("carries deflate compression as zip: DEF", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const message = "test message ".repeat(100);
+    const envelope = await sealCore(
+      message,
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey },
+      { fmt: "jwe", compression: "deflate" }
+    );
+
+    const jws = toJWE(envelope);
+    const { payload } = await generalVerify(jws, sender.publicKey);
+    const jwe = JSON.parse(new TextDecoder().decode(payload));
+    const { plaintext, protectedHeader } = await generalDecrypt(
+      jwe,
+      recipient.privateKey
+    );
+    expect(protectedHeader?.zip).toBe("DEF");
+    expect(new TextDecoder().decode(plaintext)).toBe(message);
+
+    expect(fromJWE(jws)).toEqual(envelope);
+  });
+
+  it("round-trips through fromJWE", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const envelope = await sealCore(
+      "test message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey },
+      { fmt: "jwe", exp: new Date(Date.now() + 60_000) }
+    );
+
+    const restored = fromJWE(toJWE(envelope));
+    expect(restored).toEqual(envelope);
+
+    const decrypted = await unsealCore(
+      restored,
+      { recipient1: recipient.privateKey },
+      { sender1: sender.publicKey }
+    );
+    expect(new TextDecoder().decode(decrypted)).toBe("test message");
+  });
+
+  it("rejects a JWE altered after signing", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const envelope = await sealCore(
+      "test message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey },
+      { fmt: "jwe" }
+    );
+    const other = await sealCore(
+      "other message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey },
+      { fmt: "jwe" }
+    );
+
+    const jws = toJWE(envelope);
+    const tampered = fromJWE({
+      ...jws,
+      payload: toJWE({ ...envelope, ctx: other.ctx }).payload,
+    });
+
+    await expect(
+      unsealCore(
+        tampered,
+        { recipient1: recipient.privateKey },
+        {
+          sender1: sender.publicKey,
+        }
+      )
+    ).rejects.toThrow("Invalid envelope signature");
+  });
+
+  it("rejects malformed General JSON", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const jws = toJWE(
+      await sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        { recipient1: recipient.publicKey },
+        { fmt: "jwe" }
+      )
+    );
+    const jwe = JSON.parse(
+      new TextDecoder().decode(base64UrlToUint8Array(jws.payload))
+    ) as Record<string, unknown> & { recipients: Record<string, unknown>[] };
+    const [entry] = jwe.recipients as [
+      { header: Record<string, unknown>; encrypted_key: string },
+    ];
+    const withJWE = (changes: Record<string, unknown>) => ({
+      ...jws,
+      payload: uint8ArrayToBase64Url(
+        new TextEncoder().encode(JSON.stringify({ ...jwe, ...changes }))
+      ),
+    });
+
+    for (const malformed of [
+      withJWE({ recipients: [null] }),
+      withJWE({ recipients: [{ ...entry, header: "header" }] }),
+      withJWE({
+        recipients: [{ ...entry, header: { ...entry.header, kid: 42 } }],
+      }),
+      withJWE({ recipients: [{ ...entry, encrypted_key: 42 }] }),
+      withJWE({ recipients: [{ ...entry, encrypted_key: "not base64!" }] }),
+      withJWE({ recipients: [entry, entry] }),
+      withJWE({ iv: 42 }),
+      withJWE({ unprotected: null }),
+      { ...jws, signatures: [{ ...jws.signatures[0]!, signature: 42 }] },
+      { ...jws, payload: "not base64!" },
+    ]) {
+      expect(() => fromJWE(malformed as never)).toThrow("Malformed JWE");
+    }
+  });
+
+  it("rejects envelopes not sealed for JWE", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+    const envelope = await sealCore(
+      "test message",
+      sender.privateKey,
+      "sender1",
+      { recipient1: recipient.publicKey }
+    );
+
+    expect(() => toJWE(envelope)).toThrow(
+      'Only envelopes sealed with fmt: "jwe" can be converted'
+    );
+  });
+
+  it("rejects key wrapping JOSE cannot express", async () => {
+    const { sender, recipient } = await generateKeys("EC");
+
+    await expect(
+      sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        { recipient1: recipient.publicKey },
+        { fmt: "jwe", kw: "HPKE-A256GCM" }
+      )
+    ).rejects.toThrow("HPKE-A256GCM cannot be represented in JWE");
+  });
+});
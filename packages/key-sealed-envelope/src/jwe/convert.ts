@@ -0,0 +1,201 @@
+import {
+  type JWEGeneralJSON,
+  type JWSGeneralJSON,
+  type KeySealedEnvelope,
+  type KeyWrapAlgorithm,
+} from "../types/index.js";
+import {
+  base64ToUint8Array,
+  base64UrlToUint8Array,
+  concatUint8Arrays as concat,
+  normalizeAAD,
+  uint8ArrayToBase64,
+  uint8ArrayToBase64Url,
+} from "../utils.js";
+
+import {
+  buildJWS,
+  ephemeralKeyFromJWK,
+  JWE_KEY_WRAP_ALGORITHMS,
+} from "./helpers.js";
+
+// JSON input may carry anything, whatever the type says
+function decodeBase64Url(value: unknown): Uint8Array {
+  if (typeof value !== "string") {
+    throw new Error("Malformed JWE");
+  }
+  try {
+    return base64UrlToUint8Array(value);
+  } catch {
+    throw new Error("Malformed JWE");
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function decodeJSON(base64url: unknown): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(new TextDecoder().decode(decodeBase64Url(base64url)));
+  } catch {
+    throw new Error("Malformed JWE");
+  }
+  if (!isObject(value)) {
+    throw new Error("Malformed JWE");
+  }
+  return value;
+}
+
+/**
+ * Presents an envelope as a JWE in General JSON Serialization, signed as the
+ * payload of a JWS in General JSON Serialization. JOSE libraries can verify
+ * the JWS with the sender's public key, then decrypt the JWE with a
+ * recipient's private key.
+ *
+ * The envelope must have been sealed with `fmt: "jwe"`. Associated data is
+ * not stored in envelopes, so if it was sealed with some, the same AAD must
+ * be given here; it is carried in the JWE's `aad` member.
+ *
+ * @param envelope - Envelope sealed with `fmt: "jwe"`
+ * @param options - The associated data the envelope was sealed with, if any
+ * @returns The signed JWE
+ * @throws If the envelope was not sealed for JWE
+ */
+export function toJWE(
+  envelope: KeySealedEnvelope,
+  options: { aad?: string | Uint8Array } = {}
+): JWSGeneralJSON {
+  if (envelope.fmt !== "jwe") {
+    throw new Error('Only envelopes sealed with fmt: "jwe" can be converted');
+  }
+
+  const { signature, ...contents } = envelope;
+  const { protectedHeader, payload } = buildJWS(
+    contents,
+    normalizeAAD(options.aad)
+  );
+
+  return {
+    payload,
+    signatures: [
+      {
+        protected: protectedHeader,
+        signature: uint8ArrayToBase64Url(base64ToUint8Array(signature)),
+      },
+    ],
+  };
+}
+
+/**
+ * Reads back an envelope from the output of {@link toJWE}. Nothing is
+ * verified here; unseal the result as usual, supplying the JWE's associated
+ * data if it has any.
+ *
+ * @param jws - A signed JWE produced by {@link toJWE}
+ * @returns The envelope
+ * @throws If the JWS or JWE is malformed or was not produced by this library
+ */
+export function fromJWE(jws: JWSGeneralJSON): KeySealedEnvelope {
+  if (!Array.isArray(jws.signatures) || jws.signatures.length !== 1) {
+    throw new Error("Expected exactly one JWS signature");
+  }
+  const [jwsSignature] = jws.signatures as [JWSGeneralJSON["signatures"][0]];
+  if (!isObject(jwsSignature)) {
+    throw new Error("Malformed JWE");
+  }
+  const jwsHeader = decodeJSON(jwsSignature.protected);
+  const jwe = decodeJSON(jws.payload) as Partial<JWEGeneralJSON>;
+  if (
+    typeof jwe.protected !== "string" ||
+    !Array.isArray(jwe.recipients) ||
+    jwe.recipients.length === 0 ||
+    !jwe.recipients.every(
+      (recipient: unknown) =>
+        isObject(recipient) &&
+        isObject(recipient.header) &&
+        typeof recipient.header.kid === "string" &&
+        typeof recipient.encrypted_key === "string"
+    ) ||
+    typeof jwe.iv !== "string" ||
+    typeof jwe.ciphertext !== "string" ||
+    typeof jwe.tag !== "string" ||
+    !isObject(jwe.unprotected) ||
+    typeof jwe.unprotected.ctx !== "string"
+  ) {
+    throw new Error("Malformed JWE");
+  }
+
+  const protectedHeader = decodeJSON(jwe.protected);
+  const kse = protectedHeader.kse as
+    | Omit<KeySealedEnvelope, "kw" | "enc" | "cek" | "payload" | "ctx">
+    | undefined;
+  if (typeof kse !== "object" || kse === null) {
+    throw new Error("JWE was not produced by key-sealed-envelope");
+  }
+  if (jwsHeader.alg !== kse.alg || jwsHeader.kid !== kse.kid) {
+    throw new Error("JWS header does not match the JWE");
+  }
+
+  const kw = jwe.recipients[0]!.header?.alg as KeyWrapAlgorithm;
+  if (!JWE_KEY_WRAP_ALGORITHMS.includes(kw)) {
+    throw new Error(`Unsupported key wrapping algorithm: ${kw}`);
+  }
+
+  const cekEntries: [string, string][] = [];
+  for (const { header, encrypted_key } of jwe.recipients) {
+    if (header.alg !== kw) {
+      throw new Error("Mixed key wrapping algorithms are not supported");
+    }
+    if (cekEntries.some(([kid]) => kid === header.kid)) {
+      throw new Error("Malformed JWE");
+    }
+    if (header.epk !== undefined && !isObject(header.epk)) {
+      throw new Error("Malformed JWE");
+    }
+    const encryptedKey = decodeBase64Url(encrypted_key);
+    cekEntries.push([
+      header.kid,
+      uint8ArrayToBase64(
+        kw === "ECDH-ES+A256KW"
+          ? concat(ephemeralKeyFromJWK(header.epk ?? {}), encryptedKey)
+          : encryptedKey
+      ),
+    ]);
+  }
+  // A kid such as __proto__ must become an entry, not the prototype
+  const cek: Record<string, string> = Object.fromEntries(cekEntries);
+
+  if (protectedHeader.zip !== undefined && protectedHeader.zip !== "DEF") {
+    throw new Error(
+      `Unsupported JWE compression: ${String(protectedHeader.zip)}`
+    );
+  }
+
+  const envelope: KeySealedEnvelope = {
+    v: kse.v,
+    alg: kse.alg,
+    kw,
+    enc: protectedHeader.enc as KeySealedEnvelope["enc"],
+    fmt: "jwe",
+    ...(protectedHeader.zip === "DEF" && { zip: "deflate" }),
+    kid: kse.kid,
+    cek,
+    payload: uint8ArrayToBase64(
+      concat(
+        decodeBase64Url(jwe.iv),
+        decodeBase64Url(jwe.ciphertext),
+        decodeBase64Url(jwe.tag)
+      )
+    ),
+    ctx: uint8ArrayToBase64(decodeBase64Url(jwe.unprotected.ctx)),
+    signature: uint8ArrayToBase64(decodeBase64Url(jwsSignature.signature)),
+  };
+  for (const claim of ["jti", "iat", "nbf", "exp"] as const) {
+    if (kse[claim] !== undefined) {
+      Object.assign(envelope, { [claim]: kse[claim] });
+    }
+  }
+  return envelope;
+}
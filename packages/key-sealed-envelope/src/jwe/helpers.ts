@@ -0,0 +1,191 @@
+import canonicalize from "canonicalize";
+
+import { EC_POINT_LENGTHS } from "../constants.js";
+import {
+  type JWEGeneralJSON,
+  type JWERecipientHeader,
+  type KeySealedEnvelope,
+  type KeyWrapAlgorithm,
+} from "../types/index.js";
+import {
+  base64ToUint8Array,
+  base64UrlToUint8Array,
+  uint8ArrayToBase64Url,
+} from "../utils.js";
+
+/**
+ * Key wrapping algorithms that JOSE libraries can unwrap as-is.
+ */
+export const JWE_KEY_WRAP_ALGORITHMS: readonly KeyWrapAlgorithm[] = [
+  "RSA-OAEP-256",
+  "ECDH-ES+A256KW",
+];
+
+const JWS_CONTENT_TYPE = "jose+json";
+
+const encoder = new TextEncoder();
+
+function encodeJSON(value: unknown): string {
+  return uint8ArrayToBase64Url(encoder.encode(canonicalize(value)));
+}
+
+/**
+ * The JWE protected header for an envelope, base64url-encoded. The KSE
+ * header and claims travel under `kse`, apart from the JOSE parameters.
+ * Deflate compression is JWE's own `"zip": "DEF"`.
+ */
+export function jweProtectedHeader(
+  envelope: Omit<KeySealedEnvelope, "cek" | "payload" | "ctx" | "signature">
+): string {
+  return encodeJSON({
+    enc: envelope.enc,
+    ...(envelope.zip === "deflate" && { zip: "DEF" }),
+    kse: {
+      v: envelope.v,
+      alg: envelope.alg,
+      kid: envelope.kid,
+      jti: envelope.jti,
+      iat: envelope.iat,
+      nbf: envelope.nbf,
+      exp: envelope.exp,
+    },
+  });
+}
+
+/**
+ * The AES-GCM additional data JWE prescribes: the protected header, then the
+ * JWE AAD if there is one (RFC 7516 §5.1, step 14).
+ */
+export function jweAdditionalData(
+  protectedHeader: string,
+  aad: Uint8Array | undefined
+): Uint8Array {
+  return encoder.encode(
+    aad ? `${protectedHeader}.${uint8ArrayToBase64Url(aad)}` : protectedHeader
+  );
+}
+
+// Point lengths identify the curve; EC points are uncompressed (0x04 ‖ x ‖ y)
+function ephemeralKeyToJWK(raw: Uint8Array): JsonWebKey {
+  const curve = Object.keys(EC_POINT_LENGTHS).find(
+    (candidate) => EC_POINT_LENGTHS[candidate] === raw.length
+  );
+  if (!curve) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  if (curve === "X25519") {
+    return { kty: "OKP", crv: curve, x: uint8ArrayToBase64Url(raw) };
+  }
+
+  const coordinateLength = (raw.length - 1) / 2;
+  return {
+    kty: "EC",
+    crv: curve,
+    x: uint8ArrayToBase64Url(raw.subarray(1, 1 + coordinateLength)),
+    y: uint8ArrayToBase64Url(raw.subarray(1 + coordinateLength)),
+  };
+}
+
+/**
+ * Reverses the JWK encoding of an ephemeral public key.
+ *
+ * @throws If the key is not on a supported curve
+ */
+export function ephemeralKeyFromJWK(jwk: JsonWebKey): Uint8Array {
+  const pointLength = jwk.crv ? EC_POINT_LENGTHS[jwk.crv] : undefined;
+  if (!pointLength || !jwk.x) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  if (jwk.kty === "OKP" && jwk.crv === "X25519") {
+    return base64UrlToUint8Array(jwk.x);
+  }
+  if (jwk.kty !== "EC" || !jwk.y) {
+    throw new Error("Unsupported ephemeral key");
+  }
+
+  const x = base64UrlToUint8Array(jwk.x);
+  const y = base64UrlToUint8Array(jwk.y);
+  const raw = new Uint8Array(1 + x.length + y.length);
+  raw[0] = 0x04;
+  raw.set(x, 1);
+  raw.set(y, 1 + x.length);
+  if (raw.length !== pointLength) {
+    throw new Error("Unsupported ephemeral key");
+  }
+  return raw;
+}
+
+/**
+ * Builds the JWE for an envelope sealed with `fmt: "jwe"`. The result is
+ * deterministic, so it can be rebuilt to check the envelope signature.
+ *
+ * @throws If the envelope's key wrapping cannot be expressed in JWE
+ */
+export function buildJWE(
+  envelope: Omit<KeySealedEnvelope, "signature">,
+  aad: Uint8Array | undefined
+): JWEGeneralJSON {
+  if (!JWE_KEY_WRAP_ALGORITHMS.includes(envelope.kw)) {
+    throw new Error(`${envelope.kw} cannot be represented in JWE`);
+  }
+
+  const recipients = Object.entries(envelope.cek).map(([kid, encrypted]) => {
+    const bytes = base64ToUint8Array(encrypted);
+    if (envelope.kw === "RSA-OAEP-256") {
+      const header: JWERecipientHeader = { alg: envelope.kw, kid };
+      return { header, encrypted_key: uint8ArrayToBase64Url(bytes) };
+    }
+
+    // ECDH-ES+A256KW: the ephemeral key, then 40 bytes of AES-KW output
+    const ephemeralKey = bytes.subarray(0, bytes.length - 40);
+    const header: JWERecipientHeader = {
+      alg: envelope.kw,
+      kid,
+      epk: ephemeralKeyToJWK(ephemeralKey),
+      apu: uint8ArrayToBase64Url(ephemeralKey),
+      apv: uint8ArrayToBase64Url(encoder.encode(kid)),
+    };
+    return {
+      header,
+      encrypted_key: uint8ArrayToBase64Url(bytes.subarray(-40)),
+    };
+  });
+
+  const payload = base64ToUint8Array(envelope.payload);
+  const jwe: JWEGeneralJSON = {
+    protected: jweProtectedHeader(envelope),
+    unprotected: {
+      ctx: uint8ArrayToBase64Url(base64ToUint8Array(envelope.ctx)),
+    },
+    recipients,
+    iv: uint8ArrayToBase64Url(payload.subarray(0, 12)),
+    ciphertext: uint8ArrayToBase64Url(payload.subarray(12, -16)),
+    tag: uint8ArrayToBase64Url(payload.subarray(-16)),
+  };
+  if (aad) {
+    jwe.aad = uint8ArrayToBase64Url(aad);
+  }
+  return jwe;
+}
+
+/**
+ * The JWS that signs an envelope sealed with `fmt: "jwe"`: its protected
+ * header and payload, and the signing input over them.
+ */
+export function buildJWS(
+  envelope: Omit<KeySealedEnvelope, "signature">,
+  aad: Uint8Array | undefined
+): { protectedHeader: string; payload: string; signingInput: Uint8Array } {
+  const protectedHeader = encodeJSON({
+    alg: envelope.alg,
+    kid: envelope.kid,
+    cty: JWS_CONTENT_TYPE,
+  });
+  const payload = encodeJSON(buildJWE(envelope, aad));
+
+  return {
+    protectedHeader,
+    payload,
+    signingInput: encoder.encode(`${protectedHeader}.${payload}`),
+  };
+}
@@ -0,0 +1 @@
+export { fromJWE, toJWE } from "./convert.js";
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { concatKDF } from "./kdf.js";
+
+describe("concatKDF", () => {
+  it("matches the RFC 7518 Appendix C test vector", async () => {
+    const z = new Uint8Array([
+      158, 86, 217, 29, 129, 113, 53, 211, 114, 131, 66, 131, 191, 132, 38, 156,
+      251, 49, 110, 163, 218, 128, 106, 72, 246, 218, 167, 121, 140, 254, 144,
+      196,
+    ]);
+
+    const key = await concatKDF(
+      z,
+      128,
+      "A128GCM",
+      new TextEncoder().encode("Alice"),
+      new TextEncoder().encode("Bob")
+    );
+
+    expect(btoa(String.fromCharCode(...key))).toBe("VqqN6vgjbSBcIijNcacQGg==");
+  });
+
+  it("binds the party information", async () => {
+    const z = crypto.getRandomValues(new Uint8Array(32));
+    const encode = (value: string) => new TextEncoder().encode(value);
+
+    const key = await concatKDF(
+      z,
+      256,
+      "ECDH-ES+A256KW",
+      encode("a"),
+      encode("b")
+    );
+    const other = await concatKDF(
+      z,
+      256,
+      "ECDH-ES+A256KW",
+      encode("a"),
+      encode("c")
+    );
+
+    expect(key).toHaveLength(32);
+    expect(key).not.toEqual(other);
+  });
+});
@@ -0,0 +1,165 @@
+import { ECDH_SECRET_LENGTHS } from "./constants.js";
+import {
+  coseKDFContext,
+  coseRecipientProtectedHeader,
+} from "./cose/helpers.js";
+import { concatUint8Arrays } from "./utils.js";
+
+function uint32BE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function lengthPrefixed(data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(4 + data.length);
+  result.set(uint32BE(data.length));
+  result.set(data, 4);
+  return result;
+}
+
+/**
+ * The Concat KDF from NIST SP 800-56A, with SHA-256, as profiled for
+ * ECDH-ES in JWA (RFC 7518 §4.6.2).
+ *
+ * @param z - The shared secret
+ * @param keyBits - Length of the key to derive, in bits
+ * @param algorithmId - Algorithm the derived key is for
+ * @param partyUInfo - Information about the producer (sender)
+ * @param partyVInfo - Information about the consumer (recipient)
+ * @returns The derived key bytes
+ */
+export async function concatKDF(
+  z: Uint8Array,
+  keyBits: number,
+  algorithmId: string,
+  partyUInfo: Uint8Array,
+  partyVInfo: Uint8Array
+): Promise<Uint8Array> {
+  const otherInfo = [
+    lengthPrefixed(new TextEncoder().encode(algorithmId)),
+    lengthPrefixed(partyUInfo),
+    lengthPrefixed(partyVInfo),
+    uint32BE(keyBits),
+  ];
+
+  const keyLength = Math.ceil(keyBits / 8);
+  const output = new Uint8Array(Math.ceil(keyLength / 32) * 32);
+  for (let round = 1; round * 32 <= output.length; round++) {
+    const input = concatUint8Arrays(uint32BE(round), z, ...otherInfo);
+    const digest = await crypto.subtle.digest("SHA-256", input);
+    output.set(new Uint8Array(digest), (round - 1) * 32);
+  }
+
+  return output.subarray(0, keyLength);
+}
+
+/**
+ * Computes the raw ECDH (or X25519) shared secret between two keys.
+ *
+ * Goes through `deriveKey` rather than `deriveBits`, so that private keys
+ * imported with only the `deriveKey` usage keep working.
+ */
+export async function ecdhSharedSecret(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey
+): Promise<Uint8Array> {
+  const curve =
+    (privateKey.algorithm as Partial<EcKeyAlgorithm>).namedCurve ??
+    privateKey.algorithm.name;
+  const secretLength = ECDH_SECRET_LENGTHS[curve];
+  if (!secretLength) {
+    throw new Error(`Unsupported curve: ${curve}`);
+  }
+
+  const secret = await crypto.subtle.deriveKey(
+    {
+      name: privateKey.algorithm.name,
+      public: publicKey,
+    },
+    privateKey,
+    {
+      name: "HMAC",
+      hash: "SHA-256",
+      length: secretLength * 8,
+    },
+    true,
+    ["sign"]
+  );
+
+  return new Uint8Array(await crypto.subtle.exportKey("raw", secret));
+}
+
+/**
+ * Derives the AES-KW key that wraps a recipient's CEK under
+ * `ECDH-ES+A256KW`. The derivation is bound to the ephemeral public key
+ * (PartyUInfo) and the recipient's key ID (PartyVInfo).
+ *
+ * @param privateKey - The ephemeral private key when sealing, or the
+ *   recipient's private key when unsealing
+ * @param publicKey - The recipient's public key when sealing, or the
+ *   ephemeral public key when unsealing
+ * @param ephemeralPublicKey - Encoded ephemeral public key
+ * @param recipientKid - Key ID the CEK is wrapped for
+ * @param usage - Whether the key will wrap or unwrap
+ */
+export async function deriveECDHESWrappingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  recipientKid: string,
+  usage: "wrapKey" | "unwrapKey"
+): Promise<CryptoKey> {
+  const z = await ecdhSharedSecret(privateKey, publicKey);
+  const keyBytes = await concatKDF(
+    z,
+    256,
+    "ECDH-ES+A256KW",
+    ephemeralPublicKey,
+    new TextEncoder().encode(recipientKid)
+  );
+
+  return await crypto.subtle.importKey("raw", keyBytes, "AES-KW", false, [
+    usage,
+  ]);
+}
+
+/**
+ * Derives the AES-KW key that wraps a recipient's CEK under
+ * `ECDH-ES+HKDF-256+A256KW`: HKDF-SHA-256 over the ECDH shared secret, with
+ * no salt, and the COSE_KDF_Context as info. The context covers the
+ * recipient's protected header, which names its key ID.
+ *
+ * @param privateKey - The ephemeral private key when sealing, or the
+ *   recipient's private key when unsealing
+ * @param publicKey - The recipient's public key when sealing, or the
+ *   ephemeral public key when unsealing
+ * @param recipientKid - Key ID the CEK is wrapped for
+ * @param usage - Whether the key will wrap or unwrap
+ */
+export async function deriveCOSEWrappingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  recipientKid: string,
+  usage: "wrapKey" | "unwrapKey"
+): Promise<CryptoKey> {
+  const z = await ecdhSharedSecret(privateKey, publicKey);
+  const hkdfKey = await crypto.subtle.importKey("raw", z, "HKDF", false, [
+    "deriveKey",
+  ]);
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: coseKDFContext(
+        coseRecipientProtectedHeader("ECDH-ES+HKDF-256+A256KW", recipientKid)
+      ),
+    },
+    hkdfKey,
+    { name: "AES-KW", length: 256 },
+    false,
+    [usage]
+  );
+}
@@ -0,0 +1 @@
+export { SigningKeyRing } from "./signing-key-ring.js";
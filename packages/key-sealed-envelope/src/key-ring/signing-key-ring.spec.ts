@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import { ECSealer } from "../sealer/ec-sealer.js";
+import {
+  type ECPrivateNamedJWK,
+  type ECPublicNamedJWK,
+} from "../types/index.js";
+import { EnvelopeVerifier } from "../verifier/envelope-verifier.js";
+
+import { SigningKeyRing } from "./signing-key-ring.js";
+
+async function generateJWKs(
+  usage: "sign" | "deriveKey",
+  kid: string,
+  namedCurve = "P-256"
+) {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: usage === "sign" ? "ECDSA" : "ECDH", namedCurve },
+    true,
+    usage === "sign" ? ["sign", "verify"] : ["deriveKey"]
+  );
+  return {
+    privateJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid,
+    } as ECPrivateNamedJWK,
+    publicJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid,
+    } as ECPublicNamedJWK,
+  };
+}
+
+const current = await generateJWKs("sign", "2026-01");
+const next = await generateJWKs("sign", "2026-07");
+const recipient = await generateJWKs("deriveKey", "recipient");
+
+const rotation = new Date("2026-07-01T00:00:00Z");
+const expiry = new Date("2026-08-01T00:00:00Z");
+
+// A clock the tests can move forward
+function fakeClock(start: Date) {
+  let now = start;
+  return {
+    clock: () => now,
+    advanceTo: (date: Date) => {
+      now = date;
+    },
+  };
+}
+
+async function createRing(start: Date) {
+  const time = fakeClock(start);
+  const ring = await SigningKeyRing.create(
+    [
+      { jwk: current.privateJWK, expireAt: expiry },
+      { jwk: next.privateJWK, state: "pending", activateAt: rotation },
+    ],
+    { clock: time.clock }
+  );
+  return { ring, ...time };
+}
+
+describe("SigningKeyRing", () => {
+  it("moves keys through their states as time passes", async () => {
+    const { ring, advanceTo } = await createRing(new Date("2026-06-01"));
+
+    expect(ring.stateOf("2026-01")).toBe("active");
+    expect(ring.stateOf("2026-07")).toBe("pending");
+    expect(ring.activeKey().kid).toBe("2026-01");
+
+    advanceTo(rotation);
+    expect(ring.stateOf("2026-01")).toBe("retiring");
+    expect(ring.stateOf("2026-07")).toBe("active");
+    expect(ring.activeKey().kid).toBe("2026-07");
+
+    advanceTo(expiry);
+    expect(ring.stateOf("2026-01")).toBe("retired");
+    expect(ring.stateOf("2026-07")).toBe("active");
+  });
+
+  it("lets sealers sign with the newly active key without rebuilding them", async () => {
+    const { ring, advanceTo } = await createRing(new Date("2026-06-01"));
+    const sealer = await ECSealer.create(ring, [recipient.publicJWK]);
+    const verifier = await EnvelopeVerifier.create(ring.publicKeys());
+
+    const before = await sealer.seal("hello", ["recipient"]);
+    advanceTo(rotation);
+    const after = await sealer.seal("hello", ["recipient"]);
+
+    expect(before.kid).toBe("2026-01");
+    expect(after.kid).toBe("2026-07");
+    // Published before the rotation, the keys cover both envelopes
+    expect((await verifier.verify(before)).kid).toBe("2026-01");
+    expect((await verifier.verify(after)).kid).toBe("2026-07");
+  });
+
+  it("publishes public keys for every key that is not retired", async () => {
+    const { ring, advanceTo } = await createRing(new Date("2026-06-01"));
+
+    expect(ring.publicKeys()).toEqual({
+      keys: [current.publicJWK, next.publicJWK].map(
+        ({ key_ops: _, ...jwk }) => jwk
+      ),
+    });
+    for (const jwk of ring.publicKeys().keys) {
+      expect(jwk).not.toHaveProperty("d");
+    }
+
+    advanceTo(expiry);
+    expect(ring.publicKeys().keys.map(({ kid }) => kid)).toEqual(["2026-07"]);
+  });
+
+  it("retires keys on demand", async () => {
+    const { ring } = await createRing(new Date("2026-06-01"));
+    await ring.add({ jwk: (await generateJWKs("sign", "spare")).privateJWK });
+    const sealer = await ECSealer.create(ring, [recipient.publicJWK]);
+
+    // With two keys active, the one added without a schedule first signs
+    expect(ring.activeKey().kid).toBe("2026-01");
+    expect(ring.stateOf("spare")).toBe("retiring");
+
+    ring.setState("2026-01", "retired");
+    expect(ring.stateOf("2026-01")).toBe("retired");
+    expect((await sealer.seal("hello", ["recipient"])).kid).toBe("spare");
+
+    ring.setState("spare", "retired");
+    await expect(sealer.seal("hello", ["recipient"])).rejects.toThrow(
+      "No active signing key"
+    );
+  });
+
+  it("rejects invalid keys and schedules", async () => {
+    const { ring } = await createRing(new Date("2026-06-01"));
+
+    await expect(ring.add({ jwk: current.privateJWK })).rejects.toThrow(
+      "Duplicate signing key: 2026-01"
+    );
+    await expect(
+      ring.add({
+        jwk: (await generateJWKs("sign", "late")).privateJWK,
+        activateAt: expiry,
+        expireAt: rotation,
+      })
+    ).rejects.toThrow("Signing key late expires before it activates");
+    await expect(
+      ring.add({ jwk: { kty: "oct", kid: "secret" } as never })
+    ).rejects.toThrow("Unsupported key type");
+    expect(() => ring.setState("missing", "retired")).toThrow(
+      "Unknown signing key: missing"
+    );
+    expect(() => ring.stateOf("missing")).toThrow(
+      "Unknown signing key: missing"
+    );
+  });
+
+  it("checks the active key's curve against the recipients' when sealing", async () => {
+    const p384 = await generateJWKs("sign", "p384", "P-384");
+    const ring = await SigningKeyRing.create([{ jwk: p384.privateJWK }]);
+    const sealer = await ECSealer.create(ring, [recipient.publicJWK]);
+
+    await expect(sealer.seal("hello", ["recipient"])).rejects.toThrow(
+      "All keys must use the same curve"
+    );
+  });
+});
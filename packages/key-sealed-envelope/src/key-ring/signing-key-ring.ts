@@ -0,0 +1,209 @@
+import { signingKeyAlgorithm, toPublicJWK } from "../keys.js";
+import {
+  type PrivateNamedJWK,
+  type PublicNamedJWKFor,
+  type SigningKeyRingEntry,
+  type SigningKeyRingOptions,
+  type SigningKeyState,
+} from "../types/index.js";
+
+type RingKey<JWK extends PrivateNamedJWK> = {
+  jwk: JWK;
+  privateKey: CryptoKey;
+  state: SigningKeyState;
+  activateAt?: Date;
+  expireAt?: Date;
+};
+
+// The state a key is in by its own settings alone, before the ring picks
+// one active key
+function scheduledState(
+  key: RingKey<PrivateNamedJWK>,
+  now: Date
+): SigningKeyState {
+  if (key.state === "retired" || (key.expireAt && now >= key.expireAt)) {
+    return "retired";
+  }
+  if (key.state === "retiring") {
+    return "retiring";
+  }
+  if (key.activateAt ? now < key.activateAt : key.state === "pending") {
+    return "pending";
+  }
+  return "active";
+}
+
+/**
+ * Holds a sender's signing keys through their lifecycle, so that keys can
+ * be rotated without rebuilding sealers. Sealers created with a ring sign
+ * with whichever key is active when they seal, and the ring publishes the
+ * public keys verifiers should trust.
+ *
+ * Keys move between states as their `activateAt` and `expireAt` times pass,
+ * or when {@link setState} moves them. If several keys are active by their
+ * own settings, the one activated last signs and the others count as
+ * retiring.
+ *
+ * @example
+ * const ring = await SigningKeyRing.create([
+ *   { jwk: currentPrivateJWK },
+ *   { jwk: nextPrivateJWK, state: "pending", activateAt: rotationTime },
+ * ]);
+ * const sealer = await ECSealer.create(ring, recipientJWKS);
+ * publishJWKS(ring.publicKeys());
+ */
+export class SigningKeyRing<JWK extends PrivateNamedJWK = PrivateNamedJWK> {
+  private readonly keys: Map<string, RingKey<JWK>>;
+  private readonly clock: () => Date;
+
+  private constructor(keys: Map<string, RingKey<JWK>>, clock: () => Date) {
+    this.keys = keys;
+    this.clock = clock;
+  }
+
+  /**
+   * Creates a new SigningKeyRing instance.
+   * @param entries - Your RSA, EC or Ed25519 private keys for signing, with
+   *   their states and schedules
+   * @param options - Ring policy, such as the clock
+   * @returns New SigningKeyRing instance
+   * @throws If a key type is not supported, a key ID repeats, or a key
+   *   expires before it activates
+   */
+  static async create<JWK extends PrivateNamedJWK>(
+    entries: SigningKeyRingEntry<JWK>[],
+    options: SigningKeyRingOptions = {}
+  ): Promise<SigningKeyRing<JWK>> {
+    const ring = new SigningKeyRing<JWK>(
+      new Map(),
+      options.clock ?? (() => new Date())
+    );
+    for (const entry of entries) {
+      await ring.add(entry);
+    }
+    return ring;
+  }
+
+  /**
+   * Adds a key to the ring, e.g. a pending successor to the active key.
+   *
+   * @param entry - The private key, with its state and schedule
+   * @throws If the key type is not supported, the ring already has a key
+   *   with its ID, or it expires before it activates
+   */
+  async add(entry: SigningKeyRingEntry<JWK>): Promise<void> {
+    const { jwk, activateAt, expireAt } = entry;
+    if (this.keys.has(jwk.kid)) {
+      throw new Error(`Duplicate signing key: ${jwk.kid}`);
+    }
+    if (activateAt && expireAt && expireAt <= activateAt) {
+      throw new Error(`Signing key ${jwk.kid} expires before it activates`);
+    }
+
+    const privateKey = await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      signingKeyAlgorithm(jwk),
+      true,
+      ["sign"]
+    );
+
+    this.keys.set(jwk.kid, {
+      jwk,
+      privateKey,
+      state: entry.state ?? "active",
+      ...(activateAt && { activateAt }),
+      ...(expireAt && { expireAt }),
+    });
+  }
+
+  /**
+   * Moves a key to another state, e.g. to retire a compromised key at once.
+   * Its `activateAt` and `expireAt` times still apply.
+   *
+   * @param kid - Key ID of the key to move
+   * @param state - The key's new state
+   * @throws If the ring has no key with that ID
+   */
+  setState(kid: string, state: SigningKeyState): void {
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new Error(`Unknown signing key: ${kid}`);
+    }
+    key.state = state;
+  }
+
+  /**
+   * Gives the current state of a key.
+   *
+   * @param kid - Key ID of the key
+   * @returns The key's state at this moment
+   * @throws If the ring has no key with that ID
+   */
+  stateOf(kid: string): SigningKeyState {
+    const state = this.states().get(kid);
+    if (!state) {
+      throw new Error(`Unknown signing key: ${kid}`);
+    }
+    return state;
+  }
+
+  /**
+   * Gives the key to sign with at this moment.
+   *
+   * @returns The active key and its key ID
+   * @throws If no key is active
+   */
+  activeKey(): { kid: string; privateKey: CryptoKey } {
+    for (const [kid, state] of this.states()) {
+      if (state === "active") {
+        return { kid, privateKey: this.keys.get(kid)!.privateKey };
+      }
+    }
+    throw new Error("No active signing key");
+  }
+
+  /**
+   * Lists the public keys verifiers should trust at this moment: every key
+   * that is not retired. Pending keys are included, so that verifiers can
+   * trust them before they start signing, and retiring ones, so that what
+   * they signed keeps verifying.
+   *
+   * @returns The trusted public keys as a JWKS
+   */
+  publicKeys(): { keys: PublicNamedJWKFor<JWK>[] } {
+    const keys: PublicNamedJWKFor<JWK>[] = [];
+    for (const [kid, state] of this.states()) {
+      if (state !== "retired") {
+        keys.push(toPublicJWK(this.keys.get(kid)!.jwk));
+      }
+    }
+    return { keys };
+  }
+
+  private states(): Map<string, SigningKeyState> {
+    const now = this.clock();
+    const states = new Map<string, SigningKeyState>();
+    let active: RingKey<JWK> | undefined;
+    for (const [kid, key] of this.keys) {
+      const state = scheduledState(key, now);
+      states.set(kid, state);
+      // The key activated last signs; keys with no activation time count
+      // as activated first
+      if (
+        state === "active" &&
+        (!active ||
+          (key.activateAt?.getTime() ?? -Infinity) >
+            (active.activateAt?.getTime() ?? -Infinity))
+      ) {
+        active = key;
+      }
+    }
+    for (const [kid, state] of states) {
+      if (state === "active" && kid !== active?.jwk.kid) {
+        states.set(kid, "retiring");
+      }
+    }
+    return states;
+  }
+}
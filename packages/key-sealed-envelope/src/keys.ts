@@ -0,0 +1,145 @@
+import {
+  type BaseNamedJWK,
+  type PrivateNamedJWK,
+  type PublicNamedJWK,
+  type PublicNamedJWKFor,
+  type PublicNamedJWKS,
+} from "./types/index.js";
+
+// Private key members of RSA, EC and OKP JWKs (RFC 7518 section 6)
+const PRIVATE_JWK_MEMBERS = new Set(["d", "p", "q", "dp", "dq", "qi", "oth"]);
+
+/**
+ * WebCrypto import parameters for a signing or verification key of any
+ * supported type: RSA-PSS, ECDSA or Ed25519.
+ *
+ * @throws If the key type is not supported for signing
+ */
+export function signingKeyAlgorithm(
+  jwk: BaseNamedJWK & { crv?: string }
+): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  if (jwk.kty === "RSA") {
+    return { name: "RSA-PSS", hash: "SHA-256" };
+  }
+  if (jwk.kty === "EC" && jwk.crv !== undefined) {
+    return { name: "ECDSA", namedCurve: jwk.crv };
+  }
+  if (jwk.kty === "OKP" && jwk.crv === "Ed25519") {
+    return { name: "Ed25519" };
+  }
+  throw new Error("Unsupported key type");
+}
+
+/**
+ * Imports senders' public keys for verifying signatures, of any supported
+ * type, as a map of their key IDs to the imported keys.
+ *
+ * @throws If a key type is not supported for signing
+ */
+export async function importVerificationKeys(
+  jwks: PublicNamedJWK[] | PublicNamedJWKS
+): Promise<Record<string, CryptoKey>> {
+  const keys = Array.isArray(jwks) ? jwks : jwks.keys;
+  return Object.fromEntries(
+    await Promise.all(
+      keys.map(async (jwk) => [
+        jwk.kid,
+        await crypto.subtle.importKey(
+          "jwk",
+          jwk,
+          signingKeyAlgorithm(jwk),
+          true,
+          ["verify"]
+        ),
+      ])
+    )
+  );
+}
+
+/**
+ * Imports a recipient's public key for wrapping CEKs, of any supported type:
+ * RSA-OAEP, ECDH or X25519.
+ *
+ * @throws If the key type is not supported for encryption
+ */
+export async function importEncryptionKey(
+  jwk: BaseNamedJWK & { crv?: string }
+): Promise<CryptoKey> {
+  if (jwk.kty === "RSA") {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "RSA-OAEP", hash: "SHA-256" },
+      true,
+      ["encrypt"]
+    );
+  }
+  if (jwk.kty === "EC" && jwk.crv !== undefined) {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "ECDH", namedCurve: jwk.crv },
+      true,
+      []
+    );
+  }
+  if (jwk.kty === "OKP" && jwk.crv === "X25519") {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "X25519" },
+      true,
+      []
+    );
+  }
+  throw new Error("Unsupported key type");
+}
+
+/**
+ * Imports a recipient's private key for unwrapping CEKs, of any supported
+ * type: RSA-OAEP, ECDH or X25519.
+ *
+ * @throws If the key type is not supported for decryption
+ */
+export async function importDecryptionKey(
+  jwk: BaseNamedJWK & { crv?: string }
+): Promise<CryptoKey> {
+  if (jwk.kty === "RSA") {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "RSA-OAEP", hash: "SHA-256" },
+      true,
+      ["decrypt"]
+    );
+  }
+  if (jwk.kty === "EC" && jwk.crv !== undefined) {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "ECDH", namedCurve: jwk.crv },
+      true,
+      ["deriveKey"]
+    );
+  }
+  if (jwk.kty === "OKP" && jwk.crv === "X25519") {
+    return await crypto.subtle.importKey("jwk", jwk, { name: "X25519" }, true, [
+      "deriveKey",
+    ]);
+  }
+  throw new Error("Unsupported key type");
+}
+
+/**
+ * Derives the public JWK of a private one. Key operations are left out, as
+ * those of a private key do not apply to its public key.
+ */
+export function toPublicJWK<JWK extends PrivateNamedJWK>(
+  jwk: JWK
+): PublicNamedJWKFor<JWK> {
+  return Object.fromEntries(
+    Object.entries(jwk).filter(
+      ([member]) => !PRIVATE_JWK_MEMBERS.has(member) && member !== "key_ops"
+    )
+  ) as PublicNamedJWKFor<JWK>;
+}
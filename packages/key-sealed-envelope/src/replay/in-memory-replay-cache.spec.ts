@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { InMemoryReplayCache } from "./in-memory-replay-cache.js";
+
+describe("InMemoryReplayCache", () => {
+  it("reports a new ID once", async () => {
+    const cache = new InMemoryReplayCache();
+
+    expect(await cache.checkAndSet("a")).toBe(true);
+    expect(await cache.checkAndSet("a")).toBe(false);
+    expect(await cache.checkAndSet("b")).toBe(true);
+  });
+
+  it("forgets an ID once it expires", async () => {
+    let now = new Date("2026-01-01T00:00:00Z");
+    const cache = new InMemoryReplayCache({ clock: () => now });
+
+    await cache.checkAndSet("a", new Date("2026-01-01T00:01:00Z"));
+    now = new Date("2026-01-01T00:00:59Z");
+    expect(await cache.checkAndSet("a")).toBe(false);
+
+    now = new Date("2026-01-01T00:01:00Z");
+    expect(await cache.checkAndSet("a")).toBe(true);
+  });
+
+  it("falls back to the TTL for IDs with no expiry", async () => {
+    let now = new Date("2026-01-01T00:00:00Z");
+    const cache = new InMemoryReplayCache({ ttl: 10, clock: () => now });
+
+    await cache.checkAndSet("a");
+    now = new Date("2026-01-01T00:00:09Z");
+    expect(await cache.checkAndSet("a")).toBe(false);
+
+    now = new Date("2026-01-01T00:00:10Z");
+    expect(await cache.checkAndSet("a")).toBe(true);
+  });
+
+  it("evicts the least recently seen ID when full", async () => {
+    const cache = new InMemoryReplayCache({ maxEntries: 2 });
+
+    await cache.checkAndSet("a");
+    await cache.checkAndSet("b");
+    await cache.checkAndSet("a");
+    await cache.checkAndSet("c");
+
+    expect(cache.size).toBe(2);
+    expect(await cache.checkAndSet("a")).toBe(false);
+    expect(await cache.checkAndSet("b")).toBe(true);
+  });
+});
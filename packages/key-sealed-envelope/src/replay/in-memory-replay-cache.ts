@@ -0,0 +1,67 @@
+import { type ReplayCache } from "../types/index.js";
+
+/**
+ * Options for an in-memory replay cache.
+ *
+ * @property maxEntries - Most IDs to remember; the least recently seen are
+ *   dropped first. Defaults to 10,000.
+ * @property ttl - Seconds to remember an ID whose envelope has no expiry.
+ *   Defaults to one hour.
+ * @property clock - Source of the current time; defaults to the system clock
+ */
+export type InMemoryReplayCacheOptions = {
+  maxEntries?: number;
+  ttl?: number;
+  clock?: () => Date;
+};
+
+/**
+ * A single-process replay cache with LRU eviction and per-entry expiry.
+ *
+ * An ID that is evicted before its envelope expires can be replayed, so size
+ * `maxEntries` for the traffic expected within an envelope's lifetime, and
+ * seal envelopes with an `exp` so that IDs need not be kept for the full
+ * `ttl`.
+ */
+export class InMemoryReplayCache implements ReplayCache {
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+  private readonly clock: () => Date;
+  // Map iteration follows insertion order, so the first key is the least
+  // recently seen. Values are expiry times in epoch milliseconds.
+  private readonly entries = new Map<string, number>();
+
+  constructor(options: InMemoryReplayCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.ttl = options.ttl ?? 3600;
+    this.clock = options.clock ?? (() => new Date());
+
+    if (!Number.isSafeInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error("maxEntries must be a positive integer");
+    }
+    if (!(this.ttl > 0)) {
+      throw new Error("ttl must be positive");
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async checkAndSet(jti: string, expiresAt?: Date): Promise<boolean> {
+    const now = this.clock().getTime();
+    const existing = this.entries.get(jti);
+    this.entries.delete(jti);
+
+    if (existing !== undefined && existing > now) {
+      this.entries.set(jti, existing);
+      return false;
+    }
+
+    this.entries.set(jti, expiresAt?.getTime() ?? now + this.ttl * 1000);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return true;
+  }
+}
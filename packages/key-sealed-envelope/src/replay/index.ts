@@ -0,0 +1 @@
+export * from "./in-memory-replay-cache.js";
@@ -0,0 +1,337 @@
+import { describe, expect, it } from "vitest";
+
+import { EnvelopeCountersigner } from "../countersigner/envelope-countersigner.js";
+import {
+  type ECPrivateNamedJWK,
+  type EnvelopeProvenance,
+  type ECPublicNamedJWK,
+  type RSAPrivateNamedJWK,
+  type RSAPublicNamedJWK,
+} from "../types/index.js";
+import { ECUnsealer } from "../unsealer/ec-unsealer.js";
+import { RSAUnsealer } from "../unsealer/rsa-unsealer.js";
+import { EnvelopeVerifier } from "../verifier/envelope-verifier.js";
+
+import { ECSealer } from "./ec-sealer.js";
+
+async function generateJWKs(usage: "sign" | "deriveKey", kid: string) {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: usage === "sign" ? "ECDSA" : "ECDH", namedCurve: "P-256" },
+    true,
+    usage === "sign" ? ["sign", "verify"] : ["deriveKey"]
+  );
+  return {
+    privateJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid,
+    } as ECPrivateNamedJWK,
+    publicJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid,
+    } as ECPublicNamedJWK,
+  };
+}
+
+const sender = await generateJWKs("sign", "service");
+const operatorSigner = await generateJWKs("sign", "operator");
+const archive = await generateJWKs("deriveKey", "archive");
+const worker = await generateJWKs("deriveKey", "worker");
+const auditor = await generateJWKs("deriveKey", "auditor");
+
+const sealer = await ECSealer.create(sender.privateJWK, [
+  archive.publicJWK,
+  worker.publicJWK,
+]);
+// The operator holds the archive key and knows the auditor's public key
+const operator = await ECSealer.create(operatorSigner.privateJWK, [
+  auditor.publicJWK,
+  worker.publicJWK,
+]);
+
+const senderKeys = [sender.publicJWK, operatorSigner.publicJWK];
+
+describe("addRecipients", () => {
+  it("lets new recipients unseal without re-encrypting the payload", async () => {
+    const envelope = await sealer.seal("hello", ["archive"], {
+      exp: new Date(Date.now() + 60_000),
+    });
+
+    const extended = await operator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    });
+
+    expect(extended).toMatchObject({
+      alg: "ES256",
+      kid: "operator",
+      jti: envelope.jti,
+      exp: envelope.exp,
+      payload: envelope.payload,
+      ctx: envelope.ctx,
+    });
+    expect(Object.keys(extended.cek)).toEqual(["archive", "auditor"]);
+    expect(extended.cek.archive).toBe(envelope.cek.archive);
+
+    const auditorUnsealer = await ECUnsealer.create(
+      auditor.privateJWK,
+      senderKeys
+    );
+    const archiveUnsealer = await ECUnsealer.create(
+      archive.privateJWK,
+      senderKeys
+    );
+    expect(
+      new TextDecoder().decode(await auditorUnsealer.unseal(extended))
+    ).toBe("hello");
+    expect(
+      new TextDecoder().decode(await archiveUnsealer.unseal(extended))
+    ).toBe("hello");
+  });
+
+  it("is signed by the operator, not the original sender", async () => {
+    const envelope = await sealer.seal("hello", ["archive"]);
+
+    const extended = await operator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    });
+
+    const unsealer = await ECUnsealer.create(auditor.privateJWK, [
+      sender.publicJWK,
+    ]);
+    await expect(unsealer.unseal(extended)).rejects.toThrow(
+      "Unknown sender key"
+    );
+  });
+
+  it("records the original sender as provenance", async () => {
+    const envelope = await sealer.seal("hello", ["archive"]);
+
+    const extended = await operator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    });
+
+    const expected: EnvelopeProvenance = {
+      kid: "service",
+      alg: "ES256",
+      signature: envelope.signature,
+      jti: envelope.jti!,
+    };
+    expect(extended.prov).toEqual(expected);
+    const verifier = await EnvelopeVerifier.create(senderKeys);
+    expect(await verifier.verify(extended)).toMatchObject({
+      kid: "operator",
+      prov: expected,
+    });
+    // The operator's signature covers the record
+    await expect(
+      verifier.verify({ ...extended, prov: { ...expected, kid: "operator" } })
+    ).rejects.toThrow("Invalid envelope signature");
+  });
+
+  it("rejects envelopes that do not verify against the senders' keys", async () => {
+    // Anyone with the archive's public key can seal an envelope for it
+    const forger = await generateJWKs("sign", "service");
+    const forgerSealer = await ECSealer.create(forger.privateJWK, [
+      archive.publicJWK,
+    ]);
+    const stranger = await ECSealer.create(
+      (await generateJWKs("sign", "stranger")).privateJWK,
+      [archive.publicJWK]
+    );
+    const options = {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    };
+
+    await expect(
+      operator.addRecipients(
+        await forgerSealer.seal("forged", ["archive"]),
+        options
+      )
+    ).rejects.toThrow("Invalid envelope signature");
+    await expect(
+      operator.addRecipients(await stranger.seal("hello", ["archive"]), options)
+    ).rejects.toThrow("Unknown sender key");
+    await expect(
+      operator.addRecipients(
+        await sealer.seal("hello", ["archive"], {
+          exp: new Date(Date.now() - 60_000),
+        }),
+        options
+      )
+    ).rejects.toThrow("Envelope has expired");
+  });
+
+  it("adds anonymous recipients under random labels", async () => {
+    const envelope = await sealer.seal("hello", ["archive", "worker"], {
+      anonymousRecipients: true,
+    });
+
+    const extended = await operator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    });
+
+    expect(extended.anon).toBe(true);
+    expect(Object.keys(extended.cek)).toHaveLength(3);
+    expect(Object.keys(extended.cek)).not.toContain("auditor");
+    const unsealer = await ECUnsealer.create(auditor.privateJWK, senderKeys);
+    expect(new TextDecoder().decode(await unsealer.unseal(extended))).toBe(
+      "hello"
+    );
+  });
+
+  it("needs the associated data the envelope was sealed with", async () => {
+    const envelope = await sealer.seal("hello", ["archive"], {
+      aad: "tenant-1",
+    });
+
+    await expect(
+      operator.addRecipients(envelope, {
+        senderKeys: [sender.publicJWK],
+        ownPrivateKey: archive.privateJWK,
+        newRecipientKids: ["auditor"],
+      })
+    ).rejects.toThrow("Invalid envelope signature");
+
+    const extended = await operator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+      aad: "tenant-1",
+    });
+    const unsealer = await ECUnsealer.create(auditor.privateJWK, senderKeys);
+    expect(
+      new TextDecoder().decode(
+        await unsealer.unseal(extended, { aad: "tenant-1" })
+      )
+    ).toBe("hello");
+  });
+
+  it("adds recipients with RSA keys to an EC envelope", async () => {
+    const keyPair = await crypto.subtle.generateKey(
+      {
+        name: "RSA-OAEP",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      true,
+      ["encrypt", "decrypt"]
+    );
+    const legacy = {
+      privateJWK: {
+        ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+        kid: "legacy",
+      } as RSAPrivateNamedJWK,
+      publicJWK: {
+        ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+        kid: "legacy",
+      } as RSAPublicNamedJWK,
+    };
+    const migrator = await ECSealer.create(operatorSigner.privateJWK, [
+      legacy.publicJWK,
+    ]);
+    const envelope = await sealer.seal("hello", ["archive"]);
+
+    const extended = await migrator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["legacy"],
+    });
+
+    expect(extended).toMatchObject({
+      kw: "ECDH-ES+A256KW",
+      kws: { archive: "ECDH-ES+A256KW", legacy: "RSA-OAEP-256" },
+    });
+    const unsealer = await RSAUnsealer.create(legacy.privateJWK, senderKeys);
+    expect(new TextDecoder().decode(await unsealer.unseal(extended))).toBe(
+      "hello"
+    );
+  });
+
+  it("adds recipients whose key IDs name Object.prototype members", async () => {
+    const unusual = await generateJWKs("deriveKey", "constructor");
+    const extender = await ECSealer.create(operatorSigner.privateJWK, [
+      unusual.publicJWK,
+    ]);
+    const envelope = await sealer.seal("hello", ["archive"]);
+
+    const extended = await extender.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["constructor"],
+    });
+
+    expect(Object.keys(extended.cek)).toEqual(["archive", "constructor"]);
+    const unsealer = await ECUnsealer.create(unusual.privateJWK, senderKeys);
+    expect(new TextDecoder().decode(await unsealer.unseal(extended))).toBe(
+      "hello"
+    );
+  });
+
+  it("drops countersignatures, which no longer cover the envelope", async () => {
+    const countersigner = await EnvelopeCountersigner.create(
+      operatorSigner.privateJWK
+    );
+    const envelope = await countersigner.countersign(
+      await sealer.seal("hello", ["archive"])
+    );
+
+    const extended = await operator.addRecipients(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    });
+
+    expect(extended).not.toHaveProperty("signatures");
+  });
+
+  it("rejects envelopes it cannot extend", async () => {
+    const options = {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      newRecipientKids: ["auditor"],
+    };
+
+    await expect(
+      operator.addRecipients(await sealer.seal("hello", ["worker"]), options)
+    ).rejects.toThrow("Not a recipient of this envelope");
+    await expect(
+      operator.addRecipients(
+        await sealer.seal("hello", ["archive", "worker"]),
+        {
+          ...options,
+          newRecipientKids: ["worker"],
+        }
+      )
+    ).rejects.toThrow("Already a recipient: worker");
+    await expect(
+      operator.addRecipients(await sealer.seal("hello", ["archive"]), {
+        ...options,
+        newRecipientKids: ["stranger"],
+      })
+    ).rejects.toThrow("Unknown recipient: stranger");
+    await expect(
+      operator.addRecipients(
+        await sealer.seal("hello", ["archive"], { fmt: "jwe" }),
+        options
+      )
+    ).rejects.toThrow("Adding recipients is not supported with jwe");
+    await expect(
+      operator.addRecipients(
+        await sealer.sealHiddenSender("hello", ["archive"]),
+        options
+      )
+    ).rejects.toThrow(
+      "Envelopes with a hidden sender cannot have recipients added"
+    );
+  });
+});
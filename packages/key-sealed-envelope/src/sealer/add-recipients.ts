@@ -0,0 +1,172 @@
+import { ENVELOPE_VERSION } from "../constants.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type KeyWrapAlgorithm,
+  type UnsealerOptions,
+  type UnsealOptions,
+  type VerifierOptions,
+} from "../types/index.js";
+import {
+  isHiddenSenderEnvelope,
+  recoverCEK,
+  signedEnvelopeContents,
+} from "../unsealer/helpers.js";
+import { normalizeAAD } from "../utils.js";
+import { verifyCore } from "../verifier/core.js";
+
+import {
+  checkRecipients,
+  encryptCEKs,
+  keyWrapAlgorithmsFor,
+  signatureAlgorithmFor,
+  signEnvelope,
+} from "./helpers.js";
+
+/**
+ * Low-level function to add recipients to a sealed envelope without
+ * re-encrypting its payload. The payload and CTX tag are kept as they are,
+ * so the new recipients recover the same CEK and decrypt the same content.
+ *
+ * The process:
+ * 1. Verify the envelope with `verifyCore` against the senders' public
+ *    keys, so that only envelopes from a trusted sender are re-signed
+ * 2. Recover the CEK with the key of one of the envelope's recipients
+ * 3. Check the CTX tag against the recovered CEK
+ * 4. Wrap the CEK for each new recipient with the algorithm the envelope
+ *    uses for its key type, under a random label if recipients are
+ *    anonymous
+ * 5. Record the original envelope's sender, signature and ID as provenance
+ * 6. Sign the envelope afresh as its new sender, keeping its claims;
+ *    countersignatures no longer cover it, so they are dropped
+ *
+ * The original sender's signature does not cover the new recipients, so the
+ * re-signing key vouches for the envelope from then on, and the provenance
+ * record names the sender it vouches for.
+ *
+ * @param envelope - The sealed envelope to add recipients to
+ * @param senderKey - Private key to re-sign the envelope with
+ * @param senderKid - Key ID of the signing key
+ * @param ownKey - Private key of one of the envelope's recipients
+ * @param ownKid - Key ID of that recipient key
+ * @param recipientKeys - Map of new recipient key IDs to their public keys
+ * @param senderKeys - Map of the original senders' key IDs to their public
+ *   keys, to verify the envelope with
+ * @param options - The associated data the envelope was sealed with, if
+ *   any, plus verifier policy
+ * @returns A copy of the envelope for its old and new recipients, signed by
+ *   `senderKid`
+ * @throws If the envelope is not a native v2 envelope or hides its sender,
+ *   fails verification, the CEK cannot be recovered, the CTX tag does not
+ *   match, or a new recipient already is one
+ */
+export async function addRecipientsCore(
+  envelope: KeySealedEnvelope | HiddenSenderKeySealedEnvelope,
+  senderKey: CryptoKey,
+  senderKid: string,
+  ownKey: CryptoKey,
+  ownKid: string,
+  recipientKeys: Record<string, CryptoKey>,
+  senderKeys: Record<string, CryptoKey>,
+  options: UnsealOptions &
+    VerifierOptions &
+    Pick<UnsealerOptions, "maxRecipientAttempts"> = {}
+): Promise<KeySealedEnvelope> {
+  // JSON input may carry any version, whatever the type says
+  const version: number | undefined = envelope.v;
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error("Only v2 envelopes can have recipients added");
+  }
+  // The recipient list is signed inside the ciphertext
+  if (isHiddenSenderEnvelope(envelope)) {
+    throw new Error(
+      "Envelopes with a hidden sender cannot have recipients added"
+    );
+  }
+  // JWE and COSE bind the sender into the payload's protected header
+  if (envelope.fmt) {
+    throw new Error(`Adding recipients is not supported with ${envelope.fmt}`);
+  }
+  // The re-signed envelope vouches for its sender, so it must be genuine
+  await verifyCore(envelope, senderKeys, options);
+  checkRecipients(recipientKeys);
+
+  const anonymous = envelope.anon === true;
+  if (!anonymous) {
+    for (const kid of Object.keys(recipientKeys)) {
+      if (Object.hasOwn(envelope.cek, kid)) {
+        throw new Error(`Already a recipient: ${kid}`);
+      }
+    }
+  }
+
+  const aad = normalizeAAD(options.aad);
+
+  // The new recipients must get the CEK every other recipient gets
+  const cek = await recoverCEK(
+    envelope,
+    ownKey,
+    ownKid,
+    aad,
+    options.maxRecipientAttempts
+  );
+
+  const { kw, kws } = keyWrapAlgorithmsFor(recipientKeys, [
+    envelope.kw,
+    ...Object.values(envelope.kws ?? {}),
+  ]);
+  const newCEKs = await encryptCEKs(cek, recipientKeys, kws ?? kw, anonymous);
+  const entries = Object.entries({ ...envelope.cek, ...newCEKs.cek });
+  // Mix the new random labels in with the old ones
+  if (anonymous) {
+    entries.sort(([a], [b]) => (a < b ? -1 : 1));
+  }
+  // New recipients of another key type make the envelope's entries mixed
+  const algorithms: Record<string, KeyWrapAlgorithm> = {
+    ...(envelope.kws ??
+      Object.fromEntries(
+        Object.keys(envelope.cek).map((label) => [label, envelope.kw])
+      )),
+    ...newCEKs.kws,
+  };
+  const mixed = Object.values(algorithms).some(
+    (algorithm) => algorithm !== envelope.kw
+  );
+
+  const resealed = {
+    v: envelope.v,
+    alg: signatureAlgorithmFor(senderKey),
+    kw: envelope.kw,
+    enc: envelope.enc,
+    ...(envelope.zip && { zip: envelope.zip }),
+    ...(anonymous && { anon: true as const }),
+    ...(envelope.jti !== undefined && { jti: envelope.jti }),
+    ...(envelope.iat !== undefined && { iat: envelope.iat }),
+    ...(envelope.nbf !== undefined && { nbf: envelope.nbf }),
+    ...(envelope.exp !== undefined && { exp: envelope.exp }),
+    kid: senderKid,
+    cek: Object.fromEntries(entries),
+    ...(mixed && {
+      kws: Object.fromEntries(
+        entries.map(([label]) => [label, algorithms[label]!])
+      ),
+    }),
+    payload: envelope.payload,
+    ctx: envelope.ctx,
+    prov: {
+      kid: envelope.kid,
+      alg: envelope.alg,
+      signature: envelope.signature,
+      ...(envelope.jti !== undefined && { jti: envelope.jti }),
+    },
+  };
+
+  return {
+    ...resealed,
+    signature: await signEnvelope(
+      signedEnvelopeContents(resealed, aad),
+      senderKey,
+      resealed.alg
+    ),
+  };
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
 
+import { unsealCore } from "../unsealer/core.js";
+
 import { sealCore } from "./core.js";
 
 describe("Envelope Sealing", () => {
@@ -163,12 +165,166 @@ describe("EC key path", () => {
   });
 });
 
+async function generateMixedKeys() {
+  const rsaParams = {
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  };
+  return {
+    rsaSender: await crypto.subtle.generateKey(
+      { name: "RSA-PSS", ...rsaParams },
+      true,
+      ["sign", "verify"]
+    ),
+    ecSender: await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"]
+    ),
+    rsaRecipient: await crypto.subtle.generateKey(
+      { name: "RSA-OAEP", ...rsaParams },
+      true,
+      ["encrypt", "decrypt"]
+    ),
+    ecRecipient: await crypto.subtle.generateKey(
+      { name: "ECDH", namedCurve: "P-256" },
+      true,
+      ["deriveKey"]
+    ),
+  };
+}
+
 describe("Mixed key types", () => {
-  it("rejects EC signing with RSA encryption", async () => {
+  it("seals for RSA and EC recipients with either kind of sender", async () => {
+    const keys = await generateMixedKeys();
+    const recipientKeys = {
+      rsa: keys.rsaRecipient.publicKey,
+      ec: keys.ecRecipient.publicKey,
+    };
+
+    for (const sender of [keys.rsaSender, keys.ecSender]) {
+      const envelope = await sealCore(
+        "test message",
+        sender.privateKey,
+        "sender1",
+        recipientKeys
+      );
+
+      expect(envelope.kw).toBe("RSA-OAEP-256");
+      expect(envelope.kws).toEqual({
+        rsa: "RSA-OAEP-256",
+        ec: "ECDH-ES+A256KW",
+      });
+      for (const [kid, recipient] of [
+        ["rsa", keys.rsaRecipient],
+        ["ec", keys.ecRecipient],
+      ] as const) {
+        const decrypted = await unsealCore(
+          envelope,
+          { [kid]: recipient.privateKey },
+          { sender1: sender.publicKey }
+        );
+        expect(new TextDecoder().decode(decrypted)).toBe("test message");
+      }
+    }
+  });
+
+  it("tags anonymous entries by their labels", async () => {
+    const keys = await generateMixedKeys();
+
+    const envelope = await sealCore(
+      "test message",
+      keys.ecSender.privateKey,
+      "sender1",
+      { rsa: keys.rsaRecipient.publicKey, ec: keys.ecRecipient.publicKey },
+      { anonymousRecipients: true }
+    );
+
+    expect(Object.keys(envelope.kws!)).toEqual(Object.keys(envelope.cek));
+    expect(Object.values(envelope.kws!).sort()).toEqual([
+      "ECDH-ES+A256KW",
+      "RSA-OAEP-256",
+    ]);
+    const decrypted = await unsealCore(
+      envelope,
+      { rsa: keys.rsaRecipient.privateKey },
+      { sender1: keys.ecSender.publicKey }
+    );
+    expect(new TextDecoder().decode(decrypted)).toBe("test message");
+  });
+
+  it("signs each entry's algorithm", async () => {
+    const keys = await generateMixedKeys();
+    const envelope = await sealCore(
+      "test message",
+      keys.ecSender.privateKey,
+      "sender1",
+      { rsa: keys.rsaRecipient.publicKey, ec: keys.ecRecipient.publicKey },
+      { kw: "HPKE-A256GCM" }
+    );
+
+    // kw applies to the recipients whose key type it suits
+    expect(envelope.kw).toBe("HPKE-A256GCM");
+    expect(envelope.kws).toEqual({ rsa: "RSA-OAEP-256", ec: "HPKE-A256GCM" });
+    await expect(
+      unsealCore(
+        {
+          ...envelope,
+          kws: { rsa: "RSA-OAEP-256", ec: "ECDH-ES+A256KW" } as const,
+        },
+        { ec: keys.ecRecipient.privateKey },
+        { sender1: keys.ecSender.publicKey }
+      )
+    ).rejects.toThrow("Invalid envelope signature");
+    await expect(
+      unsealCore(
+        { ...envelope, kws: { rsa: "RSA-OAEP-256" } as const },
+        { ec: keys.ecRecipient.privateKey },
+        { sender1: keys.ecSender.publicKey }
+      )
+    ).rejects.toThrow("Malformed envelope");
+  });
+
+  it("tags only envelopes whose entries use different algorithms", async () => {
+    const keys = await generateMixedKeys();
+
+    const envelope = await sealCore(
+      "test message",
+      keys.ecSender.privateKey,
+      "sender1",
+      { rsa: keys.rsaRecipient.publicKey }
+    );
+
+    expect(envelope.kw).toBe("RSA-OAEP-256");
+    expect(envelope).not.toHaveProperty("kws");
+  });
+
+  it("cannot represent mixed recipients in JWE or COSE", async () => {
+    const keys = await generateMixedKeys();
+
+    await expect(
+      sealCore(
+        "test message",
+        keys.rsaSender.privateKey,
+        "sender1",
+        { rsa: keys.rsaRecipient.publicKey, ec: keys.ecRecipient.publicKey },
+        { fmt: "jwe" }
+      )
+    ).rejects.toThrow(
+      "Mixed key wrapping algorithms cannot be represented in JWE"
+    );
+  });
+});
+
+describe("CTX commitment", () => {
+  it("generates valid CTX tag", async () => {
     const senderKeyPair = await crypto.subtle.generateKey(
       {
-        name: "ECDSA",
-        namedCurve: "P-256",
+        name: "RSA-PSS",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
       },
       true,
       ["sign", "verify"]
@@ -185,14 +341,20 @@ describe("Mixed key types", () => {
       ["encrypt", "decrypt"]
     );
 
-    await expect(
-      sealCore("test message", senderKeyPair.privateKey, "sender1", {
-        recipient1: recipientKeyPair.publicKey,
-      })
-    ).rejects.toThrow("Mixed key types not supported");
+    const envelope = await sealCore(
+      "test message",
+      senderKeyPair.privateKey,
+      "sender1",
+      { recipient1: recipientKeyPair.publicKey }
+    );
+
+    expect(envelope.ctx).toBeDefined();
+    expect(typeof envelope.ctx).toBe("string");
+    // CTX tag should be base64-encoded SHA-256 output (32 bytes -> 44 base64 chars)
+    expect(envelope.ctx.length).toBe(44);
   });
 
-  it("rejects RSA signing with EC encryption", async () => {
+  it("generates different CTX tags for different messages", async () => {
     const senderKeyPair = await crypto.subtle.generateKey(
       {
         name: "RSA-PSS",
@@ -206,23 +368,35 @@ describe("Mixed key types", () => {
 
     const recipientKeyPair = await crypto.subtle.generateKey(
       {
-        name: "ECDH",
-        namedCurve: "P-256",
+        name: "RSA-OAEP",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
       },
       true,
-      ["deriveKey"]
+      ["encrypt", "decrypt"]
     );
 
-    await expect(
-      sealCore("test message", senderKeyPair.privateKey, "sender1", {
-        recipient1: recipientKeyPair.publicKey,
-      })
-    ).rejects.toThrow("Mixed key types not supported");
+    const envelope1 = await sealCore(
+      "message one",
+      senderKeyPair.privateKey,
+      "sender1",
+      { recipient1: recipientKeyPair.publicKey }
+    );
+
+    const envelope2 = await sealCore(
+      "message two",
+      senderKeyPair.privateKey,
+      "sender1",
+      { recipient1: recipientKeyPair.publicKey }
+    );
+
+    expect(envelope1.ctx).not.toBe(envelope2.ctx);
   });
 });
 
-describe("CTX commitment", () => {
-  it("generates valid CTX tag", async () => {
+describe("Envelope header", () => {
+  it("records RSA algorithms", async () => {
     const senderKeyPair = await crypto.subtle.generateKey(
       {
         name: "RSA-PSS",
@@ -252,19 +426,17 @@ describe("CTX commitment", () => {
       { recipient1: recipientKeyPair.publicKey }
     );
 
-    expect(envelope.ctx).toBeDefined();
-    expect(typeof envelope.ctx).toBe("string");
-    // CTX tag should be base64-encoded SHA-256 output (32 bytes -> 44 base64 chars)
-    expect(envelope.ctx.length).toBe(44);
+    expect(envelope.v).toBe(2);
+    expect(envelope.alg).toBe("PS256");
+    expect(envelope.kw).toBe("RSA-OAEP-256");
+    expect(envelope.enc).toBe("A256GCM");
   });
 
-  it("generates different CTX tags for different messages", async () => {
+  it("records EC algorithms matching the signing curve", async () => {
     const senderKeyPair = await crypto.subtle.generateKey(
       {
-        name: "RSA-PSS",
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: "SHA-256",
+        name: "ECDSA",
+        namedCurve: "P-384",
       },
       true,
       ["sign", "verify"]
@@ -272,29 +444,52 @@ describe("CTX commitment", () => {
 
     const recipientKeyPair = await crypto.subtle.generateKey(
       {
-        name: "RSA-OAEP",
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: "SHA-256",
+        name: "ECDH",
+        namedCurve: "P-384",
       },
       true,
-      ["encrypt", "decrypt"]
+      ["deriveKey"]
     );
 
-    const envelope1 = await sealCore(
-      "message one",
+    const envelope = await sealCore(
+      "test message",
       senderKeyPair.privateKey,
       "sender1",
       { recipient1: recipientKeyPair.publicKey }
     );
 
-    const envelope2 = await sealCore(
-      "message two",
+    expect(envelope.v).toBe(2);
+    expect(envelope.alg).toBe("ES384");
+    expect(envelope.kw).toBe("ECDH-ES+A256KW");
+    expect(envelope.enc).toBe("A256GCM");
+  });
+
+  it("records ES512 for P-521 keys", async () => {
+    const senderKeyPair = await crypto.subtle.generateKey(
+      {
+        name: "ECDSA",
+        namedCurve: "P-521",
+      },
+      true,
+      ["sign", "verify"]
+    );
+
+    const recipientKeyPair = await crypto.subtle.generateKey(
+      {
+        name: "ECDH",
+        namedCurve: "P-521",
+      },
+      true,
+      ["deriveKey"]
+    );
+
+    const envelope = await sealCore(
+      "test message",
       senderKeyPair.privateKey,
       "sender1",
       { recipient1: recipientKeyPair.publicKey }
     );
 
-    expect(envelope1.ctx).not.toBe(envelope2.ctx);
+    expect(envelope.alg).toBe("ES512");
   });
 });
@@ -1,95 +1,192 @@
-import { CTX_CONSTANT_STRING } from "../constants.js";
-import { type KeySealedEnvelope } from "../types/index.js";
+import { computeCtx } from "../commitment.js";
+import { compress } from "../compression.js";
+import { ENVELOPE_VERSION } from "../constants.js";
+import {
+  buildCOSESign1,
+  COSE_KEY_WRAP_ALGORITHMS,
+  coseEncryptProtectedHeader,
+  coseEncStructure,
+} from "../cose/helpers.js";
+import {
+  buildJWS,
+  JWE_KEY_WRAP_ALGORITHMS,
+  jweAdditionalData,
+  jweProtectedHeader,
+} from "../jwe/helpers.js";
+import {
+  type KeySealedEnvelope,
+  type KeySealedEnvelopeClaims,
+  type KeySealedEnvelopeHeader,
+  type SealOptions,
+} from "../types/index.js";
+import {
+  normalizeAAD,
+  toBytes,
+  toNumericDate,
+  uint8ArrayToBase64,
+} from "../utils.js";
 
 import {
+  checkRecipients,
   generateCEK,
   encryptPayload,
-  encryptCEK,
+  encryptCEKs,
+  keyWrapAlgorithmsFor,
+  signatureAlgorithmFor,
   signEnvelope,
+  signMessage,
 } from "./helpers.js";
 
 /**
  * Low-level envelope sealing function. Encrypts payload for multiple recipients and signs it.
  *
  * The sealing process:
- * 1. Generate random AES key (CEK)
- * 2. Encrypt payload with CEK
- * 3. Generate CTX commitment tag
- * 4. Encrypt CEK for each recipient
- * 5. Sign the canonical envelope
+ * 1. Pick the header algorithms from the sender and recipient keys, and
+ *    a key wrapping algorithm per recipient if their key types differ
+ * 2. Assign a unique envelope ID and any validity claims
+ * 3. Generate random AES key (CEK)
+ * 4. Compress the payload, if asked to, and encrypt it with CEK, binding any
+ *    AAD (and, for JWE and COSE, the protected header)
+ * 5. Encrypt CEK for each recipient, under a random label if recipients
+ *    are anonymous
+ * 6. Generate CTX tag committing to the CEK
+ * 7. Sign the canonical envelope, header, claims, CTX and AAD included
  *
  * @param payload - String or binary data to encrypt
  * @param senderKey - Private key for signing
  * @param senderKid - Key ID of the signing key
  * @param recipientKeys - Map of recipient key IDs to their public keys
+ * @param options - Per-envelope options such as associated data and validity claims
  * @returns Sealed envelope containing encrypted data and signature
- * @throws If no recipients specified or key types are mixed
+ * @throws If no recipients specified, or recipients with different key
+ *   types are sealed for in JWE or COSE
  */
 export async function sealCore(
   payload: string | Uint8Array,
   senderKey: CryptoKey,
   senderKid: string,
-  recipientKeys: Record<string, CryptoKey>
+  recipientKeys: Record<string, CryptoKey>,
+  options: SealOptions = {}
 ): Promise<KeySealedEnvelope> {
-  if (Object.keys(recipientKeys).length === 0) {
-    throw new Error("No recipients specified");
-  }
-  // Check for mixed key types
-  const isRSASender = senderKey.algorithm.name === "RSA-PSS";
-  const isECSender = senderKey.algorithm.name === "ECDSA";
-
-  for (const recipientKey of Object.values(recipientKeys)) {
-    const isRSARecipient = recipientKey.algorithm.name === "RSA-OAEP";
-    const isECRecipient = recipientKey.algorithm.name === "ECDH";
+  checkRecipients(recipientKeys);
 
-    if ((isRSASender && isECRecipient) || (isECSender && isRSARecipient)) {
-      throw new Error("Mixed key types not supported");
-    }
+  // RSA and EC recipients each get an algorithm for their key type
+  const { kw, kws } = keyWrapAlgorithmsFor(
+    recipientKeys,
+    options.kw && [options.kw],
+    options.fmt
+  );
+  const header: KeySealedEnvelopeHeader = {
+    v: ENVELOPE_VERSION,
+    alg: signatureAlgorithmFor(senderKey),
+    kw,
+    enc: "A256GCM",
+    ...(options.fmt && { fmt: options.fmt }),
+    ...(options.compression &&
+      options.compression !== "none" && { zip: options.compression }),
+    ...(options.anonymousRecipients && { anon: true }),
+  };
+  if (header.fmt === "jwe" && !JWE_KEY_WRAP_ALGORITHMS.includes(header.kw)) {
+    throw new Error(`${header.kw} cannot be represented in JWE`);
   }
-  const cek = await generateCEK();
-  const encryptedPayload = await encryptPayload(payload, cek);
-
-  const encryptedCEKs: Record<string, string> = {};
-  for (const [kid, recipientKey] of Object.entries(recipientKeys)) {
-    const encryptedCEK = await encryptCEK(cek, recipientKey);
-    encryptedCEKs[kid] = btoa(String.fromCharCode(...encryptedCEK));
+  if (header.fmt === "cose" && !COSE_KEY_WRAP_ALGORITHMS.includes(header.kw)) {
+    throw new Error(`${header.kw} cannot be represented in COSE`);
+  }
+  // The JWS and COSE_Sign1 signatures do not cover the entries' algorithms
+  if (header.fmt && kws) {
+    throw new Error(
+      `Mixed key wrapping algorithms cannot be represented in ${header.fmt.toUpperCase()}`
+    );
+  }
+  // JWE and COSE name each recipient's key
+  if (header.fmt && header.anon) {
+    throw new Error(
+      `Anonymous recipients cannot be represented in ${header.fmt.toUpperCase()}`
+    );
+  }
+  // JWE only defines raw DEFLATE; COSE defines no compression at all
+  if (
+    (header.fmt === "jwe" && header.zip === "gzip") ||
+    (header.fmt === "cose" && header.zip)
+  ) {
+    throw new Error(
+      `${header.zip} compression cannot be represented in ${header.fmt.toUpperCase()}`
+    );
   }
 
-  // Sign the envelope before adding CTX
-  const envelope = {
-    kid: senderKid,
-    cek: encryptedCEKs,
-    payload: btoa(String.fromCharCode(...encryptedPayload)),
-  };
+  const claims: KeySealedEnvelopeClaims = { jti: crypto.randomUUID() };
+  if (options.iat) claims.iat = toNumericDate(options.iat);
+  if (options.nbf) claims.nbf = toNumericDate(options.nbf);
+  if (options.exp) claims.exp = toNumericDate(options.exp);
 
-  const signature = await signEnvelope(envelope, senderKey);
+  const aad = normalizeAAD(options.aad);
 
-  // Generate CTX after signing
-  const iv = encryptedPayload.subarray(0, 12);
-  const gcmTag = encryptedPayload.subarray(-16);
+  const cek = await generateCEK();
+  // JWE and COSE authenticate their protected headers along with the payload
+  let additionalData = aad;
+  if (header.fmt === "jwe") {
+    additionalData = jweAdditionalData(
+      jweProtectedHeader({ ...header, ...claims, kid: senderKid }),
+      aad
+    );
+  } else if (header.fmt === "cose") {
+    additionalData = coseEncStructure(
+      coseEncryptProtectedHeader({ ...header, ...claims, kid: senderKid }),
+      aad
+    );
+  }
+  const encryptedPayload = await encryptPayload(
+    header.zip ? await compress(toBytes(payload), header.zip) : payload,
+    cek,
+    additionalData
+  );
 
-  const separator = new TextEncoder().encode(CTX_CONSTANT_STRING);
-  const ctxInput = new Uint8Array(
-    separator.length +
-      iv.length +
-      (encryptedPayload.length - 28) +
-      gcmTag.length
+  const encryptedCEKs = await encryptCEKs(
+    cek,
+    recipientKeys,
+    kws ?? header.kw,
+    header.anon
   );
 
-  let offset = 0;
-  ctxInput.set(separator, offset);
-  offset += separator.length;
-  ctxInput.set(iv, offset);
-  offset += iv.length;
-  ctxInput.set(encryptedPayload.subarray(12, -16), offset);
-  offset += encryptedPayload.length - 28;
-  ctxInput.set(gcmTag, offset);
+  // Commit to the CEK, so that the signature covers the commitment too
+  const ctxTag = await computeCtx(cek, encryptedPayload, aad);
+
+  const envelope = {
+    ...header,
+    ...claims,
+    kid: senderKid,
+    cek: encryptedCEKs.cek,
+    ...(kws && { kws: encryptedCEKs.kws }),
+    payload: uint8ArrayToBase64(encryptedPayload),
+    ctx: uint8ArrayToBase64(ctxTag),
+  };
 
-  const ctxTag = await crypto.subtle.digest("SHA-256", ctxInput);
+  // The AAD is signed but not stored; unsealers supply it themselves. JWE
+  // and COSE envelopes are signed as the JWS or COSE_Sign1 that toJWE or
+  // toCOSE presents them in.
+  let signature: string;
+  if (header.fmt === "jwe") {
+    signature = await signMessage(
+      buildJWS(envelope, aad).signingInput,
+      senderKey,
+      header.alg
+    );
+  } else if (header.fmt === "cose") {
+    signature = await signMessage(
+      buildCOSESign1(envelope, aad).toBeSigned,
+      senderKey,
+      header.alg
+    );
+  } else {
+    signature = await signEnvelope(
+      aad ? { ...envelope, aad: uint8ArrayToBase64(aad) } : envelope,
+      senderKey,
+      header.alg
+    );
+  }
 
   return {
     ...envelope,
     signature,
-    ctx: btoa(String.fromCharCode(...new Uint8Array(ctxTag))),
   };
 }
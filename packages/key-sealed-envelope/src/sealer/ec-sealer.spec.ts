@@ -3,7 +3,11 @@ import { describe, it, expect } from "vitest";
 import {
   type ECPrivateNamedJWK,
   type ECPublicNamedJWK,
+  type RSAPrivateNamedJWK,
+  type RSAPublicNamedJWK,
 } from "../types/index.js";
+import { ECUnsealer } from "../unsealer/ec-unsealer.js";
+import { RSAUnsealer } from "../unsealer/rsa-unsealer.js";
 
 import { ECSealer } from "./ec-sealer.js";
 
@@ -65,6 +69,30 @@ const recipient2PublicJWK = await keyToPublicJWK(
   "recipient2"
 );
 
+// A consumer that only has an RSA key
+const rsaRecipientKeyPair = await crypto.subtle.generateKey(
+  {
+    name: "RSA-OAEP",
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  },
+  true,
+  ["encrypt", "decrypt"]
+);
+const rsaRecipientPublicJWK = {
+  ...(await crypto.subtle.exportKey("jwk", rsaRecipientKeyPair.publicKey)),
+  kid: "rsa-recipient",
+} as RSAPublicNamedJWK;
+const rsaRecipientPrivateJWK = {
+  ...(await crypto.subtle.exportKey("jwk", rsaRecipientKeyPair.privateKey)),
+  kid: "rsa-recipient",
+} as RSAPrivateNamedJWK;
+const senderPublicJWK = await keyToPublicJWK(
+  senderKeyPair.publicKey,
+  "sender1"
+);
+
 describe("ECSealer", () => {
   describe("creation", () => {
     it("creates instance with valid keys", async () => {
@@ -147,4 +175,60 @@ describe("ECSealer", () => {
       expect(envelope.cek).toHaveProperty("recipient1");
     });
   });
+
+  describe("mixed recipients", () => {
+    it("seals one envelope for RSA and EC recipients", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipient1PublicJWK,
+        rsaRecipientPublicJWK,
+      ]);
+      const rsaUnsealer = await RSAUnsealer.create(rsaRecipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+      const ecUnsealer = await ECUnsealer.create(
+        await keyToPrivateJWK(recipient1KeyPair.privateKey, "recipient1"),
+        [senderPublicJWK]
+      );
+
+      const envelope = await sealer.seal("test message", [
+        "recipient1",
+        "rsa-recipient",
+      ]);
+
+      expect(envelope.kws).toEqual({
+        "recipient1": "ECDH-ES+A256KW",
+        "rsa-recipient": "RSA-OAEP-256",
+      });
+      for (const unsealer of [rsaUnsealer, ecUnsealer]) {
+        expect(new TextDecoder().decode(await unsealer.unseal(envelope))).toBe(
+          "test message"
+        );
+      }
+    });
+
+    it("hides the sender and streams for mixed recipients", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipient1PublicJWK,
+        rsaRecipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(rsaRecipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+      const recipients = ["recipient1", "rsa-recipient"];
+
+      const hidden = await sealer.sealHiddenSender("test message", recipients, {
+        anonymousRecipients: true,
+      });
+      expect(new TextDecoder().decode(await unsealer.unseal(hidden))).toBe(
+        "test message"
+      );
+
+      const sealed = await sealer.sealStream(
+        new Blob(["test message"]).stream(),
+        recipients
+      );
+      const unsealed = await unsealer.unsealStream(sealed);
+      expect(await new Response(unsealed).text()).toBe("test message");
+    });
+  });
 });
@@ -1,58 +1,77 @@
+import { SigningKeyRing } from "../key-ring/signing-key-ring.js";
+import {
+  importDecryptionKey,
+  importEncryptionKey,
+  importVerificationKeys,
+} from "../keys.js";
 import {
-  type ECPublicNamedJWKS,
   type ECPrivateNamedJWK,
-  type ECPublicNamedJWK,
+  type RSAOrECPublicNamedJWK,
+  type RSAOrECPublicNamedJWKS,
+} from "../types/index.js";
+import {
+  type AddRecipientsOptions,
+  type ByteSource,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type RekeyOptions,
+  type SealHiddenSenderOptions,
+  type SealOptions,
+  type SealStreamOptions,
 } from "../types/index.js";
-import { type KeySealedEnvelope } from "../types/index.js";
 
+import { addRecipientsCore } from "./add-recipients.js";
 import { sealCore } from "./core.js";
+import { sealHiddenSenderCore } from "./hidden-sender.js";
+import { rekeyCore } from "./rekey.js";
+import { sealStreamCore } from "./stream.js";
 
 /**
  * Encrypts and signs messages using elliptic curve cryptography.
  *
  * Uses ECDSA for signing and ECDH for key exchange with per-message
- * ephemeral keys. All keys must use the same curve (P-256 or P-384).
+ * ephemeral keys. All EC keys must use the same curve (P-256, P-384 or
+ * P-521). Recipients with RSA keys can be sealed for too, with RSA-OAEP.
  *
  * @example
  * const sealer = await ECSealer.create(yourPrivateJWK, [recipientPublicJWKs]);
  * const envelope = await sealer.seal("secret stuff", ["recipient1"]);
  */
 export class ECSealer {
-  private readonly privateKey: CryptoKey;
-  private readonly privateKid: string;
+  private readonly signingKeys: SigningKeyRing<ECPrivateNamedJWK>;
+  private readonly curve: string | undefined;
   private readonly recipientKeys: Map<string, CryptoKey>;
 
   private constructor(
-    privateKey: CryptoKey,
-    privateKid: string,
+    signingKeys: SigningKeyRing<ECPrivateNamedJWK>,
+    curve: string | undefined,
     recipientKeys: Map<string, CryptoKey>
   ) {
-    this.privateKey = privateKey;
-    this.privateKid = privateKid;
+    this.signingKeys = signingKeys;
+    this.curve = curve;
     this.recipientKeys = recipientKeys;
   }
 
   /**
    * Creates a new ECSealer instance.
-   * @param privateJwk - Your EC private key for signing
-   * @param recipientKeys - Array of recipient EC public keys or JWKS for encryption
+   * @param signingKeys - Your EC private key for signing, or a ring of them
+   *   to sign with whichever is active when sealing
+   * @param recipientKeys - Array of recipient EC or RSA public keys or JWKS for encryption
    * @returns New ECSealer instance
-   * @throws If keys use different curves
+   * @throws If EC keys use different curves
    */
   static async create(
-    privateJwk: ECPrivateNamedJWK,
-    recipientKeys: ECPublicNamedJWK[] | ECPublicNamedJWKS
+    signingKeys: ECPrivateNamedJWK | SigningKeyRing<ECPrivateNamedJWK>,
+    recipientKeys: RSAOrECPublicNamedJWK[] | RSAOrECPublicNamedJWKS
   ): Promise<ECSealer> {
-    const privateKey = await crypto.subtle.importKey(
-      "jwk",
-      privateJwk,
-      {
-        name: "ECDSA",
-        namedCurve: privateJwk.crv,
-      },
-      true,
-      ["sign"]
-    );
+    const ring =
+      signingKeys instanceof SigningKeyRing
+        ? signingKeys
+        : await SigningKeyRing.create([{ jwk: signingKeys }]);
+    // A ring's active key changes over time, so its curve is checked when
+    // sealing
+    let curve =
+      signingKeys instanceof SigningKeyRing ? undefined : signingKeys.crv;
 
     const recipientJwks = Array.isArray(recipientKeys)
       ? recipientKeys
@@ -60,37 +79,172 @@ export class ECSealer {
 
     const recipientKeyMap = new Map();
     for (const jwk of recipientJwks) {
-      if (jwk.crv !== privateJwk.crv) {
-        throw new Error("All keys must use the same curve");
+      // RSA recipients, which take part in no key agreement, can be mixed in
+      if (jwk.kty === "EC") {
+        curve ??= jwk.crv;
+        if (jwk.crv !== curve) {
+          throw new Error("All keys must use the same curve");
+        }
       }
 
-      const recipientKey = await crypto.subtle.importKey(
-        "jwk",
-        jwk,
-        {
-          name: "ECDH",
-          namedCurve: jwk.crv,
-        },
-        true,
-        []
-      );
-      recipientKeyMap.set(jwk.kid, recipientKey);
+      recipientKeyMap.set(jwk.kid, await importEncryptionKey(jwk));
     }
 
-    return new ECSealer(privateKey, privateJwk.kid, recipientKeyMap);
+    return new ECSealer(ring, curve, recipientKeyMap);
   }
   /**
    * Seals a message for specified recipients.
    *
    * @param payload - String or binary data to encrypt
    * @param recipientKids - Array of recipient key IDs to encrypt for
+   * @param options - Per-envelope options such as associated data
    * @returns Sealed envelope containing encrypted data and signature
    * @throws If any recipient kid is unknown
    */
   async seal(
     payload: string | Uint8Array,
-    recipientKids: string[]
+    recipientKids: string[],
+    options: SealOptions = {}
   ): Promise<KeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await sealCore(
+      payload,
+      signingKey.privateKey,
+      signingKey.kid,
+      this.recipientKeysFor(recipientKids),
+      options
+    );
+  }
+
+  /**
+   * Seals a message for specified recipients without revealing the sender.
+   * The sender's key ID and signature are encrypted with the payload, so
+   * only recipients learn who sent it.
+   *
+   * @param payload - String or binary data to encrypt
+   * @param recipientKids - Array of recipient key IDs to encrypt for
+   * @param options - Per-envelope options such as associated data
+   * @returns Sealed envelope with the sender inside the encrypted payload
+   * @throws If any recipient kid is unknown
+   */
+  async sealHiddenSender(
+    payload: string | Uint8Array,
+    recipientKids: string[],
+    options: SealHiddenSenderOptions = {}
+  ): Promise<HiddenSenderKeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await sealHiddenSenderCore(
+      payload,
+      signingKey.privateKey,
+      signingKey.kid,
+      this.recipientKeysFor(recipientKids),
+      options
+    );
+  }
+
+  /**
+   * Seals a stream for specified recipients, encrypting it a segment at a
+   * time so that payloads of any size can be sealed in bounded memory.
+   *
+   * @param input - Plaintext to encrypt, as a stream or async iterable
+   * @param recipientKids - Array of recipient key IDs to encrypt for
+   * @param options - Per-stream options such as associated data and segment size
+   * @returns The sealed stream
+   * @throws If any recipient kid is unknown
+   */
+  async sealStream(
+    input: ByteSource,
+    recipientKids: string[],
+    options: SealStreamOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const signingKey = this.signingKey();
+    return await sealStreamCore(
+      input,
+      signingKey.privateKey,
+      signingKey.kid,
+      this.recipientKeysFor(recipientKids),
+      options
+    );
+  }
+
+  /**
+   * Adds recipients to an envelope without re-encrypting its payload, e.g.
+   * to give a new worker pool or auditor access to stored envelopes. The
+   * CEK is recovered with your key as one of its recipients, wrapped for
+   * the new recipients, and the envelope is signed afresh with your signing
+   * key, so recipients must trust it as a sender. The envelope must first
+   * verify against one of `senderKeys`, and its original sender and
+   * signature are recorded as provenance.
+   *
+   * @param envelope - The sealed envelope to add recipients to
+   * @param options - The trusted senders' public keys, your recipient key,
+   *   the key IDs to add, and the associated data the envelope was sealed
+   *   with, if any
+   * @returns A copy of the envelope for its old and new recipients
+   * @throws If any new recipient kid is unknown or already a recipient, the
+   *   envelope is not a native v2 envelope, hides its sender or fails
+   *   verification, or your key cannot recover its CEK
+   */
+  async addRecipients(
+    envelope: KeySealedEnvelope | HiddenSenderKeySealedEnvelope,
+    options: AddRecipientsOptions
+  ): Promise<KeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await addRecipientsCore(
+      envelope,
+      signingKey.privateKey,
+      signingKey.kid,
+      await importDecryptionKey(options.ownPrivateKey),
+      options.ownPrivateKey.kid,
+      this.recipientKeysFor(options.newRecipientKids),
+      await importVerificationKeys(options.senderKeys),
+      options
+    );
+  }
+
+  /**
+   * Re-keys an envelope for a new set of recipients, e.g. to drop a revoked
+   * key from archived envelopes. The payload is re-encrypted under a fresh
+   * CEK recovered by no other key, and the new envelope is signed with your
+   * signing key, with a provenance record naming the original sender and
+   * signature. The envelope must first verify against one of `senderKeys`.
+   *
+   * @param envelope - The sealed envelope to re-key
+   * @param options - The trusted senders' public keys, your recipient key,
+   *   the new envelope's recipient key IDs, and the associated data the
+   *   envelope was sealed with, if any
+   * @returns The re-keyed envelope
+   * @throws If any recipient kid is unknown, the envelope is not a native
+   *   v2 envelope, hides its sender or fails verification, or your key
+   *   cannot recover its CEK
+   */
+  async rekeyEnvelope(
+    envelope: KeySealedEnvelope | HiddenSenderKeySealedEnvelope,
+    options: RekeyOptions
+  ): Promise<KeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await rekeyCore(
+      envelope,
+      signingKey.privateKey,
+      signingKey.kid,
+      await importDecryptionKey(options.ownPrivateKey),
+      options.ownPrivateKey.kid,
+      this.recipientKeysFor(options.recipientKids),
+      await importVerificationKeys(options.senderKeys),
+      options
+    );
+  }
+
+  private signingKey(): { kid: string; privateKey: CryptoKey } {
+    const signingKey = this.signingKeys.activeKey();
+    const { namedCurve } = signingKey.privateKey.algorithm as EcKeyAlgorithm;
+    if (this.curve && namedCurve !== this.curve) {
+      throw new Error("All keys must use the same curve");
+    }
+    return signingKey;
+  }
+
+  private recipientKeysFor(recipientKids: string[]): Record<string, CryptoKey> {
     const recipientKeyMap: Record<string, CryptoKey> = {};
     for (const kid of recipientKids) {
       const key = this.recipientKeys.get(kid);
@@ -99,12 +253,6 @@ export class ECSealer {
       }
       recipientKeyMap[kid] = key;
     }
-
-    return await sealCore(
-      payload,
-      this.privateKey,
-      this.privateKid,
-      recipientKeyMap
-    );
+    return recipientKeyMap;
   }
 }
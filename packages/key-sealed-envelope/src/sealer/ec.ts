@@ -1,3 +1,5 @@
+import { deriveCOSEWrappingKey, deriveECDHESWrappingKey } from "../kdf.js";
+
 /**
  * Encrypts a content encryption key using ECDH key agreement
  * @param cek - Content encryption key to protect
@@ -12,7 +14,7 @@ export async function encryptCEKWithECDH(
 ): Promise<Uint8Array> {
   const sharedSecret = await crypto.subtle.deriveKey(
     {
-      name: "ECDH",
+      name: recipientKey.algorithm.name,
       public: recipientKey,
     },
     ephemeralKey.privateKey,
@@ -37,21 +39,80 @@ export async function encryptCEKWithECDH(
   return result;
 }
 
+/**
+ * Encrypts a content encryption key using ECDH-ES with the Concat KDF and
+ * AES Key Wrap
+ * @param cek - Content encryption key to protect
+ * @param recipientKey - Recipient's public key for ECDH
+ * @param recipientKid - Recipient's key ID, bound into the derived key
+ * @param ephemeralKey - One-time key pair for this encryption
+ * @param ephemeralPublicKey - Encoded ephemeral public key, bound into the derived key
+ * @returns Wrapped key
+ */
+export async function encryptCEKWithECDHES(
+  cek: CryptoKey,
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  ephemeralKey: CryptoKeyPair,
+  ephemeralPublicKey: Uint8Array
+): Promise<Uint8Array> {
+  const wrappingKey = await deriveECDHESWrappingKey(
+    ephemeralKey.privateKey,
+    recipientKey,
+    ephemeralPublicKey,
+    recipientKid,
+    "wrapKey"
+  );
+
+  return new Uint8Array(
+    await crypto.subtle.wrapKey("raw", cek, wrappingKey, "AES-KW")
+  );
+}
+
+/**
+ * Encrypts a content encryption key using ECDH-ES with HKDF over the
+ * COSE_KDF_Context and AES Key Wrap
+ * @param cek - Content encryption key to protect
+ * @param recipientKey - Recipient's public key for ECDH
+ * @param recipientKid - Recipient's key ID, bound into the derived key
+ * @param ephemeralKey - One-time key pair for this encryption
+ * @returns Wrapped key
+ */
+export async function encryptCEKWithECDHESHKDF(
+  cek: CryptoKey,
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  ephemeralKey: CryptoKeyPair
+): Promise<Uint8Array> {
+  const wrappingKey = await deriveCOSEWrappingKey(
+    ephemeralKey.privateKey,
+    recipientKey,
+    recipientKid,
+    "wrapKey"
+  );
+
+  return new Uint8Array(
+    await crypto.subtle.wrapKey("raw", cek, wrappingKey, "AES-KW")
+  );
+}
+
 /**
  * Signs envelope contents using ECDSA
  * @param message - Message bytes to sign
  * @param senderKey - Private key for signing
+ * @param hash - Digest to sign with
  * @returns Digital signature as bytes
  */
 export async function signEnvelopeWithEC(
   message: Uint8Array,
-  senderKey: CryptoKey
+  senderKey: CryptoKey,
+  hash: string
 ): Promise<Uint8Array> {
   return new Uint8Array(
     await crypto.subtle.sign(
       {
         name: "ECDSA",
-        hash: { name: "SHA-256" },
+        hash: { name: hash },
       },
       senderKey,
       message
@@ -1,6 +1,25 @@
 import canonicalize from "canonicalize";
 
-import { encryptCEKWithECDH, signEnvelopeWithEC } from "./ec.js";
+import { ECDSA_PARAMS } from "../constants.js";
+import {
+  type EnvelopeFormat,
+  type KeyWrapAlgorithm,
+  type SignatureAlgorithm,
+} from "../types/index.js";
+import {
+  toBytes,
+  uint8ArrayToBase64,
+  uint8ArrayToBase64Url,
+} from "../utils.js";
+
+import {
+  encryptCEKWithECDH,
+  encryptCEKWithECDHES,
+  encryptCEKWithECDHESHKDF,
+  signEnvelopeWithEC,
+} from "./ec.js";
+import { encryptCEKWithHPKE } from "./hpke.js";
+import { signEnvelopeWithEdDSA } from "./okp.js";
 import { encryptCEKWithRSA, signEnvelopeWithRSA } from "./rsa.js";
 
 export async function generateCEK(): Promise<CryptoKey> {
@@ -16,21 +35,19 @@ export async function generateCEK(): Promise<CryptoKey> {
 
 export async function encryptPayload(
   plaintext: string | Uint8Array,
-  cek: CryptoKey
+  cek: CryptoKey,
+  aad?: Uint8Array
 ): Promise<Uint8Array> {
   const iv = crypto.getRandomValues(new Uint8Array(12));
-  const plaintextBytes =
-    typeof plaintext === "string"
-      ? new TextEncoder().encode(plaintext)
-      : plaintext;
 
   const ciphertext = await crypto.subtle.encrypt(
     {
       name: "AES-GCM",
       iv,
+      ...(aad && { additionalData: aad }),
     },
     cek,
-    plaintextBytes
+    toBytes(plaintext)
   );
 
   const result = new Uint8Array(iv.length + ciphertext.byteLength);
@@ -40,22 +57,149 @@ export async function encryptPayload(
   return result;
 }
 
+/**
+ * Checks that there is someone to seal for.
+ *
+ * @throws If there are no recipients
+ */
+export function checkRecipients(
+  recipientKeys: Record<string, CryptoKey>
+): void {
+  if (Object.keys(recipientKeys).length === 0) {
+    throw new Error("No recipients specified");
+  }
+}
+
+/**
+ * Picks the signature algorithm recorded in the envelope header for a
+ * sender key.
+ */
+export function signatureAlgorithmFor(
+  senderKey: CryptoKey
+): SignatureAlgorithm {
+  if (senderKey.algorithm.name === "RSA-PSS") {
+    return "PS256";
+  }
+  if (senderKey.algorithm.name === "ECDSA") {
+    const curve = (senderKey.algorithm as EcKeyAlgorithm).namedCurve;
+    const alg = (
+      Object.keys(ECDSA_PARAMS) as (keyof typeof ECDSA_PARAMS)[]
+    ).find((candidate) => ECDSA_PARAMS[candidate].namedCurve === curve);
+    if (!alg) {
+      throw new Error(`Unsupported curve: ${curve}`);
+    }
+    return alg;
+  }
+  if (senderKey.algorithm.name === "Ed25519") {
+    return "EdDSA";
+  }
+  throw new Error("Unsupported key type");
+}
+
+/**
+ * Picks the key wrapping algorithm recorded in the envelope header for a
+ * recipient key. COSE has its own ECDH-ES key derivation.
+ */
+export function keyWrapAlgorithmFor(
+  recipientKey: CryptoKey,
+  fmt?: EnvelopeFormat
+): KeyWrapAlgorithm {
+  if (recipientKey.algorithm.name === "RSA-OAEP") {
+    return "RSA-OAEP-256";
+  }
+  if (
+    recipientKey.algorithm.name === "ECDH" ||
+    recipientKey.algorithm.name === "X25519"
+  ) {
+    return fmt === "cose" ? "ECDH-ES+HKDF-256+A256KW" : "ECDH-ES+A256KW";
+  }
+  throw new Error("Unsupported key type");
+}
+
+/**
+ * Picks the key wrapping algorithm for each recipient key, so that RSA and
+ * EC recipients can share an envelope. Each key gets the first of
+ * `preferred` that suits its type, RSA or EC, or else its type's default.
+ *
+ * @returns The algorithm for the header, which is the first of `preferred`
+ *   in use if any is; and, if the recipients' algorithms differ, each one's
+ * @throws If a recipient key type is not supported
+ */
+export function keyWrapAlgorithmsFor(
+  recipientKeys: Record<string, CryptoKey>,
+  preferred: KeyWrapAlgorithm[] = [],
+  fmt?: EnvelopeFormat
+): { kw: KeyWrapAlgorithm; kws?: Record<string, KeyWrapAlgorithm> } {
+  const kws: Record<string, KeyWrapAlgorithm> = {};
+  for (const [kid, recipientKey] of Object.entries(recipientKeys)) {
+    const fallback = keyWrapAlgorithmFor(recipientKey, fmt);
+    kws[kid] =
+      preferred.find(
+        (kw) => (kw === "RSA-OAEP-256") === (fallback === "RSA-OAEP-256")
+      ) ?? fallback;
+  }
+
+  const algorithms = Object.values(kws);
+  const kw =
+    preferred.find((candidate) => algorithms.includes(candidate)) ??
+    algorithms[0]!;
+  return algorithms.every((algorithm) => algorithm === kw)
+    ? { kw }
+    : { kw, kws };
+}
+
+/**
+ * Whether a recipient key can receive a CEK wrapped with an algorithm.
+ */
+export function canWrapFor(
+  recipientKey: CryptoKey,
+  kw: KeyWrapAlgorithm
+): boolean {
+  const { name } = recipientKey.algorithm;
+  switch (kw) {
+    case "RSA-OAEP-256":
+      return name === "RSA-OAEP";
+    case "ECDH-ES+A256KW":
+    case "ECDH-ES+HKDF-256+A256KW":
+    case "ECDH+A256GCMKW":
+      return name === "ECDH" || name === "X25519";
+    case "HPKE-A256GCM":
+      return (
+        name === "X25519" ||
+        (name === "ECDH" &&
+          (recipientKey.algorithm as EcKeyAlgorithm).namedCurve === "P-256")
+      );
+    default:
+      return false;
+  }
+}
+
 export async function encryptCEK(
   cek: CryptoKey,
-  recipientKey: CryptoKey
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  kw: KeyWrapAlgorithm
 ): Promise<Uint8Array> {
-  if (recipientKey.algorithm.name === "RSA-OAEP") {
+  if (!canWrapFor(recipientKey, kw)) {
+    throw new Error(`Recipient key cannot be used with ${kw}`);
+  }
+  if (kw === "RSA-OAEP-256") {
     return encryptCEKWithRSA(cek, recipientKey);
   }
-  if (recipientKey.algorithm.name === "ECDH") {
-    const ephemeralKey = await crypto.subtle.generateKey(
-      {
-        name: "ECDH",
-        namedCurve: (recipientKey.algorithm as EcKeyImportParams).namedCurve,
-      },
+  if (kw === "HPKE-A256GCM") {
+    return encryptCEKWithHPKE(cek, recipientKey, recipientKid);
+  }
+  if (
+    kw === "ECDH-ES+A256KW" ||
+    kw === "ECDH-ES+HKDF-256+A256KW" ||
+    kw === "ECDH+A256GCMKW"
+  ) {
+    // Same algorithm and curve as the recipient key; X25519 has no namedCurve
+    const ephemeralKey = (await crypto.subtle.generateKey(
+      recipientKey.algorithm as EcKeyGenParams,
       true,
       ["deriveKey"]
-    );
+    )) as CryptoKeyPair;
 
     // Export ephemeral public key
     const ephemeralKeyBytes = await crypto.subtle.exportKey(
@@ -63,11 +207,29 @@ export async function encryptCEK(
       ephemeralKey.publicKey
     );
 
-    const encryptedKeyBytes = await encryptCEKWithECDH(
-      cek,
-      recipientKey,
-      ephemeralKey
-    );
+    let encryptedKeyBytes: Uint8Array;
+    if (kw === "ECDH-ES+A256KW") {
+      encryptedKeyBytes = await encryptCEKWithECDHES(
+        cek,
+        recipientKey,
+        recipientKid,
+        ephemeralKey,
+        new Uint8Array(ephemeralKeyBytes)
+      );
+    } else if (kw === "ECDH-ES+HKDF-256+A256KW") {
+      encryptedKeyBytes = await encryptCEKWithECDHESHKDF(
+        cek,
+        recipientKey,
+        recipientKid,
+        ephemeralKey
+      );
+    } else {
+      encryptedKeyBytes = await encryptCEKWithECDH(
+        cek,
+        recipientKey,
+        ephemeralKey
+      );
+    }
 
     // Combine ephemeral key and encrypted data
     const result = new Uint8Array(
@@ -78,24 +240,86 @@ export async function encryptCEK(
 
     return result;
   }
-  throw new Error("Unsupported key type");
+  throw new Error(`Unsupported key wrapping algorithm: ${kw}`);
+}
+
+/**
+ * Wraps the CEK for each recipient, keyed by key ID. Anonymous envelopes key
+ * the entries by random labels instead, in an order unrelated to the
+ * recipients', so that nothing in them identifies a recipient.
+ *
+ * @param kw - Key wrapping algorithm, or a map of recipient key IDs to each
+ *   one's
+ * @returns The wrapped CEKs, and the algorithm of each, keyed alike
+ */
+export async function encryptCEKs(
+  cek: CryptoKey,
+  recipientKeys: Record<string, CryptoKey>,
+  kw: KeyWrapAlgorithm | Record<string, KeyWrapAlgorithm>,
+  anonymous = false
+): Promise<{
+  cek: Record<string, string>;
+  kws: Record<string, KeyWrapAlgorithm>;
+}> {
+  const entries: [string, string, KeyWrapAlgorithm][] = [];
+  for (const [kid, recipientKey] of Object.entries(recipientKeys)) {
+    const algorithm = typeof kw === "string" ? kw : kw[kid]!;
+    const encryptedCEK = await encryptCEK(cek, recipientKey, kid, algorithm);
+    entries.push([
+      anonymous
+        ? uint8ArrayToBase64Url(crypto.getRandomValues(new Uint8Array(8)))
+        : kid,
+      uint8ArrayToBase64(encryptedCEK),
+      algorithm,
+    ]);
+  }
+  // Random labels sort into a random order
+  if (anonymous) {
+    entries.sort(([a], [b]) => (a < b ? -1 : 1));
+  }
+  return {
+    cek: Object.fromEntries(
+      entries.map(([label, encryptedCEK]) => [label, encryptedCEK])
+    ),
+    kws: Object.fromEntries(
+      entries.map(([label, , algorithm]) => [label, algorithm])
+    ),
+  };
 }
 
 export async function signEnvelope(
-  data: { kid: string; cek: Record<string, string>; payload: string },
-  senderKey: CryptoKey
+  data: object,
+  senderKey: CryptoKey,
+  alg: SignatureAlgorithm
 ): Promise<string> {
   const canonicalString = canonicalize(data);
-  const message = new TextEncoder().encode(canonicalString);
+  return signMessage(new TextEncoder().encode(canonicalString), senderKey, alg);
+}
 
+/**
+ * Signs raw bytes with the algorithm named in the envelope header.
+ *
+ * @returns The signature, base64-encoded
+ */
+export async function signMessage(
+  message: Uint8Array,
+  senderKey: CryptoKey,
+  alg: SignatureAlgorithm
+): Promise<string> {
   let signature: Uint8Array;
-  if (senderKey.algorithm.name === "RSA-PSS") {
+  if (alg === "PS256") {
     signature = await signEnvelopeWithRSA(message, senderKey);
-  } else if (senderKey.algorithm.name === "ECDSA") {
-    signature = await signEnvelopeWithEC(message, senderKey);
+  } else if (alg === "ES256" || alg === "ES384" || alg === "ES512") {
+    signature = await signEnvelopeWithEC(
+      message,
+      senderKey,
+      ECDSA_PARAMS[alg].hash
+    );
+  } else if (alg === "EdDSA") {
+    signature = await signEnvelopeWithEdDSA(message, senderKey);
   } else {
-    throw new Error("Unsupported key type");
+    throw new Error(`Unsupported signature algorithm: ${alg}`);
   }
 
-  return btoa(String.fromCharCode(...signature));
+  return uint8ArrayToBase64(signature);
 }
@@ -0,0 +1,137 @@
+import { encodeCBOR } from "../cbor.js";
+import { computeCtx } from "../commitment.js";
+import { compress } from "../compression.js";
+import { ENVELOPE_VERSION } from "../constants.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelopeClaims,
+  type SealHiddenSenderOptions,
+} from "../types/index.js";
+import {
+  base64ToUint8Array,
+  normalizeAAD,
+  toBytes,
+  toNumericDate,
+  uint8ArrayToBase64,
+} from "../utils.js";
+
+import {
+  checkRecipients,
+  encryptCEKs,
+  encryptPayload,
+  generateCEK,
+  keyWrapAlgorithmsFor,
+  signatureAlgorithmFor,
+  signEnvelope,
+} from "./helpers.js";
+
+/**
+ * Low-level sealing function for envelopes that hide their sender. Signs
+ * the payload, then encrypts the payload and signature together for
+ * multiple recipients.
+ *
+ * The sealing process:
+ * 1. Pick the header algorithms, envelope ID and claims as for an envelope
+ * 2. Sign the header, claims, AAD, a digest of the payload and the sorted
+ *    recipient key IDs, along with the sender's key ID and algorithm
+ * 3. Encode the sender's key ID, algorithm and signature, the recipient key
+ *    IDs and the payload as CBOR
+ * 4. Generate random AES key (CEK), then compress the encoding, if asked
+ *    to, and encrypt it with CEK, binding any AAD
+ * 5. Encrypt CEK for each recipient, under a random label if recipients
+ *    are anonymous
+ * 6. Generate CTX tag committing to the CEK
+ *
+ * @param payload - String or binary data to encrypt
+ * @param senderKey - Private key for signing
+ * @param senderKid - Key ID of the signing key
+ * @param recipientKeys - Map of recipient key IDs to their public keys
+ * @param options - Per-envelope options such as associated data and validity claims
+ * @returns Sealed envelope with the sender inside the encrypted payload
+ * @throws If no recipients specified
+ */
+export async function sealHiddenSenderCore(
+  payload: string | Uint8Array,
+  senderKey: CryptoKey,
+  senderKid: string,
+  recipientKeys: Record<string, CryptoKey>,
+  options: SealHiddenSenderOptions = {}
+): Promise<HiddenSenderKeySealedEnvelope> {
+  checkRecipients(recipientKeys);
+
+  const alg = signatureAlgorithmFor(senderKey);
+  const { kw, kws } = keyWrapAlgorithmsFor(
+    recipientKeys,
+    options.kw && [options.kw]
+  );
+  const header = {
+    v: ENVELOPE_VERSION,
+    kw,
+    enc: "A256GCM",
+    ...(options.compression &&
+      options.compression !== "none" && { zip: options.compression }),
+    ...(options.anonymousRecipients && { anon: true as const }),
+    hid: true,
+  } as const;
+
+  const claims: KeySealedEnvelopeClaims = { jti: crypto.randomUUID() };
+  if (options.iat) claims.iat = toNumericDate(options.iat);
+  if (options.nbf) claims.nbf = toNumericDate(options.nbf);
+  if (options.exp) claims.exp = toNumericDate(options.exp);
+
+  const aad = normalizeAAD(options.aad);
+  const message = toBytes(payload);
+  const recipients = Object.keys(recipientKeys).sort();
+
+  // Signing the recipients stops a recipient from re-sealing the signed
+  // payload for someone else (surreptitious forwarding)
+  const digest = await crypto.subtle.digest("SHA-256", message);
+  const signature = await signEnvelope(
+    {
+      ...header,
+      ...claims,
+      alg,
+      kid: senderKid,
+      rcpt: recipients,
+      digest: uint8ArrayToBase64(new Uint8Array(digest)),
+      ...(aad && { aad: uint8ArrayToBase64(aad) }),
+    },
+    senderKey,
+    alg
+  );
+
+  const sealed = encodeCBOR({
+    alg,
+    kid: senderKid,
+    rcpt: recipients,
+    sig: base64ToUint8Array(signature),
+    msg: message,
+  });
+
+  const cek = await generateCEK();
+  const encryptedPayload = await encryptPayload(
+    header.zip ? await compress(sealed, header.zip) : sealed,
+    cek,
+    aad
+  );
+
+  const encryptedCEKs = await encryptCEKs(
+    cek,
+    recipientKeys,
+    kws ?? header.kw,
+    options.anonymousRecipients
+  );
+
+  const ctxTag = await computeCtx(cek, encryptedPayload, aad);
+
+  return {
+    ...header,
+    ...claims,
+    cek: encryptedCEKs.cek,
+    // Like the entries themselves, their algorithms are not signed; the
+    // wrapping is authenticated, and the CTX tag commits to the CEK
+    ...(kws && { kws: encryptedCEKs.kws }),
+    payload: uint8ArrayToBase64(encryptedPayload),
+    ctx: uint8ArrayToBase64(ctxTag),
+  };
+}
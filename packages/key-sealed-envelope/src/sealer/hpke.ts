@@ -0,0 +1,28 @@
+import { HPKE_INFO_STRING } from "../constants.js";
+import { hpkeSeal } from "../hpke.js";
+
+/**
+ * Encrypts a content encryption key using HPKE Base mode
+ * @param cek - Content encryption key to protect
+ * @param recipientKey - Recipient's P-256 or X25519 public key
+ * @param recipientKid - Recipient's key ID, bound in as the AEAD associated data
+ * @returns Encapsulated key followed by the encrypted CEK
+ */
+export async function encryptCEKWithHPKE(
+  cek: CryptoKey,
+  recipientKey: CryptoKey,
+  recipientKid: string
+): Promise<Uint8Array> {
+  const exportedCEK = new Uint8Array(await crypto.subtle.exportKey("raw", cek));
+  const { enc, ciphertext } = await hpkeSeal(
+    recipientKey,
+    new TextEncoder().encode(HPKE_INFO_STRING),
+    new TextEncoder().encode(recipientKid),
+    exportedCEK
+  );
+
+  const result = new Uint8Array(enc.length + ciphertext.length);
+  result.set(enc);
+  result.set(ciphertext, enc.length);
+  return result;
+}
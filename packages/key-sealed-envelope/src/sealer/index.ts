@@ -1,3 +1,8 @@
 export { ECSealer } from "./ec-sealer.js";
+export { OKPSealer } from "./okp-sealer.js";
 export { RSASealer } from "./rsa-sealer.js";
+export { addRecipientsCore } from "./add-recipients.js";
 export { sealCore } from "./core.js";
+export { sealHiddenSenderCore } from "./hidden-sender.js";
+export { rekeyCore } from "./rekey.js";
+export { sealStreamCore } from "./stream.js";
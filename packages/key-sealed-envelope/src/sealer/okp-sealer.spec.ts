@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+} from "../types/index.js";
+
+import { OKPSealer } from "./okp-sealer.js";
+
+// Generate test keys
+const senderKeyPair = (await crypto.subtle.generateKey(
+  { name: "Ed25519" },
+  true,
+  ["sign", "verify"]
+)) as CryptoKeyPair;
+
+const recipient1KeyPair = (await crypto.subtle.generateKey(
+  { name: "X25519" },
+  true,
+  ["deriveKey"]
+)) as CryptoKeyPair;
+
+const recipient2KeyPair = (await crypto.subtle.generateKey(
+  { name: "X25519" },
+  true,
+  ["deriveKey"]
+)) as CryptoKeyPair;
+
+async function keyToPrivateJWK(
+  key: CryptoKey,
+  kid: string
+): Promise<OKPPrivateNamedJWK> {
+  const jwk = await crypto.subtle.exportKey("jwk", key);
+  return { ...jwk, kid } as OKPPrivateNamedJWK;
+}
+
+async function keyToPublicJWK(
+  key: CryptoKey,
+  kid: string
+): Promise<OKPPublicNamedJWK> {
+  const jwk = await crypto.subtle.exportKey("jwk", key);
+  return { ...jwk, kid } as OKPPublicNamedJWK;
+}
+
+// Convert keys to JWKs
+const senderPrivateJWK = await keyToPrivateJWK(
+  senderKeyPair.privateKey,
+  "sender1"
+);
+const recipient1PublicJWK = await keyToPublicJWK(
+  recipient1KeyPair.publicKey,
+  "recipient1"
+);
+const recipient2PublicJWK = await keyToPublicJWK(
+  recipient2KeyPair.publicKey,
+  "recipient2"
+);
+
+describe("OKPSealer", () => {
+  describe("creation", () => {
+    it("creates instance with valid keys", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipient1PublicJWK,
+      ]);
+      expect(sealer).toBeInstanceOf(OKPSealer);
+    });
+
+    it("rejects an X25519 signing key", async () => {
+      const signingJWK = await keyToPrivateJWK(
+        recipient1KeyPair.privateKey,
+        "sender1"
+      );
+
+      await expect(
+        OKPSealer.create(signingJWK, [recipient1PublicJWK])
+      ).rejects.toThrow("Signing key must be an Ed25519 key");
+    });
+
+    it("rejects an Ed25519 recipient key", async () => {
+      const recipientJWK = await keyToPublicJWK(
+        senderKeyPair.publicKey,
+        "recipient1"
+      );
+
+      await expect(
+        OKPSealer.create(senderPrivateJWK, [recipientJWK])
+      ).rejects.toThrow("Recipient keys must be X25519 keys");
+    });
+  });
+
+  describe("sealing", () => {
+    it("seals for multiple recipients", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, {
+        keys: [recipient1PublicJWK, recipient2PublicJWK],
+      });
+
+      const envelope = await sealer.seal("test message", [
+        "recipient1",
+        "recipient2",
+      ]);
+
+      expect(envelope.alg).toBe("EdDSA");
+      expect(envelope.kw).toBe("ECDH-ES+A256KW");
+      expect(Object.keys(envelope.cek)).toEqual(["recipient1", "recipient2"]);
+    });
+
+    it("rejects unknown recipient", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipient1PublicJWK,
+      ]);
+
+      await expect(sealer.seal("test message", ["unknown"])).rejects.toThrow(
+        "Unknown recipient: unknown"
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { SigningKeyRing } from "../key-ring/signing-key-ring.js";
+import { importDecryptionKey, importVerificationKeys } from "../keys.js";
+import {
+  type OKPPublicNamedJWKS,
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+} from "../types/index.js";
+import {
+  type AddRecipientsOptions,
+  type ByteSource,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type RekeyOptions,
+  type SealHiddenSenderOptions,
+  type SealOptions,
+  type SealStreamOptions,
+} from "../types/index.js";
+
+import { addRecipientsCore } from "./add-recipients.js";
+import { sealCore } from "./core.js";
+import { sealHiddenSenderCore } from "./hidden-sender.js";
+import { rekeyCore } from "./rekey.js";
+import { sealStreamCore } from "./stream.js";
+
+/**
+ * Encrypts and signs messages using Curve25519 (OKP) keys.
+ *
+ * Uses Ed25519 for signing (your private key) and X25519 for key exchange
+ * with per-message ephemeral keys (recipient public keys).
+ *
+ * @example
+ * const sealer = await OKPSealer.create(yourEd25519JWK, [recipientX25519JWKs]);
+ * const envelope = await sealer.seal("secret stuff", ["recipient1"]);
+ */
+export class OKPSealer {
+  private readonly signingKeys: SigningKeyRing<OKPPrivateNamedJWK>;
+  private readonly recipientKeys: Map<string, CryptoKey>;
+
+  private constructor(
+    signingKeys: SigningKeyRing<OKPPrivateNamedJWK>,
+    recipientKeys: Map<string, CryptoKey>
+  ) {
+    this.signingKeys = signingKeys;
+    this.recipientKeys = recipientKeys;
+  }
+
+  /**
+   * Creates a new OKPSealer instance.
+   * @param signingKeys - Your Ed25519 private key for signing, or a ring of
+   *   them to sign with whichever is active when sealing
+   * @param recipientKeys - Array of recipient X25519 public keys or JWKS for encryption
+   * @returns New OKPSealer instance
+   * @throws If the signing key is not Ed25519 or a recipient key is not X25519
+   */
+  static async create(
+    signingKeys: OKPPrivateNamedJWK | SigningKeyRing<OKPPrivateNamedJWK>,
+    recipientKeys: OKPPublicNamedJWK[] | OKPPublicNamedJWKS
+  ): Promise<OKPSealer> {
+    if (
+      !(signingKeys instanceof SigningKeyRing) &&
+      signingKeys.crv !== "Ed25519"
+    ) {
+      throw new Error("Signing key must be an Ed25519 key");
+    }
+
+    const ring =
+      signingKeys instanceof SigningKeyRing
+        ? signingKeys
+        : await SigningKeyRing.create([{ jwk: signingKeys }]);
+
+    const recipientJwks = Array.isArray(recipientKeys)
+      ? recipientKeys
+      : recipientKeys.keys;
+
+    const recipientKeyMap = new Map();
+    for (const jwk of recipientJwks) {
+      if (jwk.crv !== "X25519") {
+        throw new Error("Recipient keys must be X25519 keys");
+      }
+
+      const recipientKey = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        { name: "X25519" },
+        true,
+        []
+      );
+      recipientKeyMap.set(jwk.kid, recipientKey);
+    }
+
+    return new OKPSealer(ring, recipientKeyMap);
+  }
+
+  /**
+   * Seals a message for specified recipients.
+   *
+   * @param payload - String or binary data to encrypt
+   * @param recipientKids - Array of recipient key IDs to encrypt for
+   * @param options - Per-envelope options such as associated data
+   * @returns Sealed envelope containing encrypted data and signature
+   * @throws If any recipient kid is unknown
+   */
+  async seal(
+    payload: string | Uint8Array,
+    recipientKids: string[],
+    options: SealOptions = {}
+  ): Promise<KeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await sealCore(
+      payload,
+      signingKey.privateKey,
+      signingKey.kid,
+      this.recipientKeysFor(recipientKids),
+      options
+    );
+  }
+
+  /**
+   * Seals a message for specified recipients without revealing the sender.
+   * The sender's key ID and signature are encrypted with the payload, so
+   * only recipients learn who sent it.
+   *
+   * @param payload - String or binary data to encrypt
+   * @param recipientKids - Array of recipient key IDs to encrypt for
+   * @param options - Per-envelope options such as associated data
+   * @returns Sealed envelope with the sender inside the encrypted payload
+   * @throws If any recipient kid is unknown
+   */
+  async sealHiddenSender(
+    payload: string | Uint8Array,
+    recipientKids: string[],
+    options: SealHiddenSenderOptions = {}
+  ): Promise<HiddenSenderKeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await sealHiddenSenderCore(
+      payload,
+      signingKey.privateKey,
+      signingKey.kid,
+      this.recipientKeysFor(recipientKids),
+      options
+    );
+  }
+
+  /**
+   * Seals a stream for specified recipients, encrypting it a segment at a
+   * time so that payloads of any size can be sealed in bounded memory.
+   *
+   * @param input - Plaintext to encrypt, as a stream or async iterable
+   * @param recipientKids - Array of recipient key IDs to encrypt for
+   * @param options - Per-stream options such as associated data and segment size
+   * @returns The sealed stream
+   * @throws If any recipient kid is unknown
+   */
+  async sealStream(
+    input: ByteSource,
+    recipientKids: string[],
+    options: SealStreamOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const signingKey = this.signingKey();
+    return await sealStreamCore(
+      input,
+      signingKey.privateKey,
+      signingKey.kid,
+      this.recipientKeysFor(recipientKids),
+      options
+    );
+  }
+
+  /**
+   * Adds recipients to an envelope without re-encrypting its payload, e.g.
+   * to give a new worker pool or auditor access to stored envelopes. The
+   * CEK is recovered with your key as one of its recipients, wrapped for
+   * the new recipients, and the envelope is signed afresh with your signing
+   * key, so recipients must trust it as a sender. The envelope must first
+   * verify against one of `senderKeys`, and its original sender and
+   * signature are recorded as provenance.
+   *
+   * @param envelope - The sealed envelope to add recipients to
+   * @param options - The trusted senders' public keys, your recipient key,
+   *   the key IDs to add, and the associated data the envelope was sealed
+   *   with, if any
+   * @returns A copy of the envelope for its old and new recipients
+   * @throws If any new recipient kid is unknown or already a recipient, the
+   *   envelope is not a native v2 envelope, hides its sender or fails
+   *   verification, or your key cannot recover its CEK
+   */
+  async addRecipients(
+    envelope: KeySealedEnvelope | HiddenSenderKeySealedEnvelope,
+    options: AddRecipientsOptions
+  ): Promise<KeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await addRecipientsCore(
+      envelope,
+      signingKey.privateKey,
+      signingKey.kid,
+      await importDecryptionKey(options.ownPrivateKey),
+      options.ownPrivateKey.kid,
+      this.recipientKeysFor(options.newRecipientKids),
+      await importVerificationKeys(options.senderKeys),
+      options
+    );
+  }
+
+  /**
+   * Re-keys an envelope for a new set of recipients, e.g. to drop a revoked
+   * key from archived envelopes. The payload is re-encrypted under a fresh
+   * CEK recovered by no other key, and the new envelope is signed with your
+   * signing key, with a provenance record naming the original sender and
+   * signature. The envelope must first verify against one of `senderKeys`.
+   *
+   * @param envelope - The sealed envelope to re-key
+   * @param options - The trusted senders' public keys, your recipient key,
+   *   the new envelope's recipient key IDs, and the associated data the
+   *   envelope was sealed with, if any
+   * @returns The re-keyed envelope
+   * @throws If any recipient kid is unknown, the envelope is not a native
+   *   v2 envelope, hides its sender or fails verification, or your key
+   *   cannot recover its CEK
+   */
+  async rekeyEnvelope(
+    envelope: KeySealedEnvelope | HiddenSenderKeySealedEnvelope,
+    options: RekeyOptions
+  ): Promise<KeySealedEnvelope> {
+    const signingKey = this.signingKey();
+    return await rekeyCore(
+      envelope,
+      signingKey.privateKey,
+      signingKey.kid,
+      await importDecryptionKey(options.ownPrivateKey),
+      options.ownPrivateKey.kid,
+      this.recipientKeysFor(options.recipientKids),
+      await importVerificationKeys(options.senderKeys),
+      options
+    );
+  }
+
+  private signingKey(): { kid: string; privateKey: CryptoKey } {
+    return this.signingKeys.activeKey();
+  }
+
+  private recipientKeysFor(recipientKids: string[]): Record<string, CryptoKey> {
+    const recipientKeyMap: Record<string, CryptoKey> = {};
+    for (const kid of recipientKids) {
+      const key = this.recipientKeys.get(kid);
+      if (!key) {
+        throw new Error(`Unknown recipient: ${kid}`);
+      }
+      recipientKeyMap[kid] = key;
+    }
+    return recipientKeyMap;
+  }
+}
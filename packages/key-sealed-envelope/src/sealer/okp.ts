@@ -0,0 +1,14 @@
+/**
+ * Signs envelope contents using Ed25519
+ * @param message - Message bytes to sign
+ * @param senderKey - Private key for signing
+ * @returns Digital signature as bytes
+ */
+export async function signEnvelopeWithEdDSA(
+  message: Uint8Array,
+  senderKey: CryptoKey
+): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.sign({ name: "Ed25519" }, senderKey, message)
+  );
+}
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+
+import { importDecryptionKey } from "../keys.js";
+import {
+  type ECPrivateNamedJWK,
+  type ECPublicNamedJWK,
+  type EnvelopeProvenance,
+} from "../types/index.js";
+import { ECUnsealer } from "../unsealer/ec-unsealer.js";
+import { decryptCEK, decryptPayload } from "../unsealer/helpers.js";
+import { base64ToUint8Array } from "../utils.js";
+import { EnvelopeVerifier } from "../verifier/envelope-verifier.js";
+
+import { ECSealer } from "./ec-sealer.js";
+
+async function generateJWKs(usage: "sign" | "deriveKey", kid: string) {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: usage === "sign" ? "ECDSA" : "ECDH", namedCurve: "P-256" },
+    true,
+    usage === "sign" ? ["sign", "verify"] : ["deriveKey"]
+  );
+  return {
+    privateJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid,
+    } as ECPrivateNamedJWK,
+    publicJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid,
+    } as ECPublicNamedJWK,
+  };
+}
+
+const sender = await generateJWKs("sign", "service");
+const operatorSigner = await generateJWKs("sign", "operator");
+const archive = await generateJWKs("deriveKey", "archive");
+const worker = await generateJWKs("deriveKey", "worker");
+const revoked = await generateJWKs("deriveKey", "revoked");
+
+const sealer = await ECSealer.create(sender.privateJWK, [
+  archive.publicJWK,
+  worker.publicJWK,
+  revoked.publicJWK,
+]);
+const operator = await ECSealer.create(operatorSigner.privateJWK, [
+  archive.publicJWK,
+  worker.publicJWK,
+]);
+
+const senderKeys = [sender.publicJWK, operatorSigner.publicJWK];
+const verifier = await EnvelopeVerifier.create(senderKeys);
+
+describe("rekeyEnvelope", () => {
+  it("re-encrypts the payload under a fresh CEK for the new recipients", async () => {
+    const envelope = await sealer.seal("hello", ["archive", "revoked"], {
+      exp: new Date(Date.now() + 60_000),
+    });
+
+    const rekeyed = await operator.rekeyEnvelope(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["archive", "worker"],
+    });
+
+    expect(Object.keys(rekeyed.cek)).toEqual(["archive", "worker"]);
+    expect(rekeyed.cek.archive).not.toBe(envelope.cek.archive);
+    expect(rekeyed.ctx).not.toBe(envelope.ctx);
+    // A fresh IV, as well as a fresh CEK
+    expect(base64ToUint8Array(rekeyed.payload).subarray(0, 12)).not.toEqual(
+      base64ToUint8Array(envelope.payload).subarray(0, 12)
+    );
+    expect(rekeyed).toMatchObject({ kid: "operator", exp: envelope.exp });
+    expect(rekeyed.jti).not.toBe(envelope.jti);
+
+    for (const recipient of [archive, worker]) {
+      const unsealer = await ECUnsealer.create(
+        recipient.privateJWK,
+        senderKeys
+      );
+      expect(new TextDecoder().decode(await unsealer.unseal(rekeyed))).toBe(
+        "hello"
+      );
+    }
+  });
+
+  it("keeps a revoked key's old CEK entry from opening the new envelope", async () => {
+    const envelope = await sealer.seal("hello", ["archive", "revoked"]);
+
+    const rekeyed = await operator.rekeyEnvelope(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["archive"],
+    });
+
+    const revokedKey = await importDecryptionKey(revoked.privateJWK);
+    const oldCEK = await decryptCEK(
+      envelope.cek.revoked!,
+      revokedKey,
+      "revoked",
+      envelope.kw
+    );
+    await expect(decryptPayload(rekeyed.payload, oldCEK)).rejects.toThrow();
+  });
+
+  it("records signed provenance", async () => {
+    const envelope = await sealer.seal("hello", ["archive"]);
+
+    const rekeyed = await operator.rekeyEnvelope(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["worker"],
+    });
+
+    const provenance: EnvelopeProvenance = {
+      kid: "service",
+      alg: "ES256",
+      signature: envelope.signature,
+      jti: envelope.jti!,
+    };
+    expect(rekeyed.prov).toEqual(provenance);
+    expect((await verifier.verify(rekeyed)).prov).toEqual(provenance);
+    await expect(
+      verifier.verify({ ...rekeyed, prov: { ...provenance, kid: "other" } })
+    ).rejects.toThrow("Invalid envelope signature");
+    await expect(
+      verifier.verify({ ...rekeyed, prov: "service" } as never)
+    ).rejects.toThrow("Malformed envelope");
+  });
+
+  it("re-keys archived envelopes that have expired", async () => {
+    const issued = new Date(Date.now() - 2 * 3600_000);
+    const envelope = await sealer.seal("hello", ["archive", "revoked"], {
+      iat: issued,
+      exp: new Date(Date.now() - 3600_000),
+    });
+
+    const rekeyed = await operator.rekeyEnvelope(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["archive"],
+    });
+
+    // Re-keying does not extend the envelope's validity
+    expect(rekeyed).toMatchObject({ iat: envelope.iat, exp: envelope.exp });
+    const unsealer = await ECUnsealer.create(archive.privateJWK, senderKeys);
+    await expect(unsealer.unseal(rekeyed)).rejects.toThrow(
+      "Envelope has expired"
+    );
+    // Archive readers set the clock to when the envelope was valid
+    const archiveReader = await ECUnsealer.create(
+      archive.privateJWK,
+      senderKeys,
+      { clock: () => issued }
+    );
+    expect(new TextDecoder().decode(await archiveReader.unseal(rekeyed))).toBe(
+      "hello"
+    );
+  });
+
+  it("only vouches for envelopes whose signature verifies", async () => {
+    // Anyone with the archive's public key can seal an envelope for it
+    const forger = await generateJWKs("sign", "service");
+    const forgerSealer = await ECSealer.create(forger.privateJWK, [
+      archive.publicJWK,
+    ]);
+    const stranger = await ECSealer.create(
+      (await generateJWKs("sign", "stranger")).privateJWK,
+      [archive.publicJWK]
+    );
+    const options = {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["worker"],
+    };
+    const envelope = await sealer.seal("hello", ["archive"]);
+
+    await expect(
+      operator.rekeyEnvelope(
+        await forgerSealer.seal("forged", ["archive"]),
+        options
+      )
+    ).rejects.toThrow("Invalid envelope signature");
+    await expect(
+      operator.rekeyEnvelope(await stranger.seal("hello", ["archive"]), options)
+    ).rejects.toThrow("Unknown sender key");
+    // A signature lifted from another envelope is not recorded either
+    const other = await sealer.seal("goodbye", ["archive"]);
+    await expect(
+      operator.rekeyEnvelope(
+        { ...envelope, signature: other.signature },
+        options
+      )
+    ).rejects.toThrow("Invalid envelope signature");
+  });
+
+  it("keeps the associated data, compression and anonymity", async () => {
+    const envelope = await sealer.seal("hello ".repeat(100), ["archive"], {
+      aad: "tenant-1",
+      compression: "gzip",
+      anonymousRecipients: true,
+    });
+
+    const rekeyed = await operator.rekeyEnvelope(envelope, {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["worker"],
+      aad: "tenant-1",
+    });
+
+    expect(rekeyed).toMatchObject({ zip: "gzip", anon: true });
+    expect(Object.keys(rekeyed.cek)).not.toContain("worker");
+    const unsealer = await ECUnsealer.create(worker.privateJWK, senderKeys);
+    expect(
+      new TextDecoder().decode(
+        await unsealer.unseal(rekeyed, { aad: "tenant-1" })
+      )
+    ).toBe("hello ".repeat(100));
+  });
+
+  it("rejects envelopes it cannot re-key", async () => {
+    const options = {
+      senderKeys: [sender.publicJWK],
+      ownPrivateKey: archive.privateJWK,
+      recipientKids: ["worker"],
+    };
+
+    await expect(
+      operator.rekeyEnvelope(await sealer.seal("hello", ["worker"]), options)
+    ).rejects.toThrow("Not a recipient of this envelope");
+    await expect(
+      operator.rekeyEnvelope(
+        await sealer.seal("hello", ["archive"], { fmt: "cose" }),
+        options
+      )
+    ).rejects.toThrow("Re-keying is not supported with cose");
+    await expect(
+      operator.rekeyEnvelope(
+        await sealer.sealHiddenSender("hello", ["archive"]),
+        options
+      )
+    ).rejects.toThrow("Envelopes with a hidden sender cannot be re-keyed");
+  });
+});
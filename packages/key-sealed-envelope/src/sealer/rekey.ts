@@ -0,0 +1,158 @@
+import { computeCtx } from "../commitment.js";
+import { ENVELOPE_VERSION } from "../constants.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type UnsealerOptions,
+  type UnsealOptions,
+  type VerifierOptions,
+} from "../types/index.js";
+import {
+  decryptPayload,
+  isHiddenSenderEnvelope,
+  recoverCEK,
+  signedEnvelopeContents,
+} from "../unsealer/helpers.js";
+import { normalizeAAD, uint8ArrayToBase64 } from "../utils.js";
+import { verifyCore } from "../verifier/core.js";
+
+import {
+  checkRecipients,
+  encryptCEKs,
+  encryptPayload,
+  generateCEK,
+  keyWrapAlgorithmsFor,
+  signatureAlgorithmFor,
+  signEnvelope,
+} from "./helpers.js";
+
+/**
+ * Low-level envelope re-keying function. Re-encrypts an envelope's payload
+ * under a fresh CEK for a new set of recipients, so that keys left out of
+ * it, such as revoked ones, cannot unwrap anything in the result.
+ *
+ * The re-keying process:
+ * 1. Verify the envelope with `verifyCore` against the senders' public
+ *    keys, so that the provenance record only names a signature that holds.
+ *    Its validity window is not checked, as archived envelopes that have
+ *    since expired must still be re-keyed when a key is revoked
+ * 2. Recover the CEK with the key of one of the envelope's recipients, and
+ *    check the CTX tag against it
+ * 3. Decrypt the payload; compressed payloads stay compressed
+ * 4. Generate a fresh CEK and encrypt the payload with it under a fresh IV,
+ *    binding the same AAD
+ * 5. Encrypt the new CEK for each recipient with the algorithm the
+ *    envelope used for its key type, under a random label if recipients are
+ *    anonymous, and commit to it with a new CTX tag
+ * 6. Record the original envelope's sender, signature and ID as provenance
+ * 7. Sign the new envelope, with a new ID and the original validity claims.
+ *    An expired envelope stays expired once re-keyed: re-keying changes who
+ *    can read it, not how long it is valid
+ *
+ * @param envelope - The sealed envelope to re-key
+ * @param senderKey - Private key to sign the new envelope with
+ * @param senderKid - Key ID of the signing key
+ * @param ownKey - Private key of one of the envelope's recipients
+ * @param ownKid - Key ID of that recipient key
+ * @param recipientKeys - Map of the new envelope's recipient key IDs to
+ *   their public keys
+ * @param senderKeys - Map of the original senders' key IDs to their public
+ *   keys, to verify the envelope with
+ * @param options - The associated data the envelope was sealed with, if
+ *   any, plus a signature policy
+ * @returns The re-keyed envelope, signed by `senderKid`
+ * @throws If the envelope is not a native v2 envelope or hides its sender,
+ *   fails verification, the CEK cannot be recovered, or the CTX tag does
+ *   not match
+ */
+export async function rekeyCore(
+  envelope: KeySealedEnvelope | HiddenSenderKeySealedEnvelope,
+  senderKey: CryptoKey,
+  senderKid: string,
+  ownKey: CryptoKey,
+  ownKid: string,
+  recipientKeys: Record<string, CryptoKey>,
+  senderKeys: Record<string, CryptoKey>,
+  options: UnsealOptions &
+    Pick<VerifierOptions, "signaturePolicy"> &
+    Pick<UnsealerOptions, "maxRecipientAttempts"> = {}
+): Promise<KeySealedEnvelope> {
+  // JSON input may carry any version, whatever the type says
+  const version: number | undefined = envelope.v;
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error("Only v2 envelopes can be re-keyed");
+  }
+  // There is no sender signature outside the ciphertext to link back to
+  if (isHiddenSenderEnvelope(envelope)) {
+    throw new Error("Envelopes with a hidden sender cannot be re-keyed");
+  }
+  // Neither JWE nor COSE has a place for the provenance record
+  if (envelope.fmt) {
+    throw new Error(`Re-keying is not supported with ${envelope.fmt}`);
+  }
+  // The provenance record vouches for the original signature
+  await verifyCore(envelope, senderKeys, {
+    ...options,
+    ignoreValidityWindow: true,
+  });
+  checkRecipients(recipientKeys);
+
+  const aad = normalizeAAD(options.aad);
+  const anonymous = envelope.anon === true;
+
+  const oldCEK = await recoverCEK(
+    envelope,
+    ownKey,
+    ownKid,
+    aad,
+    options.maxRecipientAttempts
+  );
+  const plaintext = await decryptPayload(envelope.payload, oldCEK, aad);
+
+  const cek = await generateCEK();
+  const encryptedPayload = await encryptPayload(plaintext, cek, aad);
+  const { kw, kws } = keyWrapAlgorithmsFor(recipientKeys, [
+    envelope.kw,
+    ...Object.values(envelope.kws ?? {}),
+  ]);
+  const encryptedCEKs = await encryptCEKs(
+    cek,
+    recipientKeys,
+    kws ?? kw,
+    anonymous
+  );
+  const ctxTag = await computeCtx(cek, encryptedPayload, aad);
+
+  const rekeyed = {
+    v: envelope.v,
+    alg: signatureAlgorithmFor(senderKey),
+    kw,
+    enc: envelope.enc,
+    ...(envelope.zip && { zip: envelope.zip }),
+    ...(anonymous && { anon: true as const }),
+    jti: crypto.randomUUID(),
+    ...(envelope.iat !== undefined && { iat: envelope.iat }),
+    ...(envelope.nbf !== undefined && { nbf: envelope.nbf }),
+    ...(envelope.exp !== undefined && { exp: envelope.exp }),
+    kid: senderKid,
+    cek: encryptedCEKs.cek,
+    ...(kws && { kws: encryptedCEKs.kws }),
+    payload: uint8ArrayToBase64(encryptedPayload),
+    ctx: uint8ArrayToBase64(ctxTag),
+    prov: {
+      kid: envelope.kid,
+      alg: envelope.alg,
+      signature: envelope.signature,
+      ...(envelope.jti !== undefined && { jti: envelope.jti }),
+    },
+  };
+
+  return {
+    ...rekeyed,
+    signature: await signEnvelope(
+      signedEnvelopeContents(rekeyed, aad),
+      senderKey,
+      rekeyed.alg
+    ),
+  };
+}
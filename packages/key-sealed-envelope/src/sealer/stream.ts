@@ -0,0 +1,172 @@
+import { computeStreamCtx } from "../commitment.js";
+import {
+  DEFAULT_SEGMENT_SIZE,
+  ENVELOPE_VERSION,
+  MAX_SEGMENT_SIZE,
+} from "../constants.js";
+import {
+  chainDigest,
+  frameRecord,
+  NONCE_PREFIX_LENGTH,
+  segmentNonce,
+  segmentsOf,
+  STREAM_MARKER,
+  toReadableStream,
+} from "../stream.js";
+import {
+  type ByteSource,
+  type KeySealedEnvelopeClaims,
+  type KeySealedStreamHeader,
+  type SealStreamOptions,
+} from "../types/index.js";
+import {
+  base64ToUint8Array,
+  concatUint8Arrays as concat,
+  normalizeAAD,
+  toNumericDate,
+  uint8ArrayToBase64,
+} from "../utils.js";
+
+import {
+  checkRecipients,
+  encryptCEKs,
+  generateCEK,
+  keyWrapAlgorithmsFor,
+  signatureAlgorithmFor,
+  signEnvelope,
+} from "./helpers.js";
+
+/**
+ * Low-level stream sealing function. Encrypts a stream of any length for
+ * multiple recipients in fixed-size segments, holding about one segment in
+ * memory at a time.
+ *
+ * The sealing process:
+ * 1. Pick the header algorithms, envelope ID and claims as for an envelope
+ * 2. Generate random AES key (CEK) and nonce prefix
+ * 3. Encrypt CEK for each recipient, under a random label if recipients
+ *    are anonymous
+ * 4. Generate CTX tag committing to the CEK, nonce prefix and AAD
+ * 5. Sign and write the header
+ * 6. Encrypt and write each segment, its nonce numbering it and marking the
+ *    last one
+ * 7. Sign a digest of every segment, and write the signature
+ *
+ * Everything up to the header is done before this function returns, so
+ * errors in the recipients or options reject it; errors reading the input
+ * error the returned stream.
+ *
+ * @param input - Plaintext to encrypt
+ * @param senderKey - Private key for signing
+ * @param senderKid - Key ID of the signing key
+ * @param recipientKeys - Map of recipient key IDs to their public keys
+ * @param options - Per-stream options such as associated data and segment size
+ * @returns The sealed stream
+ * @throws If no recipients specified or the segment size is out of range
+ */
+export async function sealStreamCore(
+  input: ByteSource,
+  senderKey: CryptoKey,
+  senderKid: string,
+  recipientKeys: Record<string, CryptoKey>,
+  options: SealStreamOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  checkRecipients(recipientKeys);
+
+  const segmentSize = options.segmentSize ?? DEFAULT_SEGMENT_SIZE;
+  if (
+    !Number.isInteger(segmentSize) ||
+    segmentSize < 1 ||
+    segmentSize > MAX_SEGMENT_SIZE
+  ) {
+    throw new Error(`Segment size must be between 1 and ${MAX_SEGMENT_SIZE}`);
+  }
+
+  const alg = signatureAlgorithmFor(senderKey);
+  const { kw, kws } = keyWrapAlgorithmsFor(
+    recipientKeys,
+    options.kw && [options.kw]
+  );
+
+  const claims: KeySealedEnvelopeClaims = { jti: crypto.randomUUID() };
+  if (options.iat) claims.iat = toNumericDate(options.iat);
+  if (options.nbf) claims.nbf = toNumericDate(options.nbf);
+  if (options.exp) claims.exp = toNumericDate(options.exp);
+
+  const aad = normalizeAAD(options.aad);
+
+  const cek = await generateCEK();
+  const noncePrefix = crypto.getRandomValues(
+    new Uint8Array(NONCE_PREFIX_LENGTH)
+  );
+
+  const encryptedCEKs = await encryptCEKs(
+    cek,
+    recipientKeys,
+    kws ?? kw,
+    options.anonymousRecipients
+  );
+
+  const ctxTag = await computeStreamCtx(cek, noncePrefix, aad);
+
+  const contents = {
+    v: ENVELOPE_VERSION,
+    alg,
+    kw,
+    enc: "A256GCM",
+    ...(options.anonymousRecipients && { anon: true as const }),
+    seg: segmentSize,
+    ...claims,
+    kid: senderKid,
+    cek: encryptedCEKs.cek,
+    ...(kws && { kws: encryptedCEKs.kws }),
+    nonce: uint8ArrayToBase64(noncePrefix),
+    ctx: uint8ArrayToBase64(ctxTag),
+  } as const;
+  const header: KeySealedStreamHeader = {
+    ...contents,
+    signature: await signEnvelope(
+      aad ? { ...contents, aad: uint8ArrayToBase64(aad) } : contents,
+      senderKey,
+      alg
+    ),
+  };
+
+  async function* records(): AsyncGenerator<Uint8Array> {
+    yield concat(
+      STREAM_MARKER,
+      frameRecord(new TextEncoder().encode(JSON.stringify(header)))
+    );
+
+    let digest: Uint8Array = new Uint8Array(32);
+    let index = 0;
+    for await (const { plaintext, last } of segmentsOf(input, segmentSize)) {
+      const ciphertext = await crypto.subtle.encrypt(
+        {
+          name: "AES-GCM",
+          iv: segmentNonce(noncePrefix, index++, last),
+          ...(aad && { additionalData: aad }),
+        },
+        cek,
+        plaintext
+      );
+      const record = concat(
+        new Uint8Array([last ? 1 : 0]),
+        new Uint8Array(ciphertext)
+      );
+      digest = await chainDigest(digest, record);
+      yield frameRecord(record);
+    }
+
+    // The closing signature covers the segments, and through the header
+    // signature, the header they belong to
+    const signature = await signEnvelope(
+      { digest: uint8ArrayToBase64(digest), signature: header.signature },
+      senderKey,
+      alg
+    );
+    yield frameRecord(base64ToUint8Array(signature));
+  }
+
+  return toReadableStream(records());
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import { OKPSealer } from "./sealer/okp-sealer.js";
+import { deserializeEnvelope, serializeEnvelope } from "./serialization.js";
+import {
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+} from "./types/index.js";
+import { OKPUnsealer } from "./unsealer/okp-unsealer.js";
+
+const senderKeyPair = (await crypto.subtle.generateKey(
+  { name: "Ed25519" },
+  true,
+  ["sign", "verify"]
+)) as CryptoKeyPair;
+
+const recipientKeyPair = (await crypto.subtle.generateKey(
+  { name: "X25519" },
+  true,
+  ["deriveKey"]
+)) as CryptoKeyPair;
+
+const senderPrivateJWK = {
+  ...(await crypto.subtle.exportKey("jwk", senderKeyPair.privateKey)),
+  kid: "sender1",
+} as OKPPrivateNamedJWK;
+const senderPublicJWK = {
+  ...(await crypto.subtle.exportKey("jwk", senderKeyPair.publicKey)),
+  kid: "sender1",
+} as OKPPublicNamedJWK;
+const recipientPrivateJWK = {
+  ...(await crypto.subtle.exportKey("jwk", recipientKeyPair.privateKey)),
+  kid: "recipient1",
+} as OKPPrivateNamedJWK;
+const recipientPublicJWK = {
+  ...(await crypto.subtle.exportKey("jwk", recipientKeyPair.publicKey)),
+  kid: "recipient1",
+} as OKPPublicNamedJWK;
+
+const sealer = await OKPSealer.create(senderPrivateJWK, [recipientPublicJWK]);
+const unsealer = await OKPUnsealer.create(recipientPrivateJWK, [
+  senderPublicJWK,
+]);
+
+describe("envelope serialization", () => {
+  it("round-trips the binary encoding", async () => {
+    const envelope = await sealer.seal("test message", ["recipient1"], {
+      exp: new Date(Date.now() + 60_000),
+    });
+
+    const bytes = serializeEnvelope(envelope);
+    expect(deserializeEnvelope(bytes)).toEqual(envelope);
+
+    const decrypted = await unsealer.unseal(bytes);
+    expect(new TextDecoder().decode(decrypted)).toBe("test message");
+  });
+
+  it("is smaller than the JSON encoding", async () => {
+    const envelope = await sealer.seal("x".repeat(1000), ["recipient1"]);
+
+    const binary = serializeEnvelope(envelope, "binary");
+    const json = serializeEnvelope(envelope, "json");
+    expect(binary.length).toBeLessThan(json.length * 0.8);
+  });
+
+  it("accepts the JSON encoding", async () => {
+    const envelope = await sealer.seal("test message", ["recipient1"]);
+
+    const bytes = serializeEnvelope(envelope, "json");
+    expect(JSON.parse(new TextDecoder().decode(bytes))).toEqual(envelope);
+
+    const decrypted = await unsealer.unseal(bytes);
+    expect(new TextDecoder().decode(decrypted)).toBe("test message");
+  });
+
+  it("accepts JSON with leading whitespace or a byte order mark", async () => {
+    const envelope = await sealer.seal("test message", ["recipient1"]);
+    const json = JSON.stringify(envelope, null, 2);
+
+    for (const text of [`\n  ${json}`, `\uFEFF${json}`, `\uFEFF\r\n${json}`]) {
+      const bytes = new TextEncoder().encode(text);
+      expect(deserializeEnvelope(bytes)).toEqual(envelope);
+      const decrypted = await unsealer.unseal(bytes);
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    }
+    expect(() =>
+      deserializeEnvelope(new TextEncoder().encode(" \t\n"))
+    ).toThrow("Unrecognized envelope encoding");
+  });
+
+  it("rejects tampered binary envelopes", async () => {
+    const envelope = await sealer.seal("test message", ["recipient1"]);
+
+    const bytes = serializeEnvelope(envelope);
+    bytes[bytes.length - 1]! ^= 1;
+    await expect(unsealer.unseal(bytes)).rejects.toThrow();
+  });
+
+  it("rejects unrecognized encodings", () => {
+    expect(() =>
+      deserializeEnvelope(new Uint8Array([0x4b, 0x53, 0x45, 0x02]))
+    ).toThrow("Unrecognized envelope encoding");
+    expect(() => deserializeEnvelope(new Uint8Array(0))).toThrow(
+      "Unrecognized envelope encoding"
+    );
+  });
+
+  it("rejects malformed binary envelopes", () => {
+    const marker = [0x4b, 0x53, 0x45, 0x01];
+    // An array rather than a map
+    expect(() =>
+      deserializeEnvelope(new Uint8Array([...marker, 0x80]))
+    ).toThrow("Malformed envelope");
+    // A map with an integer key
+    expect(() =>
+      deserializeEnvelope(new Uint8Array([...marker, 0xa1, 0x01, 0x01]))
+    ).toThrow("Malformed binary envelope");
+  });
+});
@@ -0,0 +1,164 @@
+import { type CBORValue, decodeCBOR, encodeCBOR } from "./cbor.js";
+import { fromCOSE } from "./cose/convert.js";
+import {
+  type EnvelopeEncoding,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+} from "./types/index.js";
+import {
+  areUint8ArraysEqual,
+  base64ToUint8Array,
+  uint8ArrayToBase64,
+} from "./utils.js";
+
+/**
+ * Marks the binary encoding: "KSE" and a format byte. JSON always starts
+ * with `{`, after any whitespace or byte order mark, so the two encodings
+ * cannot be confused.
+ */
+const BINARY_ENVELOPE_MARKER = new Uint8Array([0x4b, 0x53, 0x45, 0x01]);
+
+const UTF8_BOM = new Uint8Array([0xef, 0xbb, 0xbf]);
+
+// Space, tab, line feed and carriage return (RFC 8259 section 2)
+const JSON_WHITESPACE = new Set([0x20, 0x09, 0x0a, 0x0d]);
+
+function isJSONObject(data: Uint8Array): boolean {
+  let offset = areUint8ArraysEqual(data.subarray(0, UTF8_BOM.length), UTF8_BOM)
+    ? UTF8_BOM.length
+    : 0;
+  while (offset < data.length && JSON_WHITESPACE.has(data[offset]!)) {
+    offset++;
+  }
+  return data[offset] === 0x7b;
+}
+
+// A COSE_Sign1 starts with its tag, 18
+const COSE_SIGN1_INITIAL_BYTE = 0xd2;
+
+// Fields holding base64 in JSON and raw bytes in the binary encoding. The
+// values of the `cek` map are handled the same way.
+const BYTE_FIELDS = new Set(["payload", "ctx", "signature"]);
+
+function toCBOR(value: unknown): CBORValue {
+  if (Array.isArray(value)) {
+    return value.map(toCBOR);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key, toCBOR(item)])
+    );
+  }
+  return value as CBORValue;
+}
+
+function fromCBOR(value: CBORValue): unknown {
+  if (value instanceof Uint8Array) {
+    return uint8ArrayToBase64(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromCBOR);
+  }
+  if (value instanceof Map) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of value) {
+      if (typeof key !== "string" || key === "__proto__") {
+        throw new Error("Malformed binary envelope");
+      }
+      result[key] = fromCBOR(item);
+    }
+    return result;
+  }
+  if (typeof value === "object" && value !== null) {
+    throw new Error("Malformed binary envelope");
+  }
+  return value;
+}
+
+/**
+ * Encodes an envelope as bytes, e.g. for storage or a message queue.
+ *
+ * The binary encoding stores the same fields as the JSON one, but with the
+ * payload, CTX tag, signature and wrapped CEKs as raw byte strings, which
+ * saves about a quarter of the size of a JSON envelope.
+ *
+ * @param envelope - The envelope to encode
+ * @param encoding - `binary` (the default) or `json`
+ * @returns The encoded envelope
+ */
+export function serializeEnvelope(
+  envelope:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope,
+  encoding: EnvelopeEncoding = "binary"
+): Uint8Array {
+  if (encoding === "json") {
+    return new TextEncoder().encode(JSON.stringify(envelope));
+  }
+
+  const fields: Record<string, CBORValue> = {};
+  for (const [key, value] of Object.entries(envelope)) {
+    if (value === undefined) continue;
+    if (BYTE_FIELDS.has(key)) {
+      fields[key] = base64ToUint8Array(value as string);
+    } else if (key === "cek") {
+      fields[key] = Object.fromEntries(
+        Object.entries(value as Record<string, string>).map(
+          ([kid, encrypted]) => [kid, base64ToUint8Array(encrypted)]
+        )
+      );
+    } else {
+      fields[key] = toCBOR(value);
+    }
+  }
+
+  const body = encodeCBOR(fields);
+  const result = new Uint8Array(BINARY_ENVELOPE_MARKER.length + body.length);
+  result.set(BINARY_ENVELOPE_MARKER);
+  result.set(body, BINARY_ENVELOPE_MARKER.length);
+  return result;
+}
+
+/**
+ * Decodes an envelope produced by {@link serializeEnvelope}, in either
+ * encoding, or a COSE_Sign1 produced by `toCOSE`. Nothing is verified here;
+ * unseal the result as usual.
+ *
+ * @param data - The encoded envelope
+ * @returns The envelope
+ * @throws If the encoding is not recognized or the envelope is malformed
+ */
+export function deserializeEnvelope(
+  data: Uint8Array
+): KeySealedEnvelope | LegacyKeySealedEnvelope | HiddenSenderKeySealedEnvelope {
+  const marker = data.subarray(0, BINARY_ENVELOPE_MARKER.length);
+  let envelope: unknown;
+  if (areUint8ArraysEqual(marker, BINARY_ENVELOPE_MARKER)) {
+    envelope = fromCBOR(
+      decodeCBOR(data.subarray(BINARY_ENVELOPE_MARKER.length))
+    );
+  } else if (isJSONObject(data)) {
+    // The decoder drops a byte order mark, and JSON.parse the whitespace
+    envelope = JSON.parse(new TextDecoder().decode(data));
+  } else if (data[0] === COSE_SIGN1_INITIAL_BYTE) {
+    return fromCOSE(data);
+  } else {
+    throw new Error("Unrecognized envelope encoding");
+  }
+
+  if (
+    typeof envelope !== "object" ||
+    envelope === null ||
+    Array.isArray(envelope)
+  ) {
+    throw new Error("Malformed envelope");
+  }
+  return envelope as
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope;
+}
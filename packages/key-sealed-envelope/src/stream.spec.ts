@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+
+import { InMemoryReplayCache } from "./replay/in-memory-replay-cache.js";
+import { OKPSealer } from "./sealer/okp-sealer.js";
+import {
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+} from "./types/index.js";
+import { OKPUnsealer } from "./unsealer/okp-unsealer.js";
+import { concatUint8Arrays as concat } from "./utils.js";
+
+const senderKeyPair = (await crypto.subtle.generateKey(
+  { name: "Ed25519" },
+  true,
+  ["sign", "verify"]
+)) as CryptoKeyPair;
+
+const recipientKeyPair = (await crypto.subtle.generateKey(
+  { name: "X25519" },
+  true,
+  ["deriveKey"]
+)) as CryptoKeyPair;
+
+const senderPrivateJWK = {
+  ...(await crypto.subtle.exportKey("jwk", senderKeyPair.privateKey)),
+  kid: "sender1",
+} as OKPPrivateNamedJWK;
+const senderPublicJWK = {
+  ...(await crypto.subtle.exportKey("jwk", senderKeyPair.publicKey)),
+  kid: "sender1",
+} as OKPPublicNamedJWK;
+const recipientPrivateJWK = {
+  ...(await crypto.subtle.exportKey("jwk", recipientKeyPair.privateKey)),
+  kid: "recipient1",
+} as OKPPrivateNamedJWK;
+const recipientPublicJWK = {
+  ...(await crypto.subtle.exportKey("jwk", recipientKeyPair.publicKey)),
+  kid: "recipient1",
+} as OKPPublicNamedJWK;
+
+const sealer = await OKPSealer.create(senderPrivateJWK, [recipientPublicJWK]);
+const unsealer = await OKPUnsealer.create(recipientPrivateJWK, [
+  senderPublicJWK,
+]);
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  // getRandomValues fills at most 64 KiB per call
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, offset + 65536));
+  }
+  return bytes;
+}
+
+async function* chunksOf(
+  bytes: Uint8Array,
+  size: number
+): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return concat(...chunks);
+    chunks.push(value);
+  }
+}
+
+async function sealToBytes(
+  plaintext: Uint8Array,
+  options: Parameters<OKPSealer["sealStream"]>[2] = {}
+) {
+  return await collect(
+    await sealer.sealStream(chunksOf(plaintext, 1000), ["recipient1"], options)
+  );
+}
+
+async function unsealBytes(
+  sealed: Uint8Array,
+  options: Parameters<OKPUnsealer["unsealStream"]>[1] = {},
+  target = unsealer
+) {
+  return await collect(
+    await target.unsealStream(chunksOf(sealed, 777), options)
+  );
+}
+
+// toEqual walks every index, which is too slow for megabytes
+async function digestOf(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+// Splits a sealed stream into its marker and length-prefixed records
+function recordsOf(sealed: Uint8Array): Uint8Array[] {
+  const records = [sealed.subarray(0, 4)];
+  let offset = 4;
+  while (offset < sealed.length) {
+    const length = new DataView(
+      sealed.buffer,
+      sealed.byteOffset + offset
+    ).getUint32(0);
+    records.push(sealed.subarray(offset, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return records;
+}
+
+describe("sealed streams", () => {
+  it("round-trips across many segments", async () => {
+    const plaintext = randomBytes(10_000);
+    const sealed = await sealToBytes(plaintext, {
+      segmentSize: 1024,
+      aad: "tenant-1",
+    });
+
+    // Marker, header, ten segments and the closing signature
+    expect(recordsOf(sealed)).toHaveLength(13);
+    expect(await unsealBytes(sealed, { aad: "tenant-1" })).toEqual(plaintext);
+  });
+
+  it.each([0, 1024, 4096])(
+    "round-trips %d bytes in 1 KiB segments",
+    async (length) => {
+      const plaintext = randomBytes(length);
+      const sealed = await sealToBytes(plaintext, { segmentSize: 1024 });
+
+      expect(await unsealBytes(sealed)).toEqual(plaintext);
+    }
+  );
+
+  it("supports anonymous recipients", async () => {
+    const plaintext = randomBytes(3000);
+    const sealed = await sealToBytes(plaintext, { anonymousRecipients: true });
+
+    expect(new TextDecoder().decode(recordsOf(sealed)[1])).not.toContain(
+      "recipient1"
+    );
+    expect(await unsealBytes(sealed)).toEqual(plaintext);
+  });
+
+  it("accepts Web streams", async () => {
+    const plaintext = randomBytes(5000);
+    const sealed = await collect(
+      await sealer.sealStream(new Blob([plaintext]).stream(), ["recipient1"])
+    );
+
+    const decrypted = await collect(
+      await unsealer.unsealStream(new Blob([sealed]).stream())
+    );
+    expect(decrypted).toEqual(plaintext);
+  });
+
+  it("seals multi-megabyte payloads", async () => {
+    const plaintext = randomBytes(8 * 1024 * 1024);
+    const sealed = await sealToBytes(plaintext);
+
+    expect(await digestOf(await unsealBytes(sealed))).toEqual(
+      await digestOf(plaintext)
+    );
+  });
+
+  it("detects a stream cut short", async () => {
+    const sealed = await sealToBytes(randomBytes(4096), { segmentSize: 1024 });
+    const records = recordsOf(sealed);
+
+    // Without the closing signature
+    await expect(unsealBytes(concat(...records.slice(0, -1)))).rejects.toThrow(
+      "Truncated stream"
+    );
+    // Without the final segment either
+    await expect(unsealBytes(concat(...records.slice(0, -2)))).rejects.toThrow(
+      "Truncated stream"
+    );
+    // Mid-record
+    await expect(unsealBytes(sealed.subarray(0, -10))).rejects.toThrow(
+      "Truncated stream"
+    );
+  });
+
+  it("detects dropped segments", async () => {
+    const sealed = await sealToBytes(randomBytes(4096), { segmentSize: 1024 });
+    const [marker, header, ...segments] = recordsOf(sealed);
+    const signature = segments.pop()!;
+
+    const dropped = concat(
+      marker!,
+      header!,
+      ...segments.slice(0, 2),
+      segments[3]!,
+      signature
+    );
+    await expect(unsealBytes(dropped)).rejects.toThrow(
+      "Invalid stream segment"
+    );
+  });
+
+  it("detects reordered segments", async () => {
+    const sealed = await sealToBytes(randomBytes(4096), { segmentSize: 1024 });
+    const [marker, header, first, second, ...rest] = recordsOf(sealed);
+
+    const reordered = concat(marker!, header!, second!, first!, ...rest);
+    await expect(unsealBytes(reordered)).rejects.toThrow(
+      "Invalid stream segment"
+    );
+  });
+
+  it("detects altered segments", async () => {
+    const sealed = await sealToBytes(randomBytes(4096), { segmentSize: 1024 });
+    const records = recordsOf(sealed);
+    records[2]![100]! ^= 1;
+
+    await expect(unsealBytes(concat(...records))).rejects.toThrow(
+      "Invalid stream segment"
+    );
+  });
+
+  it("detects a closing signature from another stream", async () => {
+    const plaintext = randomBytes(2048);
+    const first = recordsOf(await sealToBytes(plaintext));
+    const second = recordsOf(await sealToBytes(plaintext));
+
+    const spliced = concat(...first.slice(0, -1), second.at(-1)!);
+    await expect(unsealBytes(spliced)).rejects.toThrow(
+      "Invalid envelope signature"
+    );
+  });
+
+  it("rejects data after the stream", async () => {
+    const sealed = await sealToBytes(randomBytes(100));
+
+    await expect(
+      unsealBytes(concat(sealed, new Uint8Array([0])))
+    ).rejects.toThrow("Unexpected data after sealed stream");
+  });
+
+  it("verifies the header before returning", async () => {
+    const sealed = await sealToBytes(randomBytes(100), { aad: "tenant-1" });
+
+    await expect(
+      unsealer.unsealStream(chunksOf(sealed, 777), { aad: "tenant-2" })
+    ).rejects.toThrow("Invalid envelope signature");
+    await expect(
+      unsealer.unsealStream(chunksOf(new Uint8Array([0x4b, 0x53, 0x45]), 1))
+    ).rejects.toThrow("Truncated stream");
+    await expect(
+      unsealer.unsealStream(chunksOf(new Uint8Array(16), 16))
+    ).rejects.toThrow("Not a sealed stream");
+  });
+
+  it("records the stream in a replay cache", async () => {
+    const replayUnsealer = await OKPUnsealer.create(
+      recipientPrivateJWK,
+      [senderPublicJWK],
+      { replayCache: new InMemoryReplayCache() }
+    );
+    const sealed = await sealToBytes(randomBytes(100));
+
+    await unsealBytes(sealed, {}, replayUnsealer);
+    await expect(unsealBytes(sealed, {}, replayUnsealer)).rejects.toThrow(
+      "Envelope has already been unsealed"
+    );
+  });
+
+  it("rejects out-of-range segment sizes", async () => {
+    for (const segmentSize of [0, 1.5, 32 * 1024 * 1024]) {
+      await expect(
+        sealer.sealStream(chunksOf(new Uint8Array(0), 1), ["recipient1"], {
+          segmentSize,
+        })
+      ).rejects.toThrow("Segment size must be between 1 and 16777216");
+    }
+  });
+});
+
+describe("large envelopes", () => {
+  it("seals and unseals multi-megabyte payloads", async () => {
+    const plaintext = randomBytes(4 * 1024 * 1024);
+    const envelope = await sealer.seal(plaintext, ["recipient1"]);
+
+    expect(await digestOf(await unsealer.unseal(envelope))).toEqual(
+      await digestOf(plaintext)
+    );
+  });
+});
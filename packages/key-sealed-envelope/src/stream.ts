@@ -0,0 +1,238 @@
+import { type ByteSource } from "./types/index.js";
+import { concatUint8Arrays as concat } from "./utils.js";
+
+/**
+ * Marks a sealed stream: "KSE" and a format byte, as for the binary
+ * envelope encoding. A sealed stream is laid out as:
+ *
+ *     marker ‖ record(header JSON) ‖ record(segment)* ‖ record(signature)
+ *
+ * where each record is a 32-bit big-endian length and its bytes. A segment
+ * record is a flag byte, 1 for the final segment and 0 otherwise, then the
+ * AES-GCM ciphertext and tag.
+ */
+export const STREAM_MARKER = new Uint8Array([0x4b, 0x53, 0x45, 0x02]);
+
+/**
+ * Length of the random nonce prefix. Each 12-byte segment nonce is the
+ * prefix, a 32-bit segment counter and the final-segment flag (the STREAM
+ * construction of Hoang, Reyhanitabar, Rogaway and Vizár), so segments
+ * cannot be reordered, dropped or cut short without failing decryption.
+ */
+export const NONCE_PREFIX_LENGTH = 7;
+
+// Bounds on the records without a known length, so that a hostile stream
+// cannot make the reader buffer without limit
+export const MAX_STREAM_HEADER_LENGTH = 1024 * 1024;
+export const MAX_STREAM_SIGNATURE_LENGTH = 4096;
+
+// AES-GCM tag length
+const SEGMENT_OVERHEAD = 16;
+
+/**
+ * Length of a segment record holding a full segment of plaintext.
+ */
+export function segmentRecordLength(segmentSize: number): number {
+  return 1 + segmentSize + SEGMENT_OVERHEAD;
+}
+
+/**
+ * The AES-GCM nonce for a segment.
+ *
+ * @throws If the stream has more segments than the counter can number
+ */
+export function segmentNonce(
+  prefix: Uint8Array,
+  index: number,
+  last: boolean
+): Uint8Array {
+  if (index > 0xffffffff) {
+    throw new Error("Stream has too many segments");
+  }
+  const nonce = new Uint8Array(12);
+  nonce.set(prefix);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Folds a segment record into the running digest of a stream, which the
+ * closing signature covers. WebCrypto has no incremental hashing, so each
+ * step hashes the previous digest and the record.
+ */
+export async function chainDigest(
+  previous: Uint8Array,
+  record: Uint8Array
+): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", concat(previous, record))
+  );
+}
+
+/**
+ * Prefixes a record with its length.
+ */
+export function frameRecord(record: Uint8Array): Uint8Array {
+  const framed = new Uint8Array(4 + record.length);
+  new DataView(framed.buffer).setUint32(0, record.length);
+  framed.set(record, 4);
+  return framed;
+}
+
+async function* iterateBytes(source: ByteSource): AsyncGenerator<Uint8Array> {
+  if (Symbol.asyncIterator in source) {
+    yield* source;
+    return;
+  }
+
+  // Not every runtime makes ReadableStream async iterable
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Regroups arbitrarily sized chunks into segments of plaintext. Every
+ * segment but the last is exactly `segmentSize` bytes; the last may be
+ * shorter, full, or empty.
+ */
+export async function* segmentsOf(
+  source: ByteSource,
+  segmentSize: number
+): AsyncGenerator<{ plaintext: Uint8Array; last: boolean }> {
+  let segment = new Uint8Array(segmentSize);
+  let filled = 0;
+
+  for await (const chunk of iterateBytes(source)) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      // A full segment is only known not to be the last once more data
+      // arrives
+      if (filled === segmentSize) {
+        yield { plaintext: segment, last: false };
+        segment = new Uint8Array(segmentSize);
+        filled = 0;
+      }
+      const length = Math.min(segmentSize - filled, chunk.length - offset);
+      segment.set(chunk.subarray(offset, offset + length), filled);
+      filled += length;
+      offset += length;
+    }
+  }
+
+  yield { plaintext: segment.subarray(0, filled), last: true };
+}
+
+/**
+ * Reads length-prefixed records from a byte source, buffering no more than
+ * the record being read.
+ */
+export class RecordReader {
+  private readonly chunks: AsyncIterator<Uint8Array>;
+  private readonly buffered: Uint8Array[] = [];
+  private bufferedLength = 0;
+
+  constructor(source: ByteSource) {
+    this.chunks = iterateBytes(source);
+  }
+
+  private async fill(): Promise<boolean> {
+    const { done, value } = await this.chunks.next();
+    if (done) return false;
+    if (value.length > 0) {
+      this.buffered.push(value);
+      this.bufferedLength += value.length;
+    }
+    return true;
+  }
+
+  /**
+   * Reads exactly `length` bytes.
+   *
+   * @throws If the source ends first
+   */
+  async read(length: number): Promise<Uint8Array> {
+    while (this.bufferedLength < length) {
+      if (!(await this.fill())) {
+        throw new Error("Truncated stream");
+      }
+    }
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const chunk = this.buffered[0]!;
+      const take = Math.min(chunk.length, length - offset);
+      bytes.set(chunk.subarray(0, take), offset);
+      offset += take;
+      if (take === chunk.length) {
+        this.buffered.shift();
+      } else {
+        this.buffered[0] = chunk.subarray(take);
+      }
+    }
+    this.bufferedLength -= length;
+    return bytes;
+  }
+
+  /**
+   * Reads one record.
+   *
+   * @throws If the source ends first, or the record is longer than allowed
+   */
+  async readRecord(maxLength: number): Promise<Uint8Array> {
+    const length = new DataView((await this.read(4)).buffer).getUint32(0);
+    if (length > maxLength) {
+      throw new Error("Stream record too long");
+    }
+    return await this.read(length);
+  }
+
+  /**
+   * Whether the source has ended with nothing left to read.
+   */
+  async atEnd(): Promise<boolean> {
+    while (this.bufferedLength === 0) {
+      if (!(await this.fill())) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Stops reading, releasing the source.
+   */
+  async close(): Promise<void> {
+    await this.chunks.return?.();
+  }
+}
+
+/**
+ * Presents an async generator as a Web stream that pulls from it on demand.
+ * Errors thrown by the generator error the stream; cancelling the stream
+ * stops the generator.
+ */
+export function toReadableStream(
+  generator: AsyncGenerator<Uint8Array>
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await generator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await generator.return(undefined);
+    },
+  });
+}
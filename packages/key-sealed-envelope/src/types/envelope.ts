@@ -1,5 +1,104 @@
 /**
- * A sealed envelope containing encrypted data for multiple recipients.
+ * Signature algorithms, named as in JWA (RFC 7518).
+ */
+export type SignatureAlgorithm =
+  | "PS256"
+  | "ES256"
+  | "ES384"
+  | "ES512"
+  | "EdDSA";
+
+/**
+ * Algorithms used to wrap the content encryption key for each recipient.
+ *
+ * - `RSA-OAEP-256`: RSA-OAEP with SHA-256 over the raw CEK
+ * - `ECDH-ES+A256KW`: ephemeral-static ECDH (or X25519), with the wrapping
+ *   key derived by the JWA Concat KDF over the ephemeral public key and the
+ *   recipient's key ID, and the CEK wrapped with AES Key Wrap
+ * - `ECDH-ES+HKDF-256+A256KW`: COSE's ECDH-ES + A256KW (RFC 9053 §6.3.1):
+ *   ephemeral-static ECDH (or X25519), with the wrapping key derived by
+ *   HKDF-SHA-256 over a COSE_KDF_Context that binds the recipient's key ID,
+ *   and the CEK wrapped with AES Key Wrap
+ * - `HPKE-A256GCM`: HPKE (RFC 9180) Base mode with DHKEM(P-256 or X25519,
+ *   HKDF-SHA256), HKDF-SHA256 and AES-256-GCM. The recipient's key ID is
+ *   the AEAD associated data.
+ * - `ECDH+A256GCMKW`: ephemeral-static ECDH (or X25519), with the shared
+ *   secret used directly as an AES-256-GCM wrapping key. Used by v1
+ *   envelopes and older v2 sealers; still accepted when unsealing.
+ */
+export type KeyWrapAlgorithm =
+  | "RSA-OAEP-256"
+  | "ECDH-ES+A256KW"
+  | "ECDH-ES+HKDF-256+A256KW"
+  | "HPKE-A256GCM"
+  | "ECDH+A256GCMKW";
+
+/**
+ * Content encryption algorithms for the payload.
+ */
+export type ContentEncryptionAlgorithm = "A256GCM";
+
+/**
+ * Algorithms for compressing the payload before it is encrypted.
+ *
+ * - `deflate`: raw DEFLATE (RFC 1951), as JWE's `"zip": "DEF"`
+ * - `gzip`: gzip (RFC 1952)
+ */
+export type CompressionAlgorithm = "deflate" | "gzip";
+
+/**
+ * Alternative wire formats an envelope can be sealed for.
+ *
+ * - `jwe`: the payload is encrypted and the envelope signed as JOSE requires,
+ *   so that `toJWE` can present it as a JWS-signed JWE
+ * - `cose`: likewise for COSE, so that `toCOSE` can present it as a
+ *   COSE_Sign1 wrapping a COSE_Encrypt
+ */
+export type EnvelopeFormat = "jwe" | "cose";
+
+/**
+ * Versioned header identifying the algorithms that produced an envelope.
+ * Covered by the envelope signature.
+ *
+ * @property v - Envelope format version
+ * @property alg - Algorithm used to sign the envelope
+ * @property kw - Algorithm used to wrap the CEK for each recipient
+ * @property enc - Algorithm used to encrypt the payload
+ * @property fmt - Wire format the envelope was sealed for, if not the native one
+ * @property zip - Algorithm the payload was compressed with before
+ *   encryption, if any
+ * @property anon - Set if the recipients are anonymous: `cek` is keyed by
+ *   random labels rather than key IDs, and unsealers find their entry by
+ *   trial decryption
+ */
+export type KeySealedEnvelopeHeader = {
+  v: 2;
+  alg: SignatureAlgorithm;
+  kw: KeyWrapAlgorithm;
+  enc: ContentEncryptionAlgorithm;
+  fmt?: EnvelopeFormat;
+  zip?: CompressionAlgorithm;
+  anon?: true;
+};
+
+/**
+ * Envelope claims. Times are NumericDate values (whole seconds since the
+ * Unix epoch). Covered by the envelope signature.
+ *
+ * @property jti - Unique envelope ID, used to detect replays
+ * @property iat - When the envelope was issued
+ * @property nbf - Time before which the envelope must not be accepted
+ * @property exp - Time from which the envelope must not be accepted
+ */
+export type KeySealedEnvelopeClaims = {
+  jti?: string;
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+};
+
+/**
+ * Fields common to every envelope format version.
  *
  * @property kid - Key ID of the sender's public key for signature verification
  * @property cek - Map of encrypted content keys per recipient
@@ -7,10 +106,95 @@
  * @property signature - Digital signature over the envelope contents
  * @property ctx - Commitment tag ensuring all recipients decrypt to same message
  */
-export type KeySealedEnvelope = {
+export type KeySealedEnvelopeBody = {
   kid: string;
   cek: Record<string, string>;
   payload: string;
   signature: string;
   ctx: string;
 };
+
+/**
+ * An envelope in the original (v1) format, which has no header. Its
+ * algorithms are implied by the types of the keys used to open it.
+ */
+export type LegacyKeySealedEnvelope = KeySealedEnvelopeBody & { v?: never };
+
+/**
+ * A signature added to an envelope by someone other than its sender, such
+ * as an approver, after it was sealed. It covers everything the sender's
+ * signature does, the AAD included, along with its own key ID and algorithm.
+ *
+ * @property kid - Key ID of the countersigner's public key
+ * @property alg - Algorithm used to countersign
+ * @property signature - The countersignature
+ */
+export type EnvelopeCountersignature = {
+  kid: string;
+  alg: SignatureAlgorithm;
+  signature: string;
+};
+
+/**
+ * Where a re-keyed envelope, or one with recipients added, came from: the
+ * envelope it was derived from, identified by its sender and signature. The
+ * derived envelope's signature covers it.
+ *
+ * @property kid - Key ID of the original envelope's sender
+ * @property alg - Algorithm the original envelope was signed with
+ * @property signature - The original envelope's signature
+ * @property jti - The original envelope's ID, if it had one
+ */
+export type EnvelopeProvenance = {
+  kid: string;
+  alg: SignatureAlgorithm;
+  signature: string;
+  jti?: string;
+};
+
+/**
+ * A sealed envelope containing encrypted data for multiple recipients.
+ *
+ * @property signatures - Countersignatures, which are not covered by the
+ *   sender's signature and can be added at any time
+ * @property prov - For re-keyed envelopes and those with recipients added,
+ *   the envelope they were derived from
+ * @property kws - Set if the CEK entries are wrapped with different
+ *   algorithms, as when some recipients have RSA keys and others EC keys:
+ *   the algorithm of each entry, keyed like `cek`, in place of `kw`
+ */
+export type KeySealedEnvelope = KeySealedEnvelopeHeader &
+  KeySealedEnvelopeClaims &
+  KeySealedEnvelopeBody & {
+    signatures?: EnvelopeCountersignature[];
+    prov?: EnvelopeProvenance;
+    kws?: Record<string, KeyWrapAlgorithm>;
+  };
+
+/**
+ * A sealed envelope whose sender is hidden. The sender's key ID, signature
+ * algorithm and signature are encrypted along with the payload, so only
+ * recipients learn who sent it.
+ *
+ * The signature covers the header, claims, AAD, payload and the key IDs of
+ * every recipient, so a recipient cannot re-seal the signed payload for
+ * someone else and pass it off as sent to them.
+ *
+ * @property hid - Marks the sender as hidden
+ * @property kws - The algorithm of each CEK entry, as for envelopes
+ */
+export type HiddenSenderKeySealedEnvelope = Omit<
+  KeySealedEnvelopeHeader,
+  "alg" | "fmt"
+> & { hid: true } & KeySealedEnvelopeClaims &
+  Omit<KeySealedEnvelopeBody, "kid" | "signature"> & {
+    kws?: Record<string, KeyWrapAlgorithm>;
+  };
+
+/**
+ * Byte encodings for storing or transmitting an envelope.
+ *
+ * - `json`: UTF-8 JSON, with binary fields as base64 strings
+ * - `binary`: a marker followed by CBOR, with binary fields as byte strings
+ */
+export type EnvelopeEncoding = "json" | "binary";
@@ -1,2 +1,9 @@
 export * from "./envelope.js";
 export * from "./jwks.js";
+export * from "./options.js";
+export * from "./replay.js";
+export * from "./jwe.js";
+export * from "./stream.js";
+export * from "./verification.js";
+export * from "./inspection.js";
+export * from "./key-ring.js";
@@ -0,0 +1,65 @@
+import {
+  type EnvelopeProvenance,
+  type KeySealedEnvelopeClaims,
+  type KeySealedEnvelopeHeader,
+  type KeyWrapAlgorithm,
+  type SignatureAlgorithm,
+} from "./envelope.js";
+
+/**
+ * A recipient key type guessed from the length of its wrapped CEK: the
+ * modulus size of an RSA key, or the curve of an ephemeral public key.
+ */
+export type KeyTypeGuess =
+  | `RSA-${number}`
+  | "P-256"
+  | "P-384"
+  | "P-521"
+  | "X25519";
+
+/**
+ * One CEK entry of an inspected envelope.
+ *
+ * @property kid - Key ID of the recipient; absent if recipients are anonymous
+ * @property wrappedKeySize - Bytes in the wrapped CEK, including any
+ *   ephemeral public key
+ * @property keyType - The recipient's key type, guessed from
+ *   `wrappedKeySize`; absent if no supported key type fits
+ * @property kw - The entry's key wrapping algorithm, in envelopes that tag
+ *   each entry with its own
+ */
+export type RecipientInspection = {
+  kid?: string;
+  wrappedKeySize: number;
+  keyType?: KeyTypeGuess;
+  kw?: KeyWrapAlgorithm;
+};
+
+/**
+ * What an envelope reveals without any keys. Nothing here is verified.
+ *
+ * @property v - Envelope format version; 1 for envelopes with no header
+ * @property kid - Key ID of the sender; absent if the sender is hidden
+ * @property header - The envelope header, absent for v1 envelopes. Hidden
+ *   senders have no `alg`.
+ * @property claims - The envelope claims; v1 envelopes have none
+ * @property recipients - Each CEK entry, in envelope order
+ * @property ciphertextSize - Bytes of encrypted payload, not counting its
+ *   IV and GCM tag. This is the size of the plaintext as encrypted, so
+ *   after any compression.
+ * @property countersigners - Key IDs on the envelope's countersignatures
+ * @property prov - For re-keyed envelopes, the envelope they replace
+ */
+export type EnvelopeInspection = {
+  v: 1 | 2;
+  kid?: string;
+  header?: Omit<KeySealedEnvelopeHeader, "alg"> & {
+    alg?: SignatureAlgorithm;
+    hid?: true;
+  };
+  claims: KeySealedEnvelopeClaims;
+  recipients: RecipientInspection[];
+  ciphertextSize: number;
+  countersigners: string[];
+  prov?: EnvelopeProvenance;
+};
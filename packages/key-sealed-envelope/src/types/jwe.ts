@@ -0,0 +1,37 @@
+import { type KeyWrapAlgorithm } from "./envelope.js";
+
+/**
+ * Per-recipient JWE header. For `ECDH-ES+A256KW`, `apu` is the ephemeral
+ * public key and `apv` the recipient's key ID, both base64url-encoded, as
+ * bound into the Concat KDF.
+ */
+export type JWERecipientHeader = {
+  alg: KeyWrapAlgorithm;
+  kid: string;
+  epk?: JsonWebKey;
+  apu?: string;
+  apv?: string;
+};
+
+/**
+ * A JWE in General JSON Serialization (RFC 7516 §7.2.1).
+ */
+export type JWEGeneralJSON = {
+  protected: string;
+  unprotected: { ctx: string };
+  recipients: { header: JWERecipientHeader; encrypted_key: string }[];
+  iv: string;
+  ciphertext: string;
+  tag: string;
+  aad?: string;
+};
+
+/**
+ * A JWS in General JSON Serialization (RFC 7515 §7.2.1). KSE produces a
+ * single signature, whose payload is the canonical JSON of a
+ * {@link JWEGeneralJSON}.
+ */
+export type JWSGeneralJSON = {
+  payload: string;
+  signatures: { protected: string; signature: string }[];
+};
@@ -47,6 +47,24 @@ export type ECPrivateNamedJWK = ECPublicNamedJWK & {
   d: string;
 };
 
+/**
+ * Octet key pair (Ed25519 or X25519) public key in JWK format with key
+ * identifier
+ */
+export type OKPPublicNamedJWK = BaseNamedJWK & {
+  kty: "OKP";
+  crv: string;
+  x: string;
+};
+
+/**
+ * Octet key pair (Ed25519 or X25519) private key in JWK format with key
+ * identifier
+ */
+export type OKPPrivateNamedJWK = OKPPublicNamedJWK & {
+  d: string;
+};
+
 export type RSAPublicNamedJWKS = {
   keys: RSAPublicNamedJWK[];
 };
@@ -62,3 +80,51 @@ export type ECPublicNamedJWKS = {
 export type ECPrivateNamedJWKS = {
   keys: ECPrivateNamedJWK[];
 };
+
+export type OKPPublicNamedJWKS = {
+  keys: OKPPublicNamedJWK[];
+};
+
+export type OKPPrivateNamedJWKS = {
+  keys: OKPPrivateNamedJWK[];
+};
+
+/**
+ * A recipient public key for RSA and EC sealers, which can seal one
+ * envelope for recipients of both types
+ */
+export type RSAOrECPublicNamedJWK = RSAPublicNamedJWK | ECPublicNamedJWK;
+
+export type RSAOrECPublicNamedJWKS = {
+  keys: RSAOrECPublicNamedJWK[];
+};
+
+/**
+ * A public key of any supported type, for APIs that are not tied to one
+ */
+export type PublicNamedJWK =
+  | RSAPublicNamedJWK
+  | ECPublicNamedJWK
+  | OKPPublicNamedJWK;
+
+export type PublicNamedJWKS = {
+  keys: PublicNamedJWK[];
+};
+
+/**
+ * A private key of any supported type, for APIs that are not tied to one
+ */
+export type PrivateNamedJWK =
+  | RSAPrivateNamedJWK
+  | ECPrivateNamedJWK
+  | OKPPrivateNamedJWK;
+
+/**
+ * The public key type that goes with a private key type
+ */
+export type PublicNamedJWKFor<JWK extends PrivateNamedJWK> =
+  JWK extends RSAPrivateNamedJWK
+    ? RSAPublicNamedJWK
+    : JWK extends ECPrivateNamedJWK
+      ? ECPublicNamedJWK
+      : OKPPublicNamedJWK;
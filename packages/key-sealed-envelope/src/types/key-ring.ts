@@ -0,0 +1,38 @@
+import { type PrivateNamedJWK } from "./jwks.js";
+
+/**
+ * Where a signing key is in its lifecycle:
+ * - `pending`: published for verifiers to trust, but not yet signing
+ * - `active`: signing new envelopes
+ * - `retiring`: no longer signing, but still trusted, so that envelopes it
+ *   signed keep verifying
+ * - `retired`: neither signing nor trusted
+ */
+export type SigningKeyState = "pending" | "active" | "retiring" | "retired";
+
+/**
+ * A signing key held by a `SigningKeyRing`.
+ *
+ * @property jwk - The private key
+ * @property state - The key's state. Defaults to `active`. Set `pending`
+ *   with an `activateAt` time to schedule a key.
+ * @property activateAt - When the key starts signing. Until then it is
+ *   pending, whatever its state.
+ * @property expireAt - When the key retires, whatever its state
+ */
+export type SigningKeyRingEntry<JWK extends PrivateNamedJWK = PrivateNamedJWK> =
+  {
+    jwk: JWK;
+    state?: SigningKeyState;
+    activateAt?: Date;
+    expireAt?: Date;
+  };
+
+/**
+ * Options fixed when a signing key ring is created.
+ *
+ * @property clock - Source of the current time; defaults to the system clock
+ */
+export type SigningKeyRingOptions = {
+  clock?: () => Date;
+};
@@ -0,0 +1,166 @@
+import {
+  type CompressionAlgorithm,
+  type EnvelopeFormat,
+  type KeyWrapAlgorithm,
+} from "./envelope.js";
+import {
+  type ECPrivateNamedJWK,
+  type OKPPrivateNamedJWK,
+  type PublicNamedJWK,
+  type PublicNamedJWKS,
+  type RSAPrivateNamedJWK,
+} from "./jwks.js";
+import { type ReplayCache } from "./replay.js";
+
+/**
+ * Per-envelope options for sealing.
+ *
+ * @property aad - Associated data bound into the payload's GCM tag and the
+ *   envelope signature. It is not stored in the envelope, so the same value
+ *   must be supplied when unsealing.
+ * @property iat - Issued-at time to record in the envelope
+ * @property nbf - Not-before time to record in the envelope
+ * @property exp - Expiry time to record in the envelope
+ * @property kw - Key wrapping algorithm to use for every recipient, in place
+ *   of the default for their key type (e.g. `HPKE-A256GCM`)
+ * @property fmt - Seal for an alternative wire format, e.g. `jwe` to allow
+ *   conversion with `toJWE`
+ * @property compression - Compress the payload before encrypting it.
+ *   Defaults to `none`. The algorithm is recorded in the signed header, and
+ *   unsealers decompress automatically.
+ * @property anonymousRecipients - Leave the recipients' key IDs out of the
+ *   envelope. Each unsealer then tries every CEK entry in turn, so keep the
+ *   recipient count within their `maxRecipientAttempts`. Not available for
+ *   JWE or COSE.
+ */
+export type SealOptions = {
+  aad?: string | Uint8Array;
+  iat?: Date;
+  nbf?: Date;
+  exp?: Date;
+  kw?: KeyWrapAlgorithm;
+  fmt?: EnvelopeFormat;
+  compression?: CompressionAlgorithm | "none";
+  anonymousRecipients?: boolean;
+};
+
+/**
+ * Per-stream options for sealing. Streams have no alternative wire formats,
+ * and are not compressed.
+ *
+ * @property segmentSize - Plaintext bytes per encrypted segment, up to 16
+ *   MiB. Defaults to 64 KiB. Sealing and unsealing each hold about one
+ *   segment in memory.
+ */
+export type SealStreamOptions = Omit<SealOptions, "fmt" | "compression"> & {
+  segmentSize?: number;
+};
+
+/**
+ * Per-envelope options for sealing with a hidden sender. Hidden senders
+ * have no JWE or COSE representation.
+ */
+export type SealHiddenSenderOptions = Omit<SealOptions, "fmt">;
+
+/**
+ * Per-envelope options for unsealing.
+ *
+ * @property aad - Associated data the envelope was sealed with, if any
+ */
+export type UnsealOptions = {
+  aad?: string | Uint8Array;
+};
+
+/**
+ * Options for adding recipients to a sealed envelope. The envelope is
+ * verified against `senderKeys` first, with the verifier policy given here,
+ * so that only envelopes from trusted senders are re-signed.
+ *
+ * @property senderKeys - Public keys of the senders whose envelopes may be
+ *   extended, of any supported type
+ * @property ownPrivateKey - Private key of one of the envelope's existing
+ *   recipients, to recover the CEK with
+ * @property newRecipientKids - Key IDs of the recipients to add, from the
+ *   sealer's recipient keys
+ * @property maxRecipientAttempts - Reject envelopes with anonymous
+ *   recipients that have more CEK entries than this. Defaults to 32, as for
+ *   unsealers.
+ */
+export type AddRecipientsOptions = UnsealOptions &
+  Omit<VerifierOptions, "allowUnsignedCtx"> & {
+    senderKeys: PublicNamedJWK[] | PublicNamedJWKS;
+    ownPrivateKey: RSAPrivateNamedJWK | ECPrivateNamedJWK | OKPPrivateNamedJWK;
+    newRecipientKids: string[];
+    maxRecipientAttempts?: number;
+  };
+
+/**
+ * Options for re-keying a sealed envelope. The envelope's signature is
+ * verified as for adding recipients, but not its validity window, so
+ * envelopes that have expired can still be re-keyed.
+ *
+ * @property recipientKids - Key IDs of the re-keyed envelope's recipients,
+ *   from the sealer's recipient keys
+ */
+export type RekeyOptions = Omit<
+  AddRecipientsOptions,
+  "newRecipientKids" | "clockTolerance" | "maxAge" | "clock"
+> & {
+  recipientKids: string[];
+};
+
+/**
+ * Signatures an unsealer requires on every envelope. The sender's signature
+ * counts, as does each valid countersignature; keys are looked up among the
+ * unsealer's sender keys.
+ *
+ * @property kids - Key IDs whose signatures count towards the threshold
+ * @property threshold - How many of them must have signed
+ */
+export type SignaturePolicy = {
+  kids: string[];
+  threshold: number;
+};
+
+/**
+ * Options fixed when an unsealer is created.
+ *
+ * @property allowUnsignedCtx - Accept v1 envelopes, whose CTX commitment tag
+ *   is not covered by the signature. Off by default; enable it only to read
+ *   envelopes sealed before the tag was signed.
+ * @property clockTolerance - Seconds of clock skew to allow when checking
+ *   `iat`, `nbf` and `exp`. Defaults to 0.
+ * @property maxAge - If set, reject envelopes issued more than this many
+ *   seconds ago, and envelopes with no `iat`
+ * @property clock - Source of the current time; defaults to the system clock
+ * @property replayCache - If set, reject envelopes whose `jti` has already
+ *   been unsealed, and envelopes with no `jti`
+ * @property maxDecompressedSize - Largest payload, in bytes, to accept from
+ *   a compressed envelope. Decompression stops once it is exceeded.
+ *   Defaults to 64 MiB.
+ * @property maxRecipientAttempts - Reject envelopes with anonymous
+ *   recipients that have more CEK entries than this, rather than trying to
+ *   decrypt each. Defaults to 32.
+ * @property signaturePolicy - If set, reject envelopes that do not carry
+ *   enough valid signatures, counting countersignatures, from the given key
+ *   IDs. Without it, countersignatures are not checked.
+ */
+export type UnsealerOptions = {
+  allowUnsignedCtx?: boolean;
+  clockTolerance?: number;
+  maxAge?: number;
+  clock?: () => Date;
+  replayCache?: ReplayCache;
+  maxDecompressedSize?: number;
+  maxRecipientAttempts?: number;
+  signaturePolicy?: SignaturePolicy;
+};
+
+/**
+ * Options fixed when a verifier is created. They mean the same as for an
+ * unsealer.
+ */
+export type VerifierOptions = Pick<
+  UnsealerOptions,
+  "allowUnsignedCtx" | "clockTolerance" | "maxAge" | "clock" | "signaturePolicy"
+>;
@@ -0,0 +1,19 @@
+/**
+ * Records the IDs (`jti`) of envelopes that have been unsealed, so that a
+ * captured envelope cannot be unsealed a second time.
+ *
+ * Implementations shared between processes (e.g. backed by Redis) must make
+ * `checkAndSet` atomic, or two concurrent unseals of the same envelope can
+ * both succeed.
+ */
+export type ReplayCache = {
+  /**
+   * Records an envelope ID, reporting whether it was already present.
+   *
+   * @param jti - The envelope ID
+   * @param expiresAt - When the envelope stops being acceptable anyway, and
+   *   the ID may be forgotten. Absent if the envelope never expires.
+   * @returns `true` if the ID was new, `false` if it had been seen before
+   */
+  checkAndSet(jti: string, expiresAt?: Date): Promise<boolean>;
+};
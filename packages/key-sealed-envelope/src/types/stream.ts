@@ -0,0 +1,46 @@
+import {
+  type ContentEncryptionAlgorithm,
+  type KeySealedEnvelopeClaims,
+  type KeyWrapAlgorithm,
+  type SignatureAlgorithm,
+} from "./envelope.js";
+
+/**
+ * Bytes to seal or unseal as a stream: a Web `ReadableStream`, or any async
+ * iterable of chunks, such as a Node.js `Readable`.
+ */
+export type ByteSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+/**
+ * The record that opens a sealed stream. It is signed on its own, so that
+ * nothing is decrypted before the sender is known to have produced it; a
+ * second signature at the end of the stream covers the segments.
+ *
+ * @property v - Envelope format version
+ * @property alg - Algorithm used to sign the stream
+ * @property kw - Algorithm used to wrap the CEK for each recipient
+ * @property enc - Algorithm used to encrypt each segment
+ * @property anon - Set if the recipients are anonymous, as for envelopes
+ * @property seg - Plaintext length of every segment but the last
+ * @property kid - Key ID of the sender's public key
+ * @property cek - Map of encrypted content keys per recipient
+ * @property kws - The algorithm of each CEK entry, as for envelopes
+ * @property nonce - Random prefix of every segment's nonce, base64
+ * @property ctx - Commitment to the CEK, nonce prefix and AAD
+ * @property signature - Signature over the rest of the header and any AAD
+ */
+export type KeySealedStreamHeader = {
+  v: 2;
+  alg: SignatureAlgorithm;
+  kw: KeyWrapAlgorithm;
+  enc: ContentEncryptionAlgorithm;
+  anon?: true;
+  seg: number;
+} & KeySealedEnvelopeClaims & {
+    kid: string;
+    cek: Record<string, string>;
+    kws?: Record<string, KeyWrapAlgorithm>;
+    nonce: string;
+    ctx: string;
+    signature: string;
+  };
@@ -0,0 +1,30 @@
+import {
+  type EnvelopeProvenance,
+  type KeySealedEnvelopeClaims,
+  type KeySealedEnvelopeHeader,
+} from "./envelope.js";
+
+/**
+ * What a verified envelope says about itself. Everything here is covered by
+ * a checked signature, except the recipients of a v1 envelope.
+ *
+ * @property v - Envelope format version; 1 for envelopes with no header
+ * @property kid - Key ID of the sender
+ * @property signers - Key IDs with a valid signature on the envelope: the
+ *   sender, then any countersigners a signature policy asked about
+ * @property recipients - Key IDs the CEK was wrapped for; empty if the
+ *   recipients are anonymous
+ * @property header - The envelope header, absent for v1 envelopes
+ * @property claims - The envelope claims; v1 envelopes have none
+ * @property prov - For re-keyed envelopes and those with recipients added,
+ *   the envelope they were derived from
+ */
+export type VerifiedEnvelopeMetadata = {
+  v: 1 | 2;
+  kid: string;
+  signers: string[];
+  recipients: string[];
+  header?: KeySealedEnvelopeHeader;
+  claims: KeySealedEnvelopeClaims;
+  prov?: EnvelopeProvenance;
+};
@@ -1,8 +1,87 @@
+import canonicalize from "canonicalize";
 import { describe, expect, it } from "vitest";
 
+import { computeLegacyCtx } from "../commitment.js";
 import { sealCore } from "../sealer/core.js";
+import { encryptCEK } from "../sealer/helpers.js";
+import {
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+} from "../types/index.js";
+import { base64ToUint8Array } from "../utils.js";
 
 import { unsealCore } from "./core.js";
+import { decryptCEK } from "./helpers.js";
+
+// Re-wraps a recipient's CEK with ECDH+A256GCMKW, as v1 and older v2 sealers
+// did. The envelope must be re-signed afterwards.
+async function rewrapWithGCMKW(
+  envelope: KeySealedEnvelope,
+  recipientKid: string,
+  recipientKeyPair: CryptoKeyPair
+): Promise<KeySealedEnvelope> {
+  const cek = await decryptCEK(
+    envelope.cek[recipientKid]!,
+    recipientKeyPair.privateKey,
+    recipientKid,
+    envelope.kw
+  );
+  const wrapped = await encryptCEK(
+    cek,
+    recipientKeyPair.publicKey,
+    recipientKid,
+    "ECDH+A256GCMKW"
+  );
+
+  return {
+    ...envelope,
+    kw: "ECDH+A256GCMKW",
+    cek: {
+      ...envelope.cek,
+      [recipientKid]: btoa(String.fromCharCode(...wrapped)),
+    },
+  };
+}
+
+// Rebuilds an envelope the way v1 sealers produced it: no header, a CTX tag
+// over the payload alone, and a signature over only the kid, CEK map and
+// payload.
+async function toLegacyEnvelope(
+  envelope: KeySealedEnvelope,
+  senderKey: CryptoKey,
+  signParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams
+): Promise<LegacyKeySealedEnvelope> {
+  const { kid, cek, payload } = envelope;
+  const ctx = await computeLegacyCtx(base64ToUint8Array(payload));
+  const message = new TextEncoder().encode(canonicalize({ kid, cek, payload }));
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(signParams, senderKey, message)
+  );
+
+  return {
+    kid,
+    cek,
+    payload,
+    ctx: btoa(String.fromCharCode(...ctx)),
+    signature: btoa(String.fromCharCode(...signature)),
+  };
+}
+
+// Signs an envelope's contents as given, the way a sender that computed a
+// bogus CTX tag would.
+async function resignEnvelope(
+  envelope: KeySealedEnvelope,
+  senderKey: CryptoKey,
+  signParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams
+): Promise<KeySealedEnvelope> {
+  const { signature: _, ...contents } = envelope;
+  const message = new TextEncoder().encode(canonicalize(contents));
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(signParams, senderKey, message)
+  );
+
+  return { ...envelope, signature: btoa(String.fromCharCode(...signature)) };
+}
 
 describe("Envelope Unsealing", () => {
   describe("happy path", () => {
@@ -41,8 +120,7 @@ describe("Envelope Unsealing", () => {
 
       const decrypted = await unsealCore(
         envelope,
-        recipientKeyPair.privateKey,
-        "recipient1",
+        { recipient1: recipientKeyPair.privateKey },
         senderKeys
       );
 
@@ -86,8 +164,7 @@ describe("Envelope Unsealing", () => {
       await expect(
         unsealCore(
           envelope,
-          recipientKeyPair.privateKey,
-          "recipient1",
+          { recipient1: recipientKeyPair.privateKey },
           wrongSenderKeys
         )
       ).rejects.toThrow("Unknown sender key");
@@ -133,8 +210,7 @@ describe("Envelope Unsealing", () => {
       await expect(
         unsealCore(
           tamperedEnvelope,
-          recipientKeyPair.privateKey,
-          "recipient1",
+          { recipient1: recipientKeyPair.privateKey },
           senderKeys
         )
       ).rejects.toThrow("Invalid envelope signature");
@@ -192,11 +268,10 @@ describe("Envelope Unsealing", () => {
       await expect(
         unsealCore(
           tamperedEnvelope,
-          recipientKeyPair.privateKey,
-          "recipient1",
+          { recipient1: recipientKeyPair.privateKey },
           senderKeys
         )
-      ).rejects.toThrow("Invalid CTX tag");
+      ).rejects.toThrow("Invalid envelope signature");
     });
 
     it("rejects modified payload with valid signature", async () => {
@@ -249,11 +324,10 @@ describe("Envelope Unsealing", () => {
       await expect(
         unsealCore(
           mixedEnvelope,
-          recipientKeyPair.privateKey,
-          "recipient1",
+          { recipient1: recipientKeyPair.privateKey },
           senderKeys
         )
-      ).rejects.toThrow("Invalid CTX tag");
+      ).rejects.toThrow("Invalid envelope signature");
     });
 
     it("rejects tampered CTX tag with EC keys", async () => {
@@ -302,11 +376,444 @@ describe("Envelope Unsealing", () => {
       await expect(
         unsealCore(
           tamperedEnvelope,
-          recipientKeyPair.privateKey,
-          "recipient1",
+          { recipient1: recipientKeyPair.privateKey },
           senderKeys
         )
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+
+    it("rejects a signed CTX tag that does not match the payload", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await sealCore(
+        "test message",
+        senderKeyPair.privateKey,
+        "sender1",
+        { recipient1: recipientKeyPair.publicKey }
+      );
+      const envelope2 = await sealCore(
+        "test message",
+        senderKeyPair.privateKey,
+        "sender1",
+        { recipient1: recipientKeyPair.publicKey }
+      );
+
+      const forgedEnvelope = await resignEnvelope(
+        { ...envelope, ctx: envelope2.ctx },
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+
+      await expect(
+        unsealCore(
+          forgedEnvelope,
+          { recipient1: recipientKeyPair.privateKey },
+          {
+            sender1: senderKeyPair.publicKey,
+          }
+        )
       ).rejects.toThrow("Invalid CTX tag");
     });
+
+    it("rejects a recipient handed a different CEK for the same payload", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipient1KeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const recipient2KeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await sealCore(
+        "test message",
+        senderKeyPair.privateKey,
+        "sender1",
+        {
+          recipient1: recipient1KeyPair.publicKey,
+          recipient2: recipient2KeyPair.publicKey,
+        }
+      );
+      const otherEnvelope = await sealCore(
+        "other message",
+        senderKeyPair.privateKey,
+        "sender1",
+        { recipient2: recipient2KeyPair.publicKey }
+      );
+
+      // A dishonest sender wraps a different CEK for recipient2
+      const forgedEnvelope = await resignEnvelope(
+        {
+          ...envelope,
+          cek: { ...envelope.cek, recipient2: otherEnvelope.cek.recipient2! },
+        },
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+      const senderKeys = { sender1: senderKeyPair.publicKey };
+
+      const decrypted = await unsealCore(
+        forgedEnvelope,
+        { recipient1: recipient1KeyPair.privateKey },
+        senderKeys
+      );
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+
+      await expect(
+        unsealCore(
+          forgedEnvelope,
+          { recipient2: recipient2KeyPair.privateKey },
+          senderKeys
+        )
+      ).rejects.toThrow("Invalid CTX tag");
+    });
+  });
+
+  describe("format versions", () => {
+    it("unseals v1 envelopes without a header", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "RSA-PSS",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "RSA-OAEP",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        },
+        true,
+        ["encrypt", "decrypt"]
+      );
+
+      const envelope = await toLegacyEnvelope(
+        await sealCore("test message", senderKeyPair.privateKey, "sender1", {
+          recipient1: recipientKeyPair.publicKey,
+        }),
+        senderKeyPair.privateKey,
+        { name: "RSA-PSS", saltLength: 32 } as RsaPssParams
+      );
+
+      const decrypted = await unsealCore(
+        envelope,
+        { recipient1: recipientKeyPair.privateKey },
+        { sender1: senderKeyPair.publicKey },
+        { allowUnsignedCtx: true }
+      );
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("unseals v1 envelopes sealed with P-384 keys", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-384",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-384",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      // v1 sealers signed with SHA-256 whatever the curve
+      const envelope = await toLegacyEnvelope(
+        await rewrapWithGCMKW(
+          await sealCore("test message", senderKeyPair.privateKey, "sender1", {
+            recipient1: recipientKeyPair.publicKey,
+          }),
+          "recipient1",
+          recipientKeyPair
+        ),
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+
+      const decrypted = await unsealCore(
+        envelope,
+        { recipient1: recipientKeyPair.privateKey },
+        { sender1: senderKeyPair.publicKey },
+        { allowUnsignedCtx: true }
+      );
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("unseals v2 envelopes wrapped with ECDH+A256GCMKW", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await resignEnvelope(
+        await rewrapWithGCMKW(
+          await sealCore("test message", senderKeyPair.privateKey, "sender1", {
+            recipient1: recipientKeyPair.publicKey,
+          }),
+          "recipient1",
+          recipientKeyPair
+        ),
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+
+      const decrypted = await unsealCore(
+        envelope,
+        { recipient1: recipientKeyPair.privateKey },
+        { sender1: senderKeyPair.publicKey }
+      );
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects a wrapped CEK moved to another recipient's entry", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const sealed = await sealCore(
+        "test message",
+        senderKeyPair.privateKey,
+        "sender1",
+        { recipient1: recipientKeyPair.publicKey }
+      );
+      // The KDF binds the recipient's kid, so the same key under another
+      // label no longer unwraps
+      const envelope = await resignEnvelope(
+        { ...sealed, cek: { recipient2: sealed.cek.recipient1! } },
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+
+      await expect(
+        unsealCore(
+          envelope,
+          { recipient2: recipientKeyPair.privateKey },
+          {
+            sender1: senderKeyPair.publicKey,
+          }
+        )
+      ).rejects.toThrow();
+    });
+
+    it("rejects v1 envelopes unless unsigned CTX tags are allowed", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await toLegacyEnvelope(
+        await sealCore("test message", senderKeyPair.privateKey, "sender1", {
+          recipient1: recipientKeyPair.publicKey,
+        }),
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+
+      await expect(
+        unsealCore(
+          envelope,
+          { recipient1: recipientKeyPair.privateKey },
+          {
+            sender1: senderKeyPair.publicKey,
+          }
+        )
+      ).rejects.toThrow("v1 envelope has an unsigned CTX tag");
+    });
+
+    it("rejects associated data for v1 envelopes", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await toLegacyEnvelope(
+        await sealCore("test message", senderKeyPair.privateKey, "sender1", {
+          recipient1: recipientKeyPair.publicKey,
+        }),
+        senderKeyPair.privateKey,
+        { name: "ECDSA", hash: "SHA-256" } as EcdsaParams
+      );
+
+      await expect(
+        unsealCore(
+          envelope,
+          { recipient1: recipientKeyPair.privateKey },
+          { sender1: senderKeyPair.publicKey },
+          { aad: "tenant-1", allowUnsignedCtx: true }
+        )
+      ).rejects.toThrow("v1 envelopes do not support associated data");
+    });
+
+    it("rejects a header that was altered after signing", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await sealCore(
+        "test message",
+        senderKeyPair.privateKey,
+        "sender1",
+        { recipient1: recipientKeyPair.publicKey }
+      );
+
+      await expect(
+        unsealCore(
+          { ...envelope, alg: "ES384" as const },
+          { recipient1: recipientKeyPair.privateKey },
+          { sender1: senderKeyPair.publicKey }
+        )
+      ).rejects.toThrow("Sender key cannot verify ES384 signatures");
+    });
+
+    it("rejects unsupported versions", async () => {
+      const senderKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDSA",
+          namedCurve: "P-256",
+        },
+        true,
+        ["sign", "verify"]
+      );
+
+      const recipientKeyPair = await crypto.subtle.generateKey(
+        {
+          name: "ECDH",
+          namedCurve: "P-256",
+        },
+        true,
+        ["deriveKey"]
+      );
+
+      const envelope = await sealCore(
+        "test message",
+        senderKeyPair.privateKey,
+        "sender1",
+        { recipient1: recipientKeyPair.publicKey }
+      );
+
+      await expect(
+        unsealCore(
+          { ...envelope, v: 3 } as unknown as KeySealedEnvelope,
+          { recipient1: recipientKeyPair.privateKey },
+          { sender1: senderKeyPair.publicKey }
+        )
+      ).rejects.toThrow("Unsupported envelope version: 3");
+    });
   });
 });
@@ -1,91 +1,146 @@
-import { CTX_CONSTANT_STRING } from "../constants.js";
-import { type KeySealedEnvelope } from "../types/envelope.js";
-import { areUint8ArraysEqual, base64ToUint8Array } from "../utils.js";
+import { computeCtx, computeLegacyCtx } from "../commitment.js";
+import { decompress } from "../compression.js";
+import { DEFAULT_MAX_DECOMPRESSED_SIZE } from "../constants.js";
+import {
+  coseEncryptProtectedHeader,
+  coseEncStructure,
+} from "../cose/helpers.js";
+import { jweAdditionalData, jweProtectedHeader } from "../jwe/helpers.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+} from "../types/envelope.js";
+import { type UnsealerOptions, type UnsealOptions } from "../types/options.js";
+import {
+  areUint8ArraysEqual,
+  base64ToUint8Array,
+  normalizeAAD,
+} from "../utils.js";
+import { verifyCore } from "../verifier/core.js";
 
-import { decryptCEK, verifyEnvelope } from "./helpers.js";
+import {
+  checkReplay,
+  findCEK,
+  isHiddenSenderEnvelope,
+  isLegacyEnvelope,
+  legacyKeyWrapAlgorithm,
+} from "./helpers.js";
+import { unsealHiddenSenderCore } from "./hidden-sender.js";
 
 /**
  * Low-level envelope unsealing function. Verifies signature and decrypts payload.
  *
+ * The signature and key wrapping algorithms are taken from the envelope
+ * header. v1 envelopes predate the header, and their algorithms are implied
+ * by the sender and recipient keys. Because v1 signatures do not cover the
+ * CTX tag, they are only accepted with `allowUnsignedCtx`. Envelopes that
+ * hide their sender are passed on to `unsealHiddenSenderCore`.
+ *
  * The unsealing process:
- * 1. Verify envelope signature using sender's public key
- * 2. Decrypt recipient's CEK portion
- * 3. Verify CTX commitment tag
- * 4. Use decrypted CEK to decrypt payload
+ * 1. Verify the envelope with `verifyCore`: its structure and header, the
+ *    sender's signature, any countersignatures a signature policy asks for,
+ *    and the validity claims
+ * 2. Decrypt recipient's CEK portion, trying each in turn if recipients are
+ *    anonymous
+ * 3. Verify CTX commitment tag against the recovered CEK
+ * 4. Use decrypted CEK to decrypt payload, and decompress it if the header
+ *    says it was compressed
+ * 5. Record the envelope ID, if a replay cache is configured
  *
  * @param envelope - The sealed envelope to decrypt
- * @param recipientKey - Private key for decryption
- * @param recipientKid - Key ID of the decryption key
+ * @param recipientKeys - Map of the recipient's key IDs to its private keys;
+ *   whichever the envelope was sealed for is used
  * @param senderKeys - Map of sender key IDs to their public keys
+ * @param options - Per-envelope options such as associated data, plus unsealer policy
  * @returns Decrypted payload as Uint8Array
- * @throws If sender unknown, signature invalid, or CTX verification fails
+ * @throws If sender unknown, header unsupported, signature invalid, envelope
+ *   outside its validity window, not sealed for any of the recipient's keys,
+ *   CTX verification fails, payload too large once decompressed, or
+ *   envelope replayed
  */
 export async function unsealCore(
-  envelope: KeySealedEnvelope,
-  recipientKey: CryptoKey,
-  recipientKid: string,
-  senderKeys: Record<string, CryptoKey>
+  envelope:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope,
+  recipientKeys: Record<string, CryptoKey>,
+  senderKeys: Record<string, CryptoKey>,
+  options: UnsealOptions & UnsealerOptions = {}
 ): Promise<Uint8Array> {
-  const senderKey = senderKeys[envelope.kid];
-  if (!senderKey) {
-    throw new Error("Unknown sender key");
+  if (isHiddenSenderEnvelope(envelope)) {
+    return await unsealHiddenSenderCore(
+      envelope,
+      recipientKeys,
+      senderKeys,
+      options
+    );
   }
 
-  // Verify signature first
-  const signatureValid = await verifyEnvelope(
-    {
-      kid: envelope.kid,
-      cek: envelope.cek,
-      payload: envelope.payload,
-    },
-    envelope.signature,
-    senderKey
-  );
+  // Everything but the CEK and what it protects can be checked first
+  await verifyCore(envelope, senderKeys, options);
 
-  if (!signatureValid) {
-    throw new Error("Invalid envelope signature");
-  }
+  const legacy = isLegacyEnvelope(envelope);
+  const aad = normalizeAAD(options.aad);
 
   // Decrypt the CEK
-  const cek = await decryptCEK(envelope.cek[recipientKid], recipientKey);
+  const { cek } = await findCEK(
+    envelope.cek,
+    !legacy && envelope.anon === true,
+    recipientKeys,
+    legacy ? legacyKeyWrapAlgorithm : (envelope.kws ?? envelope.kw),
+    options.maxRecipientAttempts
+  );
 
   // Extract IV and encrypted data
   const encrypted = base64ToUint8Array(envelope.payload);
   const iv = encrypted.subarray(0, 12);
-  const gcmTag = encrypted.subarray(-16);
-
-  // Build CTX input with domain separator
-  const separator = new TextEncoder().encode(CTX_CONSTANT_STRING);
-  const ctxInput = new Uint8Array(
-    separator.length + iv.length + (encrypted.length - 28) + gcmTag.length
-  );
 
-  let offset = 0;
-  ctxInput.set(separator, offset);
-  offset += separator.length;
-  ctxInput.set(iv, offset);
-  offset += iv.length;
-  ctxInput.set(encrypted.subarray(12, -16), offset);
-  offset += encrypted.length - 28;
-  ctxInput.set(gcmTag, offset);
-
-  const computedCtx = await crypto.subtle.digest("SHA-256", ctxInput);
+  // v2 tags commit to the CEK itself, so a recipient handed a different CEK
+  // for this ciphertext fails here, before anything is decrypted
+  const computedCtx = legacy
+    ? await computeLegacyCtx(encrypted)
+    : await computeCtx(cek, encrypted, aad);
 
   // Verify CTX tag
   const expectedCtx = base64ToUint8Array(envelope.ctx);
-  if (!areUint8ArraysEqual(new Uint8Array(computedCtx), expectedCtx)) {
+  if (!areUint8ArraysEqual(computedCtx, expectedCtx)) {
     throw new Error("Invalid CTX tag");
   }
 
   // Decrypt payload
-  const decrypted = await crypto.subtle.decrypt(
-    {
-      name: "AES-GCM",
-      iv,
-    },
-    cek,
-    encrypted.subarray(12)
+  let additionalData = aad;
+  if (!legacy && envelope.fmt === "jwe") {
+    additionalData = jweAdditionalData(jweProtectedHeader(envelope), aad);
+  } else if (!legacy && envelope.fmt === "cose") {
+    additionalData = coseEncStructure(
+      coseEncryptProtectedHeader(envelope),
+      aad
+    );
+  }
+  let decrypted: Uint8Array = new Uint8Array(
+    await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        ...(additionalData && { additionalData }),
+      },
+      cek,
+      encrypted.subarray(12)
+    )
   );
+  if (!legacy && envelope.zip) {
+    decrypted = await decompress(
+      decrypted,
+      envelope.zip,
+      options.maxDecompressedSize ?? DEFAULT_MAX_DECOMPRESSED_SIZE
+    );
+  }
+
+  // Only envelopes that unsealed successfully are recorded
+  if (options.replayCache) {
+    await checkReplay(legacy ? {} : envelope, options.replayCache, options);
+  }
 
-  return new Uint8Array(decrypted);
+  return decrypted;
 }
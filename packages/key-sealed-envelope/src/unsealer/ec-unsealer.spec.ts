@@ -1,12 +1,18 @@
 import { describe, it, expect } from "vitest";
 
+import { toCOSE } from "../cose/index.js";
 import { ECSealer } from "../sealer/ec-sealer.js";
+import { encryptCEK } from "../sealer/helpers.js";
+import { serializeEnvelope } from "../serialization.js";
 import {
   type ECPrivateNamedJWK,
   type ECPublicNamedJWK,
+  type KeySealedEnvelope,
 } from "../types/index.js";
+import { uint8ArrayToBase64 } from "../utils.js";
 
 import { ECUnsealer } from "./ec-unsealer.js";
+import { decryptCEK } from "./helpers.js";
 
 // Generate test keys
 const senderKeyPair = await crypto.subtle.generateKey(
@@ -61,6 +67,25 @@ const recipientPublicJWK = await keyToPublicJWK(
   "recipient1"
 );
 
+// A recipient's previous key, as during key rotation
+const retiredKeyPair = await crypto.subtle.generateKey(
+  { name: "ECDH", namedCurve: "P-256" },
+  true,
+  ["deriveKey"]
+);
+const retiredPrivateJWK = await keyToPrivateJWK(
+  retiredKeyPair.privateKey,
+  "recipient0"
+);
+const retiredPublicJWK = await keyToPublicJWK(
+  retiredKeyPair.publicKey,
+  "recipient0"
+);
+const keyRingSealer = await ECSealer.create(senderPrivateJWK, [
+  recipientPublicJWK,
+  retiredPublicJWK,
+]);
+
 describe("ECUnsealer", () => {
   describe("creation", () => {
     it("creates instance with valid keys", async () => {
@@ -128,6 +153,10 @@ describe("ECUnsealer", () => {
       await expect(unsealer.unseal(envelope)).rejects.toThrow(
         "Unknown sender key"
       );
+      // Key IDs are not looked up among Object.prototype's members
+      await expect(
+        unsealer.unseal({ ...envelope, kid: "constructor" })
+      ).rejects.toThrow("Unknown sender key");
     });
 
     it("handles binary data", async () => {
@@ -145,4 +174,662 @@ describe("ECUnsealer", () => {
       expect(new Uint8Array(decrypted)).toEqual(binaryData);
     });
   });
+
+  describe("curves", () => {
+    it.each(["P-256", "P-384", "P-521"])(
+      "round-trips a message with %s keys",
+      async (namedCurve) => {
+        const sender = await crypto.subtle.generateKey(
+          { name: "ECDSA", namedCurve },
+          true,
+          ["sign", "verify"]
+        );
+        const recipient = await crypto.subtle.generateKey(
+          { name: "ECDH", namedCurve },
+          true,
+          ["deriveKey"]
+        );
+
+        const sealer = await ECSealer.create(
+          await keyToPrivateJWK(sender.privateKey, "sender1"),
+          [await keyToPublicJWK(recipient.publicKey, "recipient1")]
+        );
+        const unsealer = await ECUnsealer.create(
+          await keyToPrivateJWK(recipient.privateKey, "recipient1"),
+          [await keyToPublicJWK(sender.publicKey, "sender1")]
+        );
+
+        const envelope = await sealer.seal("test message", ["recipient1"]);
+        const decrypted = await unsealer.unseal(envelope);
+
+        expect(new TextDecoder().decode(decrypted)).toBe("test message");
+      }
+    );
+  });
+
+  describe("HPKE key wrapping", () => {
+    it("round-trips a message with HPKE-A256GCM", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        kw: "HPKE-A256GCM",
+      });
+      expect(envelope.kw).toBe("HPKE-A256GCM");
+
+      const decrypted = await unsealer.unseal(envelope);
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects curves HPKE-A256GCM does not cover", async () => {
+      const sender = await crypto.subtle.generateKey(
+        { name: "ECDSA", namedCurve: "P-384" },
+        true,
+        ["sign", "verify"]
+      );
+      const recipient = await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-384" },
+        true,
+        ["deriveKey"]
+      );
+
+      const sealer = await ECSealer.create(
+        await keyToPrivateJWK(sender.privateKey, "sender1"),
+        [await keyToPublicJWK(recipient.publicKey, "recipient1")]
+      );
+
+      await expect(
+        sealer.seal("test message", ["recipient1"], { kw: "HPKE-A256GCM" })
+      ).rejects.toThrow("Recipient key cannot be used with HPKE-A256GCM");
+    });
+  });
+
+  describe("COSE", () => {
+    it("unseals a COSE message with the same keys", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        fmt: "cose",
+        aad: "tenant-1",
+      });
+      const decrypted = await unsealer.unseal(toCOSE(envelope), {
+        aad: "tenant-1",
+      });
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects a COSE message with a different AAD", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        fmt: "cose",
+        aad: "tenant-1",
+      });
+
+      await expect(
+        unsealer.unseal(toCOSE(envelope), { aad: "tenant-2" })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+  });
+
+  describe("anonymous recipients", () => {
+    async function generateRecipients(count: number) {
+      const recipients = [];
+      for (let i = 0; i < count; i++) {
+        const keyPair = await crypto.subtle.generateKey(
+          { name: "ECDH", namedCurve: "P-256" },
+          true,
+          ["deriveKey"]
+        );
+        recipients.push({
+          privateJWK: await keyToPrivateJWK(keyPair.privateKey, `other${i}`),
+          publicJWK: await keyToPublicJWK(keyPair.publicKey, `other${i}`),
+        });
+      }
+      return recipients;
+    }
+
+    it("leaves key IDs out of the envelope", async () => {
+      const others = await generateRecipients(3);
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+        ...others.map(({ publicJWK }) => publicJWK),
+      ]);
+
+      const envelope = await sealer.seal(
+        "test message",
+        ["recipient1", "other0", "other1", "other2"],
+        { anonymousRecipients: true }
+      );
+
+      expect(envelope.anon).toBe(true);
+      expect(Object.keys(envelope.cek)).toHaveLength(4);
+      expect(JSON.stringify(envelope)).not.toMatch(/recipient1|other\d/);
+
+      for (const { privateJWK } of [
+        { privateJWK: recipientPrivateJWK },
+        ...others,
+      ]) {
+        const unsealer = await ECUnsealer.create(privateJWK, [senderPublicJWK]);
+        const decrypted = await unsealer.unseal(envelope);
+        expect(new TextDecoder().decode(decrypted)).toBe("test message");
+      }
+    });
+
+    it("rejects a key that is not a recipient", async () => {
+      const [outsider] = await generateRecipients(1);
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(outsider!.privateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        anonymousRecipients: true,
+      });
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Not a recipient of this envelope"
+      );
+    });
+
+    it("caps the entries tried", async () => {
+      const others = await generateRecipients(2);
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+        ...others.map(({ publicJWK }) => publicJWK),
+      ]);
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { maxRecipientAttempts: 2 }
+      );
+
+      const envelope = await sealer.seal(
+        "test message",
+        ["recipient1", "other0", "other1"],
+        { anonymousRecipients: true }
+      );
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Anonymous envelope has 3 recipients; at most 2 are tried"
+      );
+    });
+
+    it("signs the anonymity flag", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"]);
+
+      await expect(
+        unsealer.unseal({ ...envelope, anon: true })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+
+    it("cannot be combined with JWE or COSE", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+
+      await expect(
+        sealer.seal("test message", ["recipient1"], {
+          fmt: "jwe",
+          anonymousRecipients: true,
+        })
+      ).rejects.toThrow("Anonymous recipients cannot be represented in JWE");
+    });
+  });
+
+  describe("hidden sender", () => {
+    it("keeps the sender out of the envelope", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.sealHiddenSender(
+        "test message",
+        ["recipient1"],
+        { aad: "tenant-1" }
+      );
+
+      expect(envelope.hid).toBe(true);
+      expect(envelope).not.toHaveProperty("kid");
+      expect(envelope).not.toHaveProperty("alg");
+      expect(envelope).not.toHaveProperty("signature");
+      expect(JSON.stringify(envelope)).not.toContain("sender1");
+
+      for (const input of [envelope, serializeEnvelope(envelope)]) {
+        const decrypted = await unsealer.unseal(input, { aad: "tenant-1" });
+        expect(new TextDecoder().decode(decrypted)).toBe("test message");
+      }
+    });
+
+    it("combines with anonymous recipients and compression", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.sealHiddenSender(
+        "test message",
+        ["recipient1"],
+        { anonymousRecipients: true, compression: "deflate" }
+      );
+
+      expect(JSON.stringify(envelope)).not.toMatch(/sender1|recipient1/);
+      const decrypted = await unsealer.unseal(envelope);
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects an unknown sender once decrypted", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, []);
+
+      const envelope = await sealer.sealHiddenSender("test message", [
+        "recipient1",
+      ]);
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Unknown sender key"
+      );
+    });
+
+    it("rejects malformed envelopes before decrypting them", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.sealHiddenSender("test message", [
+        "recipient1",
+      ]);
+
+      for (const malformed of [
+        { ...envelope, cek: null },
+        { ...envelope, cek: { recipient1: 1 } },
+        { ...envelope, kws: { other: "ECDH-ES+A256KW" } },
+        { ...envelope, payload: 42 },
+        { ...envelope, payload: "not base64!" },
+        { ...envelope, ctx: "AAAA" },
+      ]) {
+        await expect(unsealer.unseal(malformed as never)).rejects.toThrow(
+          "Malformed envelope"
+        );
+      }
+    });
+
+    it("signs the claims", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.sealHiddenSender(
+        "test message",
+        ["recipient1"],
+        { exp: new Date(Date.now() + 60_000) }
+      );
+
+      await expect(
+        unsealer.unseal({ ...envelope, exp: envelope.exp! + 3600 })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+
+    it("rejects a payload forwarded by a recipient", async () => {
+      const outsiderKeyPair = await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-256" },
+        true,
+        ["deriveKey"]
+      );
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const outsider = await ECUnsealer.create(
+        await keyToPrivateJWK(outsiderKeyPair.privateKey, "outsider"),
+        [senderPublicJWK]
+      );
+
+      const envelope = await sealer.sealHiddenSender("test message", [
+        "recipient1",
+      ]);
+
+      // recipient1 rewraps the CEK for the outsider, leaving the signed
+      // payload untouched
+      const cek = await decryptCEK(
+        envelope.cek["recipient1"]!,
+        recipientKeyPair.privateKey,
+        "recipient1",
+        envelope.kw
+      );
+      const forwarded = {
+        ...envelope,
+        cek: {
+          outsider: uint8ArrayToBase64(
+            await encryptCEK(
+              cek,
+              outsiderKeyPair.publicKey,
+              "outsider",
+              envelope.kw
+            )
+          ),
+        },
+      };
+
+      await expect(outsider.unseal(forwarded)).rejects.toThrow(
+        "Envelope was not signed for this recipient"
+      );
+    });
+  });
+
+  describe("key rings", () => {
+    it("opens envelopes sealed for any of its keys", async () => {
+      const unsealer = await ECUnsealer.create(
+        { keys: [recipientPrivateJWK, retiredPrivateJWK] },
+        [senderPublicJWK]
+      );
+
+      for (const kid of ["recipient1", "recipient0"]) {
+        const envelope = await keyRingSealer.seal("test message", [kid]);
+        const decrypted = await unsealer.unseal(envelope);
+        expect(new TextDecoder().decode(decrypted)).toBe("test message");
+      }
+    });
+
+    it("finds its key among anonymous recipients", async () => {
+      const unsealer = await ECUnsealer.create(
+        [recipientPrivateJWK, retiredPrivateJWK],
+        [senderPublicJWK]
+      );
+
+      const envelope = await keyRingSealer.seal(
+        "test message",
+        ["recipient0"],
+        {
+          anonymousRecipients: true,
+        }
+      );
+      const hidden = await keyRingSealer.sealHiddenSender(
+        "test message",
+        ["recipient0"],
+        { anonymousRecipients: true }
+      );
+
+      expect(new TextDecoder().decode(await unsealer.unseal(envelope))).toBe(
+        "test message"
+      );
+      // The signed recipient list is checked against the key that matched
+      expect(new TextDecoder().decode(await unsealer.unseal(hidden))).toBe(
+        "test message"
+      );
+    });
+
+    it("holds keys on different curves while moving to a new curve", async () => {
+      const p384Sender = await crypto.subtle.generateKey(
+        { name: "ECDSA", namedCurve: "P-384" },
+        true,
+        ["sign", "verify"]
+      );
+      const p384Recipient = await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-384" },
+        true,
+        ["deriveKey"]
+      );
+      const p384Sealer = await ECSealer.create(
+        await keyToPrivateJWK(p384Sender.privateKey, "sender2"),
+        [await keyToPublicJWK(p384Recipient.publicKey, "recipient2")]
+      );
+      const unsealer = await ECUnsealer.create(
+        {
+          keys: [
+            recipientPrivateJWK,
+            await keyToPrivateJWK(p384Recipient.privateKey, "recipient2"),
+          ],
+        },
+        [senderPublicJWK, await keyToPublicJWK(p384Sender.publicKey, "sender2")]
+      );
+
+      for (const envelope of [
+        await keyRingSealer.seal("test message", ["recipient1"]),
+        await p384Sealer.seal("test message", ["recipient2"]),
+        await p384Sealer.seal("test message", ["recipient2"], {
+          anonymousRecipients: true,
+        }),
+      ]) {
+        const decrypted = await unsealer.unseal(envelope);
+        expect(new TextDecoder().decode(decrypted)).toBe("test message");
+      }
+    });
+
+    it("still rejects a sender key on another curve than its alg names", async () => {
+      const p384Sender = await crypto.subtle.generateKey(
+        { name: "ECDSA", namedCurve: "P-384" },
+        true,
+        ["sign", "verify"]
+      );
+      const unsealer = await ECUnsealer.create(
+        {
+          keys: [
+            recipientPrivateJWK,
+            await keyToPrivateJWK(
+              (
+                await crypto.subtle.generateKey(
+                  { name: "ECDH", namedCurve: "P-384" },
+                  true,
+                  ["deriveKey"]
+                )
+              ).privateKey,
+              "recipient2"
+            ),
+          ],
+        },
+        // The P-384 key is published under the P-256 sender's key ID
+        [await keyToPublicJWK(p384Sender.publicKey, "sender1")]
+      );
+
+      const envelope = await keyRingSealer.seal("test message", ["recipient1"]);
+      expect(envelope.alg).toBe("ES256");
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Sender key cannot verify ES256 signatures"
+      );
+    });
+
+    it("rejects envelopes sealed for none of its keys", async () => {
+      const unsealer = await ECUnsealer.create(
+        [retiredPrivateJWK],
+        [senderPublicJWK]
+      );
+
+      const envelope = await keyRingSealer.seal("test message", ["recipient1"]);
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Not a recipient of this envelope"
+      );
+    });
+
+    it("requires a key", async () => {
+      await expect(ECUnsealer.create([], [senderPublicJWK])).rejects.toThrow(
+        "No private keys specified"
+      );
+    });
+  });
+
+  describe("associated data", () => {
+    it("unseals when the same AAD is supplied", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: "tenant-1",
+      });
+      const decrypted = await unsealer.unseal(envelope, { aad: "tenant-1" });
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects a different AAD", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: "tenant-1",
+      });
+
+      await expect(
+        unsealer.unseal(envelope, { aad: "tenant-2" })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+
+    it("rejects a missing AAD", async () => {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await ECUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: new Uint8Array([1, 2, 3]),
+      });
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Invalid envelope signature"
+      );
+    });
+  });
+
+  describe("validity claims", () => {
+    const issuedAt = new Date("2026-01-01T00:00:00Z");
+    const clockAt = (offsetSeconds: number) => () =>
+      new Date(issuedAt.getTime() + offsetSeconds * 1000);
+
+    async function sealWithClaims(): Promise<KeySealedEnvelope> {
+      const sealer = await ECSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      return sealer.seal("test message", ["recipient1"], {
+        iat: issuedAt,
+        nbf: issuedAt,
+        exp: new Date(issuedAt.getTime() + 60_000),
+      });
+    }
+
+    it("records the claims as NumericDates", async () => {
+      const envelope = await sealWithClaims();
+
+      expect(envelope.iat).toBe(1767225600);
+      expect(envelope.nbf).toBe(1767225600);
+      expect(envelope.exp).toBe(1767225660);
+    });
+
+    it("unseals inside the validity window", async () => {
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { clock: clockAt(30) }
+      );
+
+      const decrypted = await unsealer.unseal(await sealWithClaims());
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects an envelope before nbf", async () => {
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { clock: clockAt(-10) }
+      );
+
+      await expect(unsealer.unseal(await sealWithClaims())).rejects.toThrow(
+        "Envelope is not yet valid"
+      );
+    });
+
+    it("rejects an envelope at or after exp", async () => {
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { clock: clockAt(60) }
+      );
+
+      await expect(unsealer.unseal(await sealWithClaims())).rejects.toThrow(
+        "Envelope has expired"
+      );
+    });
+
+    it("allows for clock skew within the tolerance", async () => {
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { clock: clockAt(65), clockTolerance: 10 }
+      );
+
+      const decrypted = await unsealer.unseal(await sealWithClaims());
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("enforces maxAge against iat", async () => {
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { clock: clockAt(30), maxAge: 20 }
+      );
+
+      await expect(unsealer.unseal(await sealWithClaims())).rejects.toThrow(
+        "Envelope is too old"
+      );
+    });
+
+    it("rejects an envelope whose claims were altered", async () => {
+      const unsealer = await ECUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { clock: clockAt(120) }
+      );
+      const envelope = await sealWithClaims();
+
+      await expect(
+        unsealer.unseal({ ...envelope, exp: envelope.exp! + 3600 })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+  });
 });
@@ -1,80 +1,152 @@
+import { signingKeyAlgorithm } from "../keys.js";
+import { deserializeEnvelope } from "../serialization.js";
 import {
-  type ECPublicNamedJWKS,
   type ECPrivateNamedJWK,
-  type ECPublicNamedJWK,
+  type ECPrivateNamedJWKS,
+  type RSAOrECPublicNamedJWK,
+  type RSAOrECPublicNamedJWKS,
+} from "../types/index.js";
+import {
+  type ByteSource,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+  type UnsealerOptions,
+  type UnsealOptions,
 } from "../types/index.js";
-import { type KeySealedEnvelope } from "../types/index.js";
 
 import { unsealCore } from "./core.js";
+import { unsealStreamCore } from "./stream.js";
 
 export class ECUnsealer {
-  private readonly privateKey: CryptoKey;
-  private readonly privateKid: string;
+  private readonly privateKeys: Map<string, CryptoKey>;
   private readonly senderKeys: Map<string, CryptoKey>;
+  private readonly options: UnsealerOptions;
 
   private constructor(
-    privateKey: CryptoKey,
-    privateKid: string,
-    senderKeys: Map<string, CryptoKey>
+    privateKeys: Map<string, CryptoKey>,
+    senderKeys: Map<string, CryptoKey>,
+    options: UnsealerOptions
   ) {
-    this.privateKey = privateKey;
-    this.privateKid = privateKid;
+    this.privateKeys = privateKeys;
     this.senderKeys = senderKeys;
+    this.options = options;
   }
 
   /**
    * Creates a new ECUnsealer instance.
-   * @param privateJwk - Your EC private key for decryption
-   * @param senderKeys - Array of sender EC public keys or JWKS for verification
+   * @param privateKeys - Your EC private key for decryption, or several as
+   *   an array or JWKS, e.g. current and retired keys during rotation. Each
+   *   may use its own curve, so a ring can move from P-256 to P-384.
+   * @param senderKeys - Array of sender EC or RSA public keys or JWKS for
+   *   verification; EC keys must use one of the private keys' curves
+   * @param options - Unsealer policy, such as accepting v1 envelopes
    * @returns New ECUnsealer instance
-   * @throws If keys use different curves
+   * @throws If no private key is given, or an EC sender key uses a curve
+   *   none of the private keys do
    */
   static async create(
-    privateJwk: ECPrivateNamedJWK,
-    senderKeys: ECPublicNamedJWK[] | ECPublicNamedJWKS
+    privateKeys: ECPrivateNamedJWK | ECPrivateNamedJWK[] | ECPrivateNamedJWKS,
+    senderKeys: RSAOrECPublicNamedJWK[] | RSAOrECPublicNamedJWKS,
+    options: UnsealerOptions = {}
   ): Promise<ECUnsealer> {
-    const privateKey = await crypto.subtle.importKey(
-      "jwk",
-      privateJwk,
-      {
-        name: "ECDH",
-        namedCurve: privateJwk.crv,
-      },
-      true,
-      ["deriveKey"]
-    );
+    const privateJwks = Array.isArray(privateKeys)
+      ? privateKeys
+      : "keys" in privateKeys
+        ? privateKeys.keys
+        : [privateKeys];
+    if (privateJwks.length === 0) {
+      throw new Error("No private keys specified");
+    }
+
+    // Keys may use different curves, as each CEK entry is derived on its
+    // recipient key's curve
+    const curves = new Set(privateJwks.map((jwk) => jwk.crv));
+    const privateKeyMap = new Map();
+    for (const jwk of privateJwks) {
+      const privateKey = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        {
+          name: "ECDH",
+          namedCurve: jwk.crv,
+        },
+        true,
+        ["deriveKey"]
+      );
+      privateKeyMap.set(jwk.kid, privateKey);
+    }
 
     const senderJwks = Array.isArray(senderKeys) ? senderKeys : senderKeys.keys;
 
     const senderKeyMap = new Map();
     for (const jwk of senderJwks) {
-      if (jwk.crv !== privateJwk.crv) {
+      // Senders with RSA keys can seal for EC recipients too
+      if (jwk.kty === "EC" && !curves.has(jwk.crv)) {
         throw new Error("All keys must use the same curve");
       }
 
       const senderKey = await crypto.subtle.importKey(
         "jwk",
         jwk,
-        {
-          name: "ECDSA",
-          namedCurve: jwk.crv,
-        },
+        signingKeyAlgorithm(jwk),
         true,
         ["verify"]
       );
       senderKeyMap.set(jwk.kid, senderKey);
     }
 
-    return new ECUnsealer(privateKey, privateJwk.kid, senderKeyMap);
+    return new ECUnsealer(privateKeyMap, senderKeyMap, options);
+  }
+
+  /**
+   * Unseals an envelope, verifying its signature and decrypting the payload.
+   * Envelopes that hide their sender are decrypted first, then verified.
+   *
+   * @param input - The sealed envelope, or its serialized bytes in either
+   *   encoding or as a COSE message
+   * @param options - Per-envelope options such as associated data
+   * @returns Decrypted payload as Uint8Array
+   * @throws If sender is unknown or signature is invalid
+   */
+  async unseal(
+    input:
+      | KeySealedEnvelope
+      | LegacyKeySealedEnvelope
+      | HiddenSenderKeySealedEnvelope
+      | Uint8Array,
+    options: UnsealOptions = {}
+  ): Promise<Uint8Array> {
+    const envelope =
+      input instanceof Uint8Array ? deserializeEnvelope(input) : input;
+    return await unsealCore(
+      envelope,
+      Object.fromEntries(this.privateKeys),
+      Object.fromEntries(this.senderKeys),
+      { ...this.options, ...options }
+    );
   }
-  async unseal(envelope: KeySealedEnvelope): Promise<Uint8Array> {
-    const senderKey = this.senderKeys.get(envelope.kid);
-    if (!senderKey) {
-      throw new Error("Unknown sender key");
-    }
 
-    return await unsealCore(envelope, this.privateKey, this.privateKid, {
-      [envelope.kid]: senderKey,
-    });
+  /**
+   * Unseals a stream sealed with `sealStream`, decrypting it a segment at a
+   * time. The header is verified before this resolves; the rest is verified
+   * as it is read, and the returned stream errors if any check fails. Treat
+   * its output as unverified until it closes without error.
+   *
+   * @param input - The sealed stream, as a stream or async iterable
+   * @param options - Per-stream options such as associated data
+   * @returns The decrypted stream
+   * @throws If sender is unknown or the header signature is invalid
+   */
+  async unsealStream(
+    input: ByteSource,
+    options: UnsealOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    return await unsealStreamCore(
+      input,
+      Object.fromEntries(this.privateKeys),
+      Object.fromEntries(this.senderKeys),
+      { ...this.options, ...options }
+    );
   }
 }
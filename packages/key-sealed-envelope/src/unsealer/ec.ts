@@ -1,12 +1,15 @@
+import { deriveCOSEWrappingKey, deriveECDHESWrappingKey } from "../kdf.js";
+
 export async function verifyEnvelopeWithEC(
   message: Uint8Array,
   signature: Uint8Array,
-  senderPublicKey: CryptoKey
+  senderPublicKey: CryptoKey,
+  hash: string
 ): Promise<boolean> {
   return await crypto.subtle.verify(
     {
       name: "ECDSA",
-      hash: { name: "SHA-256" },
+      hash: { name: hash },
     },
     senderPublicKey,
     signature,
@@ -21,7 +24,7 @@ export async function decryptCEKWithECDH(
 ): Promise<CryptoKey> {
   const sharedSecret = await crypto.subtle.deriveKey(
     {
-      name: "ECDH",
+      name: recipientKey.algorithm.name,
       public: senderEphemeralKey,
     },
     recipientKey,
@@ -52,3 +55,59 @@ export async function decryptCEKWithECDH(
     ["encrypt", "decrypt"]
   );
 }
+
+export async function decryptCEKWithECDHES(
+  wrappedKey: Uint8Array,
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  senderEphemeralKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveECDHESWrappingKey(
+    recipientKey,
+    senderEphemeralKey,
+    ephemeralPublicKey,
+    recipientKid,
+    "unwrapKey"
+  );
+
+  return await crypto.subtle.unwrapKey(
+    "raw",
+    wrappedKey,
+    wrappingKey,
+    "AES-KW",
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function decryptCEKWithECDHESHKDF(
+  wrappedKey: Uint8Array,
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  senderEphemeralKey: CryptoKey
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveCOSEWrappingKey(
+    recipientKey,
+    senderEphemeralKey,
+    recipientKid,
+    "unwrapKey"
+  );
+
+  return await crypto.subtle.unwrapKey(
+    "raw",
+    wrappedKey,
+    wrappingKey,
+    "AES-KW",
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
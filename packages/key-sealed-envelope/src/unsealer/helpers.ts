@@ -1,11 +1,410 @@
 import canonicalize from "canonicalize";
 
-import { base64ToUint8Array } from "../utils.js";
+import { computeCtx } from "../commitment.js";
+import {
+  DEFAULT_MAX_RECIPIENT_ATTEMPTS,
+  EC_POINT_LENGTHS,
+  ECDSA_PARAMS,
+} from "../constants.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type KeySealedEnvelopeClaims,
+  type KeyWrapAlgorithm,
+  type LegacyKeySealedEnvelope,
+  type ReplayCache,
+  type SignatureAlgorithm,
+  type SignaturePolicy,
+  type UnsealerOptions,
+} from "../types/index.js";
+import {
+  areUint8ArraysEqual,
+  base64ToUint8Array,
+  toNumericDate,
+  uint8ArrayToBase64,
+} from "../utils.js";
 
-import { verifyEnvelopeWithEC, decryptCEKWithECDH } from "./ec.js";
+import {
+  verifyEnvelopeWithEC,
+  decryptCEKWithECDH,
+  decryptCEKWithECDHES,
+  decryptCEKWithECDHESHKDF,
+} from "./ec.js";
+import { decryptCEKWithHPKE } from "./hpke.js";
+import { verifyEnvelopeWithEdDSA } from "./okp.js";
 import { verifyEnvelopeWithRSA, decryptCEKWithRSA } from "./rsa.js";
 
+export function isLegacyEnvelope(
+  envelope:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope
+): envelope is LegacyKeySealedEnvelope {
+  return !("v" in envelope);
+}
+
+export function isHiddenSenderEnvelope(
+  envelope:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope
+): envelope is HiddenSenderKeySealedEnvelope {
+  return "hid" in envelope && envelope.hid === true;
+}
+
+/**
+ * Looks up a key by its ID. Key IDs come from the envelope, so only the
+ * map's own entries count, not members of `Object.prototype` such as
+ * `constructor`.
+ */
+export function lookupKey(
+  keys: Record<string, CryptoKey>,
+  kid: string
+): CryptoKey | undefined {
+  return Object.hasOwn(keys, kid) ? keys[kid] : undefined;
+}
+
+// Length of a CTX tag, a SHA-256 digest
+const CTX_LENGTH = 32;
+
+function isProvenance(prov: unknown): boolean {
+  if (typeof prov !== "object" || prov === null) {
+    return false;
+  }
+  const { kid, alg, signature, jti } = prov as Record<string, unknown>;
+  return (
+    typeof kid === "string" &&
+    typeof alg === "string" &&
+    typeof signature === "string" &&
+    (jti === undefined || typeof jti === "string")
+  );
+}
+
+// Whether a `kws` map tags exactly the entries of a `cek` map
+function isKeyWrapAlgorithmMap(kws: unknown, cek: object): boolean {
+  if (typeof kws !== "object" || kws === null || Array.isArray(kws)) {
+    return false;
+  }
+  const labels = Object.keys(cek);
+  return (
+    Object.keys(kws).length === labels.length &&
+    labels.every(
+      (label) =>
+        Object.hasOwn(kws, label) &&
+        typeof (kws as Record<string, unknown>)[label] === "string"
+    )
+  );
+}
+
+/**
+ * Checks that an envelope's fields have the types they should, and that its
+ * CTX tag is well-formed. Envelopes that hide their sender have no `kid` or
+ * `signature`.
+ *
+ * @throws If the envelope is malformed
+ */
+export function checkEnvelopeStructure(
+  envelope:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope
+): void {
+  // JSON input may carry anything, whatever the type says
+  const { kid, cek, payload, signature, ctx, prov, kws } = envelope as Record<
+    string,
+    unknown
+  >;
+  const hidden = isHiddenSenderEnvelope(envelope);
+  if (
+    (!hidden && (typeof kid !== "string" || typeof signature !== "string")) ||
+    typeof payload !== "string" ||
+    typeof ctx !== "string" ||
+    typeof cek !== "object" ||
+    cek === null ||
+    Array.isArray(cek) ||
+    !Object.values(cek).every((entry) => typeof entry === "string") ||
+    (prov !== undefined && !isProvenance(prov)) ||
+    (kws !== undefined && !isKeyWrapAlgorithmMap(kws, cek))
+  ) {
+    throw new Error("Malformed envelope");
+  }
+
+  let ctxTag: Uint8Array;
+  try {
+    ctxTag = base64ToUint8Array(ctx);
+  } catch {
+    throw new Error("Malformed envelope");
+  }
+  if (ctxTag.length !== CTX_LENGTH) {
+    throw new Error("Malformed envelope");
+  }
+}
+
+/**
+ * Checks that an envelope's validity claims are well-formed, without
+ * comparing them to the current time.
+ *
+ * @throws If a claim is malformed
+ */
+export function checkClaimTypes(claims: KeySealedEnvelopeClaims): void {
+  const jti: unknown = claims.jti;
+  if (jti !== undefined && (typeof jti !== "string" || jti.length === 0)) {
+    throw new Error("Invalid jti claim");
+  }
+  for (const name of ["iat", "nbf", "exp"] as const) {
+    const value: unknown = claims[name];
+    if (value !== undefined && !Number.isSafeInteger(value)) {
+      throw new Error(`Invalid ${name} claim`);
+    }
+  }
+}
+
+/**
+ * Checks an envelope's validity claims against the current time. Call only
+ * after the signature has been verified, so the claims can be trusted.
+ *
+ * @throws If a claim is malformed, or the envelope is outside its validity window
+ */
+export function checkClaims(
+  claims: KeySealedEnvelopeClaims,
+  options: Pick<UnsealerOptions, "clockTolerance" | "maxAge" | "clock">
+): void {
+  checkClaimTypes(claims);
+
+  const now = toNumericDate(options.clock ? options.clock() : new Date());
+  const tolerance = options.clockTolerance ?? 0;
+
+  if (claims.nbf !== undefined && now + tolerance < claims.nbf) {
+    throw new Error("Envelope is not yet valid");
+  }
+  if (claims.exp !== undefined && now - tolerance >= claims.exp) {
+    throw new Error("Envelope has expired");
+  }
+  if (claims.iat !== undefined && now + tolerance < claims.iat) {
+    throw new Error("Envelope was issued in the future");
+  }
+  if (options.maxAge !== undefined) {
+    if (claims.iat === undefined) {
+      throw new Error("Envelope has no iat claim");
+    }
+    if (now - tolerance > claims.iat + options.maxAge) {
+      throw new Error("Envelope is too old");
+    }
+  }
+}
+
+/**
+ * Records an envelope's ID in the replay cache. The ID is kept until the
+ * envelope would be rejected anyway: at `exp` or when `maxAge` runs out,
+ * plus the clock tolerance.
+ *
+ * @throws If the envelope has no ID, or its ID has been seen before
+ */
+export async function checkReplay(
+  claims: KeySealedEnvelopeClaims,
+  replayCache: ReplayCache,
+  options: Pick<UnsealerOptions, "clockTolerance" | "maxAge">
+): Promise<void> {
+  if (claims.jti === undefined) {
+    throw new Error("Envelope has no jti claim");
+  }
+
+  const deadlines: number[] = [];
+  if (claims.exp !== undefined) deadlines.push(claims.exp);
+  if (claims.iat !== undefined && options.maxAge !== undefined) {
+    deadlines.push(claims.iat + options.maxAge);
+  }
+  const expiresAt =
+    deadlines.length > 0
+      ? new Date(
+          (Math.min(...deadlines) + (options.clockTolerance ?? 0)) * 1000
+        )
+      : undefined;
+
+  if (!(await replayCache.checkAndSet(claims.jti, expiresAt))) {
+    throw new Error("Envelope has already been unsealed");
+  }
+}
+
+/**
+ * What the sender's signature covers in a native v2 envelope: every field
+ * but the signatures themselves, plus the AAD, which is not stored.
+ */
+export function signedEnvelopeContents(
+  envelope: Omit<KeySealedEnvelope, "signature">,
+  aad: Uint8Array | undefined
+): object {
+  return {
+    v: envelope.v,
+    alg: envelope.alg,
+    kw: envelope.kw,
+    enc: envelope.enc,
+    zip: envelope.zip,
+    anon: envelope.anon,
+    jti: envelope.jti,
+    iat: envelope.iat,
+    nbf: envelope.nbf,
+    exp: envelope.exp,
+    kid: envelope.kid,
+    cek: envelope.cek,
+    kws: envelope.kws,
+    payload: envelope.payload,
+    ctx: envelope.ctx,
+    prov: envelope.prov,
+    ...(aad && { aad: uint8ArrayToBase64(aad) }),
+  };
+}
+
+/**
+ * What a countersignature covers: the sender's signed contents, and the
+ * countersigner's own key ID and algorithm, so that it cannot pass for a
+ * sender's signature.
+ */
+export function countersignedContents(
+  envelope: KeySealedEnvelope,
+  aad: Uint8Array | undefined,
+  kid: string,
+  alg: SignatureAlgorithm
+): object {
+  return { countersigned: signedEnvelopeContents(envelope, aad), kid, alg };
+}
+
+/**
+ * Finds which of the given key IDs have validly countersigned an envelope.
+ * Countersignatures from other keys are not checked, and invalid ones do
+ * not count.
+ *
+ * @throws If the envelope's `signatures` is not a list
+ */
+export async function verifyCountersignatures(
+  envelope: KeySealedEnvelope,
+  aad: Uint8Array | undefined,
+  senderKeys: Record<string, CryptoKey>,
+  kids: string[]
+): Promise<string[]> {
+  const entries: unknown = envelope.signatures ?? [];
+  if (!Array.isArray(entries)) {
+    throw new Error("Malformed countersignatures");
+  }
+
+  const signers: string[] = [];
+  for (const entry of entries as unknown[]) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { kid, alg, signature } = entry as Record<string, unknown>;
+    if (
+      typeof kid !== "string" ||
+      typeof signature !== "string" ||
+      !kids.includes(kid) ||
+      signers.includes(kid)
+    ) {
+      continue;
+    }
+    const senderKey = lookupKey(senderKeys, kid);
+    if (!senderKey) continue;
+
+    try {
+      const valid = await verifyEnvelope(
+        countersignedContents(envelope, aad, kid, alg as SignatureAlgorithm),
+        signature,
+        senderKey,
+        alg as SignatureAlgorithm
+      );
+      if (valid) signers.push(kid);
+    } catch {
+      // An algorithm the key cannot verify; it does not count
+    }
+  }
+  return signers;
+}
+
+/**
+ * Checks that enough of a signature policy's key IDs signed an envelope.
+ *
+ * @param signers - Key IDs with valid signatures on the envelope
+ * @throws If the policy's threshold is out of range, or too few signed
+ */
+export function checkSignaturePolicy(
+  policy: SignaturePolicy,
+  signers: string[]
+): void {
+  if (
+    !Number.isInteger(policy.threshold) ||
+    policy.threshold < 1 ||
+    policy.threshold > policy.kids.length
+  ) {
+    throw new Error(
+      `Signature policy threshold must be between 1 and ${policy.kids.length}`
+    );
+  }
+  const count = new Set(signers.filter((kid) => policy.kids.includes(kid)))
+    .size;
+  if (count < policy.threshold) {
+    throw new Error(
+      `Envelope has ${count} of ${policy.threshold} required signatures`
+    );
+  }
+}
+
+/**
+ * Verifies a signature using the algorithm named in the envelope header.
+ */
 export async function verifyEnvelope(
+  data: object,
+  signature: string,
+  senderPublicKey: CryptoKey,
+  alg: SignatureAlgorithm
+): Promise<boolean> {
+  const canonicalString = canonicalize(data);
+  return verifyMessage(
+    new TextEncoder().encode(canonicalString),
+    signature,
+    senderPublicKey,
+    alg
+  );
+}
+
+/**
+ * Verifies a signature over raw bytes using the algorithm named in the
+ * envelope header.
+ */
+export async function verifyMessage(
+  message: Uint8Array,
+  signature: string,
+  senderPublicKey: CryptoKey,
+  alg: SignatureAlgorithm
+): Promise<boolean> {
+  const signatureBytes = base64ToUint8Array(signature);
+
+  if (alg === "PS256") {
+    if (senderPublicKey.algorithm.name !== "RSA-PSS") {
+      throw new Error(`Sender key cannot verify ${alg} signatures`);
+    }
+    return verifyEnvelopeWithRSA(message, signatureBytes, senderPublicKey);
+  }
+  if (alg === "ES256" || alg === "ES384" || alg === "ES512") {
+    const { namedCurve, hash } = ECDSA_PARAMS[alg];
+    if (
+      senderPublicKey.algorithm.name !== "ECDSA" ||
+      (senderPublicKey.algorithm as EcKeyAlgorithm).namedCurve !== namedCurve
+    ) {
+      throw new Error(`Sender key cannot verify ${alg} signatures`);
+    }
+    return verifyEnvelopeWithEC(message, signatureBytes, senderPublicKey, hash);
+  }
+  if (alg === "EdDSA") {
+    if (senderPublicKey.algorithm.name !== "Ed25519") {
+      throw new Error(`Sender key cannot verify ${alg} signatures`);
+    }
+    return verifyEnvelopeWithEdDSA(message, signatureBytes, senderPublicKey);
+  }
+  throw new Error(`Unsupported signature algorithm: ${alg}`);
+}
+
+/**
+ * Verifies a v1 envelope signature. v1 envelopes have no header, so the
+ * algorithm is implied by the sender key; ECDSA always used SHA-256.
+ */
+export async function verifyLegacyEnvelope(
   data: { kid: string; cek: Record<string, string>; payload: string },
   signature: string,
   senderPublicKey: CryptoKey
@@ -18,43 +417,218 @@ export async function verifyEnvelope(
     return verifyEnvelopeWithRSA(message, signatureBytes, senderPublicKey);
   }
   if (senderPublicKey.algorithm.name === "ECDSA") {
-    return verifyEnvelopeWithEC(message, signatureBytes, senderPublicKey);
+    return verifyEnvelopeWithEC(
+      message,
+      signatureBytes,
+      senderPublicKey,
+      "SHA-256"
+    );
+  }
+  throw new Error("Unsupported key type");
+}
+
+/**
+ * Names the key wrapping algorithm a v1 envelope used for a recipient key.
+ */
+export function legacyKeyWrapAlgorithm(
+  recipientKey: CryptoKey
+): KeyWrapAlgorithm {
+  if (recipientKey.algorithm.name === "RSA-OAEP") {
+    return "RSA-OAEP-256";
+  }
+  if (recipientKey.algorithm.name === "ECDH") {
+    return "ECDH+A256GCMKW";
   }
   throw new Error("Unsupported key type");
 }
+
 export async function decryptCEK(
   encryptedCEK: string,
-  recipientKey: CryptoKey
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  kw: KeyWrapAlgorithm
 ): Promise<CryptoKey> {
   const encryptedBytes = base64ToUint8Array(encryptedCEK);
 
-  if (recipientKey.algorithm.name === "RSA-OAEP") {
+  if (kw === "RSA-OAEP-256") {
+    if (recipientKey.algorithm.name !== "RSA-OAEP") {
+      throw new Error(`Recipient key cannot unwrap ${kw} keys`);
+    }
     return decryptCEKWithRSA(encryptedBytes, recipientKey);
   }
-  if (recipientKey.algorithm.name === "ECDH") {
-    // Extract ephemeral key and encrypted data
-    const ephemeralKeyBytes = encryptedBytes.subarray(0, 65); // P-256 public key is 65 bytes
-    const encryptedKeyBytes = encryptedBytes.subarray(65);
+  if (
+    kw === "ECDH-ES+A256KW" ||
+    kw === "ECDH-ES+HKDF-256+A256KW" ||
+    kw === "HPKE-A256GCM" ||
+    kw === "ECDH+A256GCMKW"
+  ) {
+    if (
+      recipientKey.algorithm.name !== "ECDH" &&
+      recipientKey.algorithm.name !== "X25519"
+    ) {
+      throw new Error(`Recipient key cannot unwrap ${kw} keys`);
+    }
+    // The ephemeral key is a public key on the recipient's curve
+    const curve =
+      (recipientKey.algorithm as Partial<EcKeyAlgorithm>).namedCurve ??
+      recipientKey.algorithm.name;
+    const pointLength = EC_POINT_LENGTHS[curve];
+    if (!pointLength) {
+      throw new Error(`Unsupported curve: ${curve}`);
+    }
+    if (encryptedBytes.length <= pointLength) {
+      throw new Error("Encrypted CEK is too short");
+    }
+    const ephemeralKeyBytes = encryptedBytes.subarray(0, pointLength);
+    const encryptedKeyBytes = encryptedBytes.subarray(pointLength);
+
+    // HPKE's encapsulated key is the ephemeral key, serialized the same way
+    if (kw === "HPKE-A256GCM") {
+      return decryptCEKWithHPKE(
+        ephemeralKeyBytes,
+        encryptedKeyBytes,
+        recipientKey,
+        recipientKid
+      );
+    }
 
     const ephemeralKey = await crypto.subtle.importKey(
       "raw",
       ephemeralKeyBytes,
-      {
-        name: "ECDH",
-        namedCurve: (recipientKey.algorithm as EcKeyImportParams).namedCurve,
-      },
+      recipientKey.algorithm as EcKeyImportParams,
       true,
       []
     );
 
+    if (kw === "ECDH-ES+A256KW") {
+      return decryptCEKWithECDHES(
+        encryptedKeyBytes,
+        recipientKey,
+        recipientKid,
+        ephemeralKey,
+        ephemeralKeyBytes
+      );
+    }
+    if (kw === "ECDH-ES+HKDF-256+A256KW") {
+      return decryptCEKWithECDHESHKDF(
+        encryptedKeyBytes,
+        recipientKey,
+        recipientKid,
+        ephemeralKey
+      );
+    }
     return decryptCEKWithECDH(encryptedKeyBytes, recipientKey, ephemeralKey);
   }
-  throw new Error("Unsupported key type");
+  throw new Error(`Unsupported key wrapping algorithm: ${kw}`);
+}
+
+/**
+ * Finds and decrypts the recipient's CEK with whichever of its keys the CEK
+ * was wrapped for, so that envelopes sealed for a retired key still open.
+ * Anonymous envelopes do not say which entry is whose, so each is tried
+ * with each key in turn; the key wrapping algorithms are all authenticated,
+ * so only the recipient's own entry decrypts.
+ *
+ * @param encryptedCEKs - The envelope's `cek` map
+ * @param anonymous - Whether the entries are unlabeled
+ * @param recipientKeys - Map of the recipient's key IDs to its private keys
+ * @param kw - Key wrapping algorithm; a map of entry labels to each entry's,
+ *   for envelopes whose recipients' key types differ; or for v1 envelopes a
+ *   function giving it for a key
+ * @param maxAttempts - Most entries to try; anonymous envelopes with more
+ *   are rejected before any is tried
+ * @returns The CEK, and the key ID of the key that unwrapped it
+ * @throws If the envelope has no entry for any of the recipient's keys, or
+ *   an anonymous envelope has more than `maxAttempts` entries
+ */
+export async function findCEK(
+  encryptedCEKs: Record<string, string>,
+  anonymous: boolean,
+  recipientKeys: Record<string, CryptoKey>,
+  kw:
+    | KeyWrapAlgorithm
+    | Record<string, KeyWrapAlgorithm>
+    | ((recipientKey: CryptoKey) => KeyWrapAlgorithm),
+  maxAttempts = DEFAULT_MAX_RECIPIENT_ATTEMPTS
+): Promise<{ cek: CryptoKey; kid: string }> {
+  const keyWrapAlgorithm = (label: string, recipientKey: CryptoKey) => {
+    if (typeof kw === "function") return kw(recipientKey);
+    if (typeof kw === "string") return kw;
+    return kw[label]!;
+  };
+
+  if (!anonymous) {
+    for (const [kid, recipientKey] of Object.entries(recipientKeys)) {
+      if (Object.hasOwn(encryptedCEKs, kid)) {
+        const cek = await decryptCEK(
+          encryptedCEKs[kid]!,
+          recipientKey,
+          kid,
+          keyWrapAlgorithm(kid, recipientKey)
+        );
+        return { cek, kid };
+      }
+    }
+    throw new Error("Not a recipient of this envelope");
+  }
+
+  const entries = Object.entries(encryptedCEKs);
+  if (entries.length > maxAttempts) {
+    throw new Error(
+      `Anonymous envelope has ${entries.length} recipients; at most ${maxAttempts} are tried`
+    );
+  }
+  for (const [label, encryptedCEK] of entries) {
+    for (const [kid, recipientKey] of Object.entries(recipientKeys)) {
+      try {
+        const cek = await decryptCEK(
+          encryptedCEK,
+          recipientKey,
+          kid,
+          keyWrapAlgorithm(label, recipientKey)
+        );
+        return { cek, kid };
+      } catch {
+        // Another recipient's entry, or another of our keys'
+      }
+    }
+  }
+  throw new Error("Not a recipient of this envelope");
+}
+
+/**
+ * Recovers an envelope's CEK with one recipient's key, for re-wrapping it,
+ * and checks that the CTX tag commits to it, so that it is the CEK every
+ * recipient gets.
+ *
+ * @throws If the key is not a recipient's, or the CTX tag does not match
+ */
+export async function recoverCEK(
+  envelope: KeySealedEnvelope,
+  recipientKey: CryptoKey,
+  recipientKid: string,
+  aad: Uint8Array | undefined,
+  maxAttempts?: number
+): Promise<CryptoKey> {
+  const { cek } = await findCEK(
+    envelope.cek,
+    envelope.anon === true,
+    { [recipientKid]: recipientKey },
+    envelope.kws ?? envelope.kw,
+    maxAttempts
+  );
+
+  const ctx = await computeCtx(cek, base64ToUint8Array(envelope.payload), aad);
+  if (!areUint8ArraysEqual(ctx, base64ToUint8Array(envelope.ctx))) {
+    throw new Error("Invalid CTX tag");
+  }
+  return cek;
 }
 
 export async function decryptPayload(
   encryptedPayload: string,
-  cek: CryptoKey
+  cek: CryptoKey,
+  aad?: Uint8Array
 ): Promise<Uint8Array> {
   const encryptedBytes = base64ToUint8Array(encryptedPayload);
   const iv = encryptedBytes.subarray(0, 12);
@@ -64,6 +638,7 @@ export async function decryptPayload(
     {
       name: "AES-GCM",
       iv,
+      ...(aad && { additionalData: aad }),
     },
     cek,
     ciphertext
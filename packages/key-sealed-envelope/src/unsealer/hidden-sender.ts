@@ -0,0 +1,208 @@
+import { decodeCBOR } from "../cbor.js";
+import { computeCtx } from "../commitment.js";
+import { decompress } from "../compression.js";
+import {
+  DEFAULT_MAX_DECOMPRESSED_SIZE,
+  ENVELOPE_VERSION,
+} from "../constants.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type SignatureAlgorithm,
+  type UnsealerOptions,
+  type UnsealOptions,
+} from "../types/index.js";
+import {
+  areUint8ArraysEqual,
+  base64ToUint8Array,
+  normalizeAAD,
+  uint8ArrayToBase64,
+} from "../utils.js";
+
+import {
+  checkClaims,
+  checkEnvelopeStructure,
+  checkReplay,
+  checkSignaturePolicy,
+  findCEK,
+  lookupKey,
+  verifyEnvelope,
+} from "./helpers.js";
+
+type SealedPayload = {
+  alg: SignatureAlgorithm;
+  kid: string;
+  rcpt: string[];
+  sig: Uint8Array;
+  msg: Uint8Array;
+};
+
+function parseSealedPayload(bytes: Uint8Array): SealedPayload {
+  let value: unknown;
+  try {
+    value = decodeCBOR(bytes);
+  } catch {
+    throw new Error("Malformed sealed payload");
+  }
+  if (!(value instanceof Map)) {
+    throw new Error("Malformed sealed payload");
+  }
+  const alg: unknown = value.get("alg");
+  const kid: unknown = value.get("kid");
+  const rcpt: unknown = value.get("rcpt");
+  const sig: unknown = value.get("sig");
+  const msg: unknown = value.get("msg");
+  if (
+    typeof alg !== "string" ||
+    typeof kid !== "string" ||
+    !Array.isArray(rcpt) ||
+    !rcpt.every((item) => typeof item === "string") ||
+    !(sig instanceof Uint8Array) ||
+    !(msg instanceof Uint8Array)
+  ) {
+    throw new Error("Malformed sealed payload");
+  }
+  return { alg: alg as SignatureAlgorithm, kid, rcpt, sig, msg };
+}
+
+/**
+ * Low-level unsealing function for envelopes sealed by
+ * `sealHiddenSenderCore`. The sender is only known once the payload is
+ * decrypted, so the CEK is recovered before anything is verified.
+ *
+ * The unsealing process:
+ * 1. Check the envelope's fields and header are well-formed and supported
+ * 2. Decrypt recipient's CEK portion, trying each in turn if recipients are
+ *    anonymous
+ * 3. Verify CTX commitment tag against the recovered CEK
+ * 4. Use decrypted CEK to decrypt the payload, and decompress it if the
+ *    header says it was compressed
+ * 5. Verify the enclosed signature using the enclosed sender's public key
+ * 6. Check that the signed recipients include this one
+ * 7. Check the validity claims against the clock
+ * 8. Record the envelope ID, if a replay cache is configured
+ *
+ * @param envelope - The sealed envelope to decrypt
+ * @param recipientKeys - Map of the recipient's key IDs to its private keys;
+ *   whichever the envelope was sealed for is used
+ * @param senderKeys - Map of sender key IDs to their public keys
+ * @param options - Per-envelope options such as associated data, plus unsealer policy
+ * @returns Decrypted payload as Uint8Array
+ * @throws If envelope malformed, header unsupported, CTX verification fails,
+ *   sender unknown, signature invalid, envelope signed for other recipients
+ *   or outside its validity window, payload too large once decompressed, or
+ *   envelope replayed
+ */
+export async function unsealHiddenSenderCore(
+  envelope: HiddenSenderKeySealedEnvelope,
+  recipientKeys: Record<string, CryptoKey>,
+  senderKeys: Record<string, CryptoKey>,
+  options: UnsealOptions & UnsealerOptions = {}
+): Promise<Uint8Array> {
+  checkEnvelopeStructure(envelope);
+
+  // JSON input may carry anything, whatever the type says
+  const version: number = envelope.v;
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+  if (envelope.enc !== "A256GCM") {
+    throw new Error(
+      `Unsupported content encryption algorithm: ${envelope.enc}`
+    );
+  }
+  const zip: string | undefined = envelope.zip;
+  if (zip !== undefined && zip !== "deflate" && zip !== "gzip") {
+    throw new Error(`Unsupported compression algorithm: ${zip}`);
+  }
+
+  const aad = normalizeAAD(options.aad);
+
+  const { cek, kid: recipientKid } = await findCEK(
+    envelope.cek,
+    envelope.anon === true,
+    recipientKeys,
+    envelope.kws ?? envelope.kw,
+    options.maxRecipientAttempts
+  );
+
+  // The structure check leaves the payload undecoded, as it may be large
+  let encrypted: Uint8Array;
+  try {
+    encrypted = base64ToUint8Array(envelope.payload);
+  } catch {
+    throw new Error("Malformed envelope");
+  }
+  const computedCtx = await computeCtx(cek, encrypted, aad);
+  if (!areUint8ArraysEqual(computedCtx, base64ToUint8Array(envelope.ctx))) {
+    throw new Error("Invalid CTX tag");
+  }
+
+  let decrypted: Uint8Array = new Uint8Array(
+    await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: encrypted.subarray(0, 12),
+        ...(aad && { additionalData: aad }),
+      },
+      cek,
+      encrypted.subarray(12)
+    )
+  );
+  if (envelope.zip) {
+    decrypted = await decompress(
+      decrypted,
+      envelope.zip,
+      options.maxDecompressedSize ?? DEFAULT_MAX_DECOMPRESSED_SIZE
+    );
+  }
+  const sealed = parseSealedPayload(decrypted);
+
+  const senderKey = lookupKey(senderKeys, sealed.kid);
+  if (!senderKey) {
+    throw new Error("Unknown sender key");
+  }
+
+  const digest = await crypto.subtle.digest("SHA-256", sealed.msg);
+  const signatureValid = await verifyEnvelope(
+    {
+      v: envelope.v,
+      kw: envelope.kw,
+      enc: envelope.enc,
+      zip: envelope.zip,
+      anon: envelope.anon,
+      hid: envelope.hid,
+      jti: envelope.jti,
+      iat: envelope.iat,
+      nbf: envelope.nbf,
+      exp: envelope.exp,
+      alg: sealed.alg,
+      kid: sealed.kid,
+      rcpt: sealed.rcpt,
+      digest: uint8ArrayToBase64(new Uint8Array(digest)),
+      ...(aad && { aad: uint8ArrayToBase64(aad) }),
+    },
+    uint8ArrayToBase64(sealed.sig),
+    senderKey,
+    sealed.alg
+  );
+  if (!signatureValid) {
+    throw new Error("Invalid envelope signature");
+  }
+  if (options.signaturePolicy) {
+    checkSignaturePolicy(options.signaturePolicy, [sealed.kid]);
+  }
+
+  // A recipient may have re-sealed a payload signed for someone else
+  if (!sealed.rcpt.includes(recipientKid)) {
+    throw new Error("Envelope was not signed for this recipient");
+  }
+
+  checkClaims(envelope, options);
+
+  // Only envelopes that unsealed successfully are recorded
+  if (options.replayCache) {
+    await checkReplay(envelope, options.replayCache, options);
+  }
+
+  return sealed.msg;
+}
@@ -0,0 +1,28 @@
+import { HPKE_INFO_STRING } from "../constants.js";
+import { hpkeOpen } from "../hpke.js";
+
+export async function decryptCEKWithHPKE(
+  enc: Uint8Array,
+  encryptedCEK: Uint8Array,
+  recipientKey: CryptoKey,
+  recipientKid: string
+): Promise<CryptoKey> {
+  const cek = await hpkeOpen(
+    recipientKey,
+    enc,
+    new TextEncoder().encode(HPKE_INFO_STRING),
+    new TextEncoder().encode(recipientKid),
+    encryptedCEK
+  );
+
+  return await crypto.subtle.importKey(
+    "raw",
+    cek,
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
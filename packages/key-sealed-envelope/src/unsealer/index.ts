@@ -1,3 +1,6 @@
 export { ECUnsealer } from "./ec-unsealer.js";
+export { OKPUnsealer } from "./okp-unsealer.js";
 export { RSAUnsealer } from "./rsa-unsealer.js";
 export { unsealCore } from "./core.js";
+export { unsealHiddenSenderCore } from "./hidden-sender.js";
+export { unsealStreamCore } from "./stream.js";
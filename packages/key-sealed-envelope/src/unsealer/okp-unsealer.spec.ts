@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+
+import { OKPSealer } from "../sealer/okp-sealer.js";
+import {
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+} from "../types/index.js";
+
+import { OKPUnsealer } from "./okp-unsealer.js";
+
+// Generate test keys
+const senderKeyPair = (await crypto.subtle.generateKey(
+  { name: "Ed25519" },
+  true,
+  ["sign", "verify"]
+)) as CryptoKeyPair;
+
+const recipientKeyPair = (await crypto.subtle.generateKey(
+  { name: "X25519" },
+  true,
+  ["deriveKey"]
+)) as CryptoKeyPair;
+
+async function keyToPrivateJWK(
+  key: CryptoKey,
+  kid: string
+): Promise<OKPPrivateNamedJWK> {
+  const jwk = await crypto.subtle.exportKey("jwk", key);
+  return { ...jwk, kid } as OKPPrivateNamedJWK;
+}
+
+async function keyToPublicJWK(
+  key: CryptoKey,
+  kid: string
+): Promise<OKPPublicNamedJWK> {
+  const jwk = await crypto.subtle.exportKey("jwk", key);
+  return { ...jwk, kid } as OKPPublicNamedJWK;
+}
+
+// Convert keys to JWKs
+const senderPrivateJWK = await keyToPrivateJWK(
+  senderKeyPair.privateKey,
+  "sender1"
+);
+const senderPublicJWK = await keyToPublicJWK(
+  senderKeyPair.publicKey,
+  "sender1"
+);
+const recipientPrivateJWK = await keyToPrivateJWK(
+  recipientKeyPair.privateKey,
+  "recipient1"
+);
+const recipientPublicJWK = await keyToPublicJWK(
+  recipientKeyPair.publicKey,
+  "recipient1"
+);
+
+describe("OKPUnsealer", () => {
+  describe("creation", () => {
+    it("rejects an Ed25519 decryption key", async () => {
+      await expect(
+        OKPUnsealer.create(senderPrivateJWK, [senderPublicJWK])
+      ).rejects.toThrow("Decryption key must be an X25519 key");
+    });
+
+    it("rejects an X25519 sender key", async () => {
+      await expect(
+        OKPUnsealer.create(recipientPrivateJWK, [recipientPublicJWK])
+      ).rejects.toThrow("Sender keys must be Ed25519 keys");
+    });
+  });
+
+  describe("unsealing", () => {
+    it("unseals message from known sender", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await OKPUnsealer.create(recipientPrivateJWK, {
+        keys: [senderPublicJWK],
+      });
+
+      const envelope = await sealer.seal("test message", ["recipient1"]);
+      const decrypted = await unsealer.unseal(envelope);
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects unknown sender", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await OKPUnsealer.create(recipientPrivateJWK, []);
+
+      const envelope = await sealer.seal("test message", ["recipient1"]);
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Unknown sender key"
+      );
+    });
+
+    it("handles binary data", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await OKPUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const binaryData = new Uint8Array([1, 2, 3, 4, 5]);
+      const envelope = await sealer.seal(binaryData, ["recipient1"]);
+      const decrypted = await unsealer.unseal(envelope);
+
+      expect(new Uint8Array(decrypted)).toEqual(binaryData);
+    });
+
+    it("unseals HPKE-A256GCM envelopes", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await OKPUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        kw: "HPKE-A256GCM",
+      });
+      const decrypted = await unsealer.unseal(envelope);
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects a tampered payload", async () => {
+      const sealer = await OKPSealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await OKPUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"]);
+      const other = await sealer.seal("other message", ["recipient1"]);
+
+      await expect(
+        unsealer.unseal({ ...envelope, payload: other.payload })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+  });
+});
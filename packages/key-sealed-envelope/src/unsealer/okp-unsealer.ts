@@ -0,0 +1,149 @@
+import { deserializeEnvelope } from "../serialization.js";
+import {
+  type OKPPublicNamedJWKS,
+  type OKPPrivateNamedJWK,
+  type OKPPrivateNamedJWKS,
+  type OKPPublicNamedJWK,
+} from "../types/index.js";
+import {
+  type ByteSource,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+  type UnsealerOptions,
+  type UnsealOptions,
+} from "../types/index.js";
+
+import { unsealCore } from "./core.js";
+import { unsealStreamCore } from "./stream.js";
+
+export class OKPUnsealer {
+  private readonly privateKeys: Map<string, CryptoKey>;
+  private readonly senderKeys: Map<string, CryptoKey>;
+  private readonly options: UnsealerOptions;
+
+  private constructor(
+    privateKeys: Map<string, CryptoKey>,
+    senderKeys: Map<string, CryptoKey>,
+    options: UnsealerOptions
+  ) {
+    this.privateKeys = privateKeys;
+    this.senderKeys = senderKeys;
+    this.options = options;
+  }
+
+  /**
+   * Creates a new OKPUnsealer instance.
+   * @param privateKeys - Your X25519 private key for decryption, or several
+   *   as an array or JWKS, e.g. current and retired keys during rotation
+   * @param senderKeys - Array of sender Ed25519 public keys or JWKS for verification
+   * @param options - Unsealer policy, such as validity and replay checks
+   * @returns New OKPUnsealer instance
+   * @throws If no private key is given, a decryption key is not X25519 or a
+   *   sender key is not Ed25519
+   */
+  static async create(
+    privateKeys:
+      | OKPPrivateNamedJWK
+      | OKPPrivateNamedJWK[]
+      | OKPPrivateNamedJWKS,
+    senderKeys: OKPPublicNamedJWK[] | OKPPublicNamedJWKS,
+    options: UnsealerOptions = {}
+  ): Promise<OKPUnsealer> {
+    const privateJwks = Array.isArray(privateKeys)
+      ? privateKeys
+      : "keys" in privateKeys
+        ? privateKeys.keys
+        : [privateKeys];
+    if (privateJwks.length === 0) {
+      throw new Error("No private keys specified");
+    }
+
+    const privateKeyMap = new Map();
+    for (const jwk of privateJwks) {
+      if (jwk.crv !== "X25519") {
+        throw new Error("Decryption key must be an X25519 key");
+      }
+
+      const privateKey = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        { name: "X25519" },
+        true,
+        ["deriveKey"]
+      );
+      privateKeyMap.set(jwk.kid, privateKey);
+    }
+
+    const senderJwks = Array.isArray(senderKeys) ? senderKeys : senderKeys.keys;
+
+    const senderKeyMap = new Map();
+    for (const jwk of senderJwks) {
+      if (jwk.crv !== "Ed25519") {
+        throw new Error("Sender keys must be Ed25519 keys");
+      }
+
+      const senderKey = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        { name: "Ed25519" },
+        true,
+        ["verify"]
+      );
+      senderKeyMap.set(jwk.kid, senderKey);
+    }
+
+    return new OKPUnsealer(privateKeyMap, senderKeyMap, options);
+  }
+
+  /**
+   * Unseals an envelope, verifying its signature and decrypting the payload.
+   * Envelopes that hide their sender are decrypted first, then verified.
+   *
+   * @param input - The sealed envelope, or its serialized bytes in either
+   *   encoding or as a COSE message
+   * @param options - Per-envelope options such as associated data
+   * @returns Decrypted payload as Uint8Array
+   * @throws If sender is unknown or signature is invalid
+   */
+  async unseal(
+    input:
+      | KeySealedEnvelope
+      | LegacyKeySealedEnvelope
+      | HiddenSenderKeySealedEnvelope
+      | Uint8Array,
+    options: UnsealOptions = {}
+  ): Promise<Uint8Array> {
+    const envelope =
+      input instanceof Uint8Array ? deserializeEnvelope(input) : input;
+    return await unsealCore(
+      envelope,
+      Object.fromEntries(this.privateKeys),
+      Object.fromEntries(this.senderKeys),
+      { ...this.options, ...options }
+    );
+  }
+
+  /**
+   * Unseals a stream sealed with `sealStream`, decrypting it a segment at a
+   * time. The header is verified before this resolves; the rest is verified
+   * as it is read, and the returned stream errors if any check fails. Treat
+   * its output as unverified until it closes without error.
+   *
+   * @param input - The sealed stream, as a stream or async iterable
+   * @param options - Per-stream options such as associated data
+   * @returns The decrypted stream
+   * @throws If sender is unknown or the header signature is invalid
+   */
+  async unsealStream(
+    input: ByteSource,
+    options: UnsealOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    return await unsealStreamCore(
+      input,
+      Object.fromEntries(this.privateKeys),
+      Object.fromEntries(this.senderKeys),
+      { ...this.options, ...options }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+export async function verifyEnvelopeWithEdDSA(
+  message: Uint8Array,
+  signature: Uint8Array,
+  senderPublicKey: CryptoKey
+): Promise<boolean> {
+  return await crypto.subtle.verify(
+    { name: "Ed25519" },
+    senderPublicKey,
+    signature,
+    message
+  );
+}
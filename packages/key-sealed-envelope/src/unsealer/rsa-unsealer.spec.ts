@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 
+import { InMemoryReplayCache } from "../replay/index.js";
 import { RSASealer } from "../sealer/rsa-sealer.js";
 import {
   type RSAPrivateNamedJWK,
@@ -105,6 +106,23 @@ describe("RSAUnsealer", () => {
       expect(new TextDecoder().decode(decrypted)).toBe(message);
     });
 
+    it("unseals envelopes with anonymous recipients", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        anonymousRecipients: true,
+      });
+      expect(envelope.cek).not.toHaveProperty("recipient1");
+
+      const decrypted = await unsealer.unseal(envelope);
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
     it("rejects unknown sender", async () => {
       const unsealer = await RSAUnsealer.create(recipientPrivateJWK, []);
       const sealer = await RSASealer.create(senderPrivateJWK, [
@@ -133,4 +151,127 @@ describe("RSAUnsealer", () => {
       expect(new Uint8Array(decrypted)).toEqual(binaryData);
     });
   });
+
+  describe("associated data", () => {
+    it("unseals when the same AAD is supplied", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: "tenant-1",
+      });
+      const decrypted = await unsealer.unseal(envelope, { aad: "tenant-1" });
+
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects a different AAD", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: "tenant-1",
+      });
+
+      await expect(
+        unsealer.unseal(envelope, { aad: "tenant-2" })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+
+    it("rejects a missing AAD", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(recipientPrivateJWK, [
+        senderPublicJWK,
+      ]);
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: new Uint8Array([1, 2, 3]),
+      });
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Invalid envelope signature"
+      );
+    });
+  });
+
+  describe("replay protection", () => {
+    it("gives every envelope a distinct jti", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+
+      const first = await sealer.seal("test message", ["recipient1"]);
+      const second = await sealer.seal("test message", ["recipient1"]);
+
+      expect(first.jti).toEqual(expect.any(String));
+      expect(first.jti).not.toBe(second.jti);
+    });
+
+    it("rejects an envelope that has already been unsealed", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { replayCache: new InMemoryReplayCache() }
+      );
+
+      const envelope = await sealer.seal("test message", ["recipient1"]);
+      await unsealer.unseal(envelope);
+
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Envelope has already been unsealed"
+      );
+    });
+
+    it("does not record envelopes that fail to unseal", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { replayCache: new InMemoryReplayCache() }
+      );
+
+      const envelope = await sealer.seal("test message", ["recipient1"], {
+        aad: "tenant-1",
+      });
+      await expect(unsealer.unseal(envelope)).rejects.toThrow(
+        "Invalid envelope signature"
+      );
+
+      const decrypted = await unsealer.unseal(envelope, { aad: "tenant-1" });
+      expect(new TextDecoder().decode(decrypted)).toBe("test message");
+    });
+
+    it("rejects a jti swapped in from another envelope", async () => {
+      const sealer = await RSASealer.create(senderPrivateJWK, [
+        recipientPublicJWK,
+      ]);
+      const unsealer = await RSAUnsealer.create(
+        recipientPrivateJWK,
+        [senderPublicJWK],
+        { replayCache: new InMemoryReplayCache() }
+      );
+
+      const envelope = await sealer.seal("test message", ["recipient1"]);
+      const other = await sealer.seal("test message", ["recipient1"]);
+
+      await expect(
+        unsealer.unseal({ ...envelope, jti: other.jti! })
+      ).rejects.toThrow("Invalid envelope signature");
+    });
+  });
 });
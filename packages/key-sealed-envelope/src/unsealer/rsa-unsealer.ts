@@ -1,58 +1,91 @@
+import { signingKeyAlgorithm } from "../keys.js";
+import { deserializeEnvelope } from "../serialization.js";
 import {
-  type RSAPublicNamedJWKS,
+  type RSAOrECPublicNamedJWK,
+  type RSAOrECPublicNamedJWKS,
   type RSAPrivateNamedJWK,
-  type RSAPublicNamedJWK,
+  type RSAPrivateNamedJWKS,
+} from "../types/index.js";
+import {
+  type ByteSource,
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+  type UnsealerOptions,
+  type UnsealOptions,
 } from "../types/index.js";
-import { type KeySealedEnvelope } from "../types/index.js";
 
 import { unsealCore } from "./core.js";
+import { unsealStreamCore } from "./stream.js";
 
 /**
  * Decrypts and verifies RSA-sealed envelopes.
  *
  * Uses RSA-OAEP with SHA-256 for decrypting the content key (your private key)
  * and RSA-PSS with SHA-256 for verifying signatures (sender public keys).
+ * Senders with EC keys, signing with ECDSA, are accepted too.
  *
  * @example
  * const unsealer = await RSAUnsealer.create(yourPrivateJWK, [senderPublicJWKs]);
  * const decrypted = await unsealer.unseal(envelope);
  */
 export class RSAUnsealer {
-  private readonly privateKey: CryptoKey;
-  private readonly privateKid: string;
+  private readonly privateKeys: Map<string, CryptoKey>;
   private readonly senderKeys: Map<string, CryptoKey>;
+  private readonly options: UnsealerOptions;
 
   private constructor(
-    privateKey: CryptoKey,
-    privateKid: string,
-    senderKeys: Map<string, CryptoKey>
+    privateKeys: Map<string, CryptoKey>,
+    senderKeys: Map<string, CryptoKey>,
+    options: UnsealerOptions
   ) {
-    this.privateKey = privateKey;
-    this.privateKid = privateKid;
+    this.privateKeys = privateKeys;
     this.senderKeys = senderKeys;
+    this.options = options;
   }
 
   /**
    * Creates a new RSAUnsealer instance.
    *
-   * @param privateJwk - Your RSA private key for decryption
-   * @param senderJwks - Array of sender RSA public keys or a JWKS for verification
+   * @param privateKeys - Your RSA private key for decryption, or several as
+   *   an array or JWKS, e.g. current and retired keys during rotation
+   * @param senderJwks - Array of sender RSA or EC public keys or a JWKS for
+   *   verification
+   * @param options - Unsealer policy, such as accepting v1 envelopes
    * @returns New RSAUnsealer instance
+   * @throws If no private key is given
    */
   static async create(
-    privateJwk: RSAPrivateNamedJWK,
-    senderKeys: RSAPublicNamedJWK[] | RSAPublicNamedJWKS
+    privateKeys:
+      | RSAPrivateNamedJWK
+      | RSAPrivateNamedJWK[]
+      | RSAPrivateNamedJWKS,
+    senderKeys: RSAOrECPublicNamedJWK[] | RSAOrECPublicNamedJWKS,
+    options: UnsealerOptions = {}
   ): Promise<RSAUnsealer> {
-    const privateKey = await crypto.subtle.importKey(
-      "jwk",
-      privateJwk,
-      {
-        name: "RSA-OAEP",
-        hash: "SHA-256",
-      },
-      true,
-      ["decrypt"]
-    );
+    const privateJwks = Array.isArray(privateKeys)
+      ? privateKeys
+      : "keys" in privateKeys
+        ? privateKeys.keys
+        : [privateKeys];
+    if (privateJwks.length === 0) {
+      throw new Error("No private keys specified");
+    }
+
+    const privateKeyMap = new Map();
+    for (const jwk of privateJwks) {
+      const privateKey = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        {
+          name: "RSA-OAEP",
+          hash: "SHA-256",
+        },
+        true,
+        ["decrypt"]
+      );
+      privateKeyMap.set(jwk.kid, privateKey);
+    }
 
     const senderJwks = Array.isArray(senderKeys) ? senderKeys : senderKeys.keys;
 
@@ -61,33 +94,64 @@ export class RSAUnsealer {
       const senderKey = await crypto.subtle.importKey(
         "jwk",
         jwk,
-        {
-          name: "RSA-PSS",
-          hash: "SHA-256",
-        },
+        signingKeyAlgorithm(jwk),
         true,
         ["verify"]
       );
       senderKeyMap.set(jwk.kid, senderKey);
     }
 
-    return new RSAUnsealer(privateKey, privateJwk.kid, senderKeyMap);
+    return new RSAUnsealer(privateKeyMap, senderKeyMap, options);
   }
+
   /**
    * Unseals an envelope, verifying its signature and decrypting the payload.
+   * Envelopes that hide their sender are decrypted first, then verified.
    *
-   * @param envelope - The sealed envelope to decrypt
+   * @param input - The sealed envelope, or its serialized bytes in either
+   *   encoding or as a COSE message
+   * @param options - Per-envelope options such as associated data
    * @returns Decrypted payload as Uint8Array
    * @throws If sender is unknown or signature is invalid
    */
-  async unseal(envelope: KeySealedEnvelope): Promise<Uint8Array> {
-    const senderKey = this.senderKeys.get(envelope.kid);
-    if (!senderKey) {
-      throw new Error("Unknown sender key");
-    }
+  async unseal(
+    input:
+      | KeySealedEnvelope
+      | LegacyKeySealedEnvelope
+      | HiddenSenderKeySealedEnvelope
+      | Uint8Array,
+    options: UnsealOptions = {}
+  ): Promise<Uint8Array> {
+    const envelope =
+      input instanceof Uint8Array ? deserializeEnvelope(input) : input;
+    return await unsealCore(
+      envelope,
+      Object.fromEntries(this.privateKeys),
+      Object.fromEntries(this.senderKeys),
+      { ...this.options, ...options }
+    );
+  }
 
-    return await unsealCore(envelope, this.privateKey, this.privateKid, {
-      [envelope.kid]: senderKey,
-    });
+  /**
+   * Unseals a stream sealed with `sealStream`, decrypting it a segment at a
+   * time. The header is verified before this resolves; the rest is verified
+   * as it is read, and the returned stream errors if any check fails. Treat
+   * its output as unverified until it closes without error.
+   *
+   * @param input - The sealed stream, as a stream or async iterable
+   * @param options - Per-stream options such as associated data
+   * @returns The decrypted stream
+   * @throws If sender is unknown or the header signature is invalid
+   */
+  async unsealStream(
+    input: ByteSource,
+    options: UnsealOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    return await unsealStreamCore(
+      input,
+      Object.fromEntries(this.privateKeys),
+      Object.fromEntries(this.senderKeys),
+      { ...this.options, ...options }
+    );
   }
 }
@@ -0,0 +1,248 @@
+import { computeStreamCtx } from "../commitment.js";
+import { ENVELOPE_VERSION, MAX_SEGMENT_SIZE } from "../constants.js";
+import {
+  chainDigest,
+  MAX_STREAM_HEADER_LENGTH,
+  MAX_STREAM_SIGNATURE_LENGTH,
+  NONCE_PREFIX_LENGTH,
+  RecordReader,
+  segmentNonce,
+  segmentRecordLength,
+  STREAM_MARKER,
+  toReadableStream,
+} from "../stream.js";
+import {
+  type ByteSource,
+  type KeySealedStreamHeader,
+  type UnsealerOptions,
+  type UnsealOptions,
+} from "../types/index.js";
+import {
+  areUint8ArraysEqual,
+  base64ToUint8Array,
+  normalizeAAD,
+  uint8ArrayToBase64,
+} from "../utils.js";
+
+import {
+  checkClaims,
+  checkReplay,
+  checkSignaturePolicy,
+  findCEK,
+  lookupKey,
+  verifyEnvelope,
+} from "./helpers.js";
+
+function parseHeader(record: Uint8Array): KeySealedStreamHeader {
+  let header: unknown;
+  try {
+    header = JSON.parse(
+      new TextDecoder("utf-8", { fatal: true }).decode(record)
+    );
+  } catch {
+    throw new Error("Malformed stream header");
+  }
+  if (typeof header !== "object" || header === null || Array.isArray(header)) {
+    throw new Error("Malformed stream header");
+  }
+  return header as KeySealedStreamHeader;
+}
+
+/**
+ * Low-level stream unsealing function. Verifies and decrypts a stream sealed
+ * by `sealStreamCore`, holding about one segment in memory at a time.
+ *
+ * The unsealing process:
+ * 1. Verify the header signature using sender's public key
+ * 2. Check the validity claims against the clock
+ * 3. Decrypt recipient's CEK portion
+ * 4. Verify CTX commitment tag against the recovered CEK
+ * 5. Decrypt each segment in turn, checking its position in the stream
+ * 6. Verify the closing signature over every segment
+ * 7. Record the envelope ID, if a replay cache is configured
+ *
+ * Steps 1-4 are done before this function returns, so a stream from an
+ * unknown sender, or not sealed for this recipient, rejects it. Later
+ * failures, including a stream that ends early, error the returned stream.
+ *
+ * Plaintext is released a segment at a time, before the closing signature
+ * has been checked. Until the returned stream closes without error, treat
+ * its output as unverified: it may be cut short or, if another recipient
+ * of the stream is malicious, altered. The final segment is held back until
+ * the signature verifies.
+ *
+ * @param input - The sealed stream
+ * @param recipientKeys - Map of the recipient's key IDs to its private keys;
+ *   whichever the envelope was sealed for is used
+ * @param senderKeys - Map of sender key IDs to their public keys
+ * @param options - Per-stream options such as associated data, plus unsealer policy
+ * @returns The decrypted stream
+ * @throws If the input is not a sealed stream, sender unknown, header
+ *   unsupported, signature invalid, stream outside its validity window or
+ *   CTX verification fails
+ */
+export async function unsealStreamCore(
+  input: ByteSource,
+  recipientKeys: Record<string, CryptoKey>,
+  senderKeys: Record<string, CryptoKey>,
+  options: UnsealOptions & UnsealerOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const reader = new RecordReader(input);
+  const aad = normalizeAAD(options.aad);
+
+  let header: KeySealedStreamHeader;
+  let senderKey: CryptoKey;
+  let noncePrefix: Uint8Array;
+  let cek: CryptoKey;
+  try {
+    if (!areUint8ArraysEqual(await reader.read(4), STREAM_MARKER)) {
+      throw new Error("Not a sealed stream");
+    }
+    header = parseHeader(await reader.readRecord(MAX_STREAM_HEADER_LENGTH));
+
+    const sender = lookupKey(senderKeys, header.kid);
+    if (!sender) {
+      throw new Error("Unknown sender key");
+    }
+    senderKey = sender;
+
+    // JSON input may carry anything, whatever the type says
+    const version: number = header.v;
+    if (version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version: ${version}`);
+    }
+    if (header.enc !== "A256GCM") {
+      throw new Error(
+        `Unsupported content encryption algorithm: ${header.enc}`
+      );
+    }
+    if (
+      !Number.isInteger(header.seg) ||
+      header.seg < 1 ||
+      header.seg > MAX_SEGMENT_SIZE
+    ) {
+      throw new Error(`Unsupported segment size: ${header.seg}`);
+    }
+
+    const signatureValid = await verifyEnvelope(
+      {
+        v: header.v,
+        alg: header.alg,
+        kw: header.kw,
+        enc: header.enc,
+        anon: header.anon,
+        seg: header.seg,
+        jti: header.jti,
+        iat: header.iat,
+        nbf: header.nbf,
+        exp: header.exp,
+        kid: header.kid,
+        cek: header.cek,
+        kws: header.kws,
+        nonce: header.nonce,
+        ctx: header.ctx,
+        ...(aad && { aad: uint8ArrayToBase64(aad) }),
+      },
+      header.signature,
+      senderKey,
+      header.alg
+    );
+    if (!signatureValid) {
+      throw new Error("Invalid envelope signature");
+    }
+    if (options.signaturePolicy) {
+      checkSignaturePolicy(options.signaturePolicy, [header.kid]);
+    }
+
+    checkClaims(header, options);
+
+    noncePrefix = base64ToUint8Array(header.nonce);
+    if (noncePrefix.length !== NONCE_PREFIX_LENGTH) {
+      throw new Error("Malformed stream header");
+    }
+
+    ({ cek } = await findCEK(
+      header.cek,
+      header.anon === true,
+      recipientKeys,
+      header.kws ?? header.kw,
+      options.maxRecipientAttempts
+    ));
+
+    const computedCtx = await computeStreamCtx(cek, noncePrefix, aad);
+    if (!areUint8ArraysEqual(computedCtx, base64ToUint8Array(header.ctx))) {
+      throw new Error("Invalid CTX tag");
+    }
+  } catch (error) {
+    await reader.close();
+    throw error;
+  }
+
+  async function* plaintext(): AsyncGenerator<Uint8Array> {
+    try {
+      let digest: Uint8Array = new Uint8Array(32);
+      let index = 0;
+      let final: Uint8Array | undefined;
+      while (!final) {
+        const record = await reader.readRecord(segmentRecordLength(header.seg));
+        const last = record[0] === 1;
+        if (
+          (record[0] !== 0 && !last) ||
+          (!last && record.length !== segmentRecordLength(header.seg)) ||
+          record.length < segmentRecordLength(0)
+        ) {
+          throw new Error("Malformed stream segment");
+        }
+
+        let decrypted: ArrayBuffer;
+        try {
+          decrypted = await crypto.subtle.decrypt(
+            {
+              name: "AES-GCM",
+              iv: segmentNonce(noncePrefix, index++, last),
+              ...(aad && { additionalData: aad }),
+            },
+            cek,
+            record.subarray(1)
+          );
+        } catch {
+          throw new Error("Invalid stream segment");
+        }
+        digest = await chainDigest(digest, record);
+
+        if (last) {
+          final = new Uint8Array(decrypted);
+        } else {
+          yield new Uint8Array(decrypted);
+        }
+      }
+
+      const signature = await reader.readRecord(MAX_STREAM_SIGNATURE_LENGTH);
+      const signatureValid = await verifyEnvelope(
+        { digest: uint8ArrayToBase64(digest), signature: header.signature },
+        uint8ArrayToBase64(signature),
+        senderKey,
+        header.alg
+      );
+      if (!signatureValid) {
+        throw new Error("Invalid envelope signature");
+      }
+      if (!(await reader.atEnd())) {
+        throw new Error("Unexpected data after sealed stream");
+      }
+
+      // Only streams that unsealed successfully are recorded
+      if (options.replayCache) {
+        await checkReplay(header, options.replayCache, options);
+      }
+
+      if (final.length > 0) {
+        yield final;
+      }
+    } finally {
+      await reader.close();
+    }
+  }
+
+  return toReadableStream(plaintext());
+}
@@ -24,3 +24,74 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   }
   return bytes;
 }
+
+export function toBytes(data: string | Uint8Array): Uint8Array {
+  return typeof data === "string" ? new TextEncoder().encode(data) : data;
+}
+
+/**
+ * Normalizes caller-supplied associated data. An empty AAD authenticates the
+ * same as none under AES-GCM, so both are treated as absent.
+ */
+export function normalizeAAD(
+  aad: string | Uint8Array | undefined
+): Uint8Array | undefined {
+  if (aad === undefined) return undefined;
+  const bytes = toBytes(aad);
+  return bytes.length > 0 ? bytes : undefined;
+}
+
+/**
+ * Converts a date to a NumericDate: whole seconds since the Unix epoch.
+ */
+export function toNumericDate(date: Date): number {
+  const time = date.getTime();
+  if (!Number.isFinite(time)) {
+    throw new Error("Invalid date");
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Encodes bytes as standard base64. The bytes are converted in slices, as
+ * spreading a large array into `String.fromCharCode` overflows the stack.
+ */
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encodes bytes as unpadded base64url, as used throughout JOSE.
+ */
+export function uint8ArrayToBase64Url(bytes: Uint8Array): string {
+  return uint8ArrayToBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function base64UrlToUint8Array(base64url: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(base64url)) {
+    throw new Error("Invalid base64url");
+  }
+  return base64ToUint8Array(
+    base64url.replace(/-/g, "+").replace(/_/g, "/") +
+      "=".repeat((4 - (base64url.length % 4)) % 4)
+  );
+}
+
+export function concatUint8Arrays(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
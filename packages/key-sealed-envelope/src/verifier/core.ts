@@ -0,0 +1,206 @@
+import { ENVELOPE_VERSION } from "../constants.js";
+import { buildCOSESign1 } from "../cose/helpers.js";
+import { buildJWS } from "../jwe/helpers.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+  type UnsealOptions,
+  type VerifiedEnvelopeMetadata,
+  type VerifierOptions,
+} from "../types/index.js";
+import {
+  checkClaims,
+  checkClaimTypes,
+  checkEnvelopeStructure,
+  checkSignaturePolicy,
+  isHiddenSenderEnvelope,
+  isLegacyEnvelope,
+  lookupKey,
+  signedEnvelopeContents,
+  verifyCountersignatures,
+  verifyEnvelope,
+  verifyLegacyEnvelope,
+  verifyMessage,
+} from "../unsealer/helpers.js";
+import { normalizeAAD } from "../utils.js";
+
+/**
+ * Low-level envelope verification function. Checks everything about an
+ * envelope that can be checked without a recipient's key, so that relays
+ * can reject forged envelopes without being able to read them.
+ *
+ * The verification process:
+ * 1. Check the envelope's fields and header are well-formed and supported
+ * 2. Verify envelope signature using sender's public key, and any
+ *    countersignatures a signature policy asks for
+ * 3. Check the validity claims against the clock
+ *
+ * The CTX commitment tag can only be checked against the CEK, which takes a
+ * recipient's key. Here it is only checked to be a well-formed tag; in v2
+ * envelopes, the signature covers it, so it is the sender's.
+ *
+ * @param envelope - The sealed envelope to verify
+ * @param senderKeys - Map of sender key IDs to their public keys
+ * @param options - Per-envelope options such as associated data, plus
+ *   verifier policy. With `ignoreValidityWindow`, the claims are only
+ *   checked to be well-formed, e.g. to re-key archived envelopes that have
+ *   since expired.
+ * @returns What the envelope says about itself
+ * @throws If envelope malformed or hides its sender, sender unknown, header
+ *   unsupported, signature invalid or envelope outside its validity window
+ */
+export async function verifyCore(
+  envelope:
+    | KeySealedEnvelope
+    | LegacyKeySealedEnvelope
+    | HiddenSenderKeySealedEnvelope,
+  senderKeys: Record<string, CryptoKey>,
+  options: UnsealOptions &
+    VerifierOptions & { ignoreValidityWindow?: boolean } = {}
+): Promise<VerifiedEnvelopeMetadata> {
+  if (isHiddenSenderEnvelope(envelope)) {
+    throw new Error(
+      "Envelopes with a hidden sender can only be verified by recipients"
+    );
+  }
+  checkEnvelopeStructure(envelope);
+
+  const senderKey = lookupKey(senderKeys, envelope.kid);
+  if (!senderKey) {
+    throw new Error("Unknown sender key");
+  }
+
+  // v1 envelopes predate the header, so their algorithms follow from the keys
+  const legacy = isLegacyEnvelope(envelope);
+  if (legacy && !options.allowUnsignedCtx) {
+    throw new Error(
+      "v1 envelope has an unsigned CTX tag; set allowUnsignedCtx to accept it"
+    );
+  }
+  if (!legacy) {
+    // JSON input may carry any version, whatever the type says
+    const version: number = envelope.v;
+    if (version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version: ${version}`);
+    }
+    if (envelope.enc !== "A256GCM") {
+      throw new Error(
+        `Unsupported content encryption algorithm: ${envelope.enc}`
+      );
+    }
+    const format: string | undefined = envelope.fmt;
+    if (format !== undefined && format !== "jwe" && format !== "cose") {
+      throw new Error(`Unsupported envelope format: ${format}`);
+    }
+    if (format !== undefined && envelope.anon) {
+      throw new Error(`Anonymous recipients are not supported with ${format}`);
+    }
+    if (format !== undefined && envelope.kws !== undefined) {
+      throw new Error(
+        `Mixed key wrapping algorithms are not supported with ${format}`
+      );
+    }
+    if (format !== undefined && envelope.signatures !== undefined) {
+      throw new Error(`Countersignatures are not supported with ${format}`);
+    }
+    const zip: string | undefined = envelope.zip;
+    if (zip !== undefined && zip !== "deflate" && zip !== "gzip") {
+      throw new Error(`Unsupported compression algorithm: ${zip}`);
+    }
+  }
+
+  const aad = normalizeAAD(options.aad);
+  if (legacy && aad) {
+    throw new Error("v1 envelopes do not support associated data");
+  }
+
+  let signatureValid: boolean;
+  if (legacy) {
+    signatureValid = await verifyLegacyEnvelope(
+      {
+        kid: envelope.kid,
+        cek: envelope.cek,
+        payload: envelope.payload,
+      },
+      envelope.signature,
+      senderKey
+    );
+  } else if (envelope.fmt === "jwe") {
+    signatureValid = await verifyMessage(
+      buildJWS(envelope, aad).signingInput,
+      envelope.signature,
+      senderKey,
+      envelope.alg
+    );
+  } else if (envelope.fmt === "cose") {
+    signatureValid = await verifyMessage(
+      buildCOSESign1(envelope, aad).toBeSigned,
+      envelope.signature,
+      senderKey,
+      envelope.alg
+    );
+  } else {
+    signatureValid = await verifyEnvelope(
+      signedEnvelopeContents(envelope, aad),
+      envelope.signature,
+      senderKey,
+      envelope.alg
+    );
+  }
+
+  if (!signatureValid) {
+    throw new Error("Invalid envelope signature");
+  }
+
+  const signers = [envelope.kid];
+  if (options.signaturePolicy) {
+    if (!legacy) {
+      signers.push(
+        ...(await verifyCountersignatures(
+          envelope,
+          aad,
+          senderKeys,
+          options.signaturePolicy.kids
+        ))
+      );
+    }
+    checkSignaturePolicy(options.signaturePolicy, signers);
+  }
+
+  // v1 envelopes carry no claims, so only maxAge can reject them here
+  const claims = legacy
+    ? {}
+    : {
+        ...(envelope.jti !== undefined && { jti: envelope.jti }),
+        ...(envelope.iat !== undefined && { iat: envelope.iat }),
+        ...(envelope.nbf !== undefined && { nbf: envelope.nbf }),
+        ...(envelope.exp !== undefined && { exp: envelope.exp }),
+      };
+  if (options.ignoreValidityWindow) {
+    checkClaimTypes(claims);
+  } else {
+    checkClaims(claims, options);
+  }
+
+  return {
+    v: legacy ? 1 : 2,
+    kid: envelope.kid,
+    signers,
+    recipients:
+      !legacy && envelope.anon ? [] : Object.keys(envelope.cek).sort(),
+    ...(!legacy && {
+      header: {
+        v: envelope.v,
+        alg: envelope.alg,
+        kw: envelope.kw,
+        enc: envelope.enc,
+        ...(envelope.fmt && { fmt: envelope.fmt }),
+        ...(envelope.zip && { zip: envelope.zip }),
+        ...(envelope.anon && { anon: envelope.anon }),
+      },
+    }),
+    claims,
+    ...(!legacy && envelope.prov && { prov: envelope.prov }),
+  };
+}
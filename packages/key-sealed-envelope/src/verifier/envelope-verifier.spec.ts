@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+
+import { EnvelopeCountersigner } from "../countersigner/envelope-countersigner.js";
+import { ECSealer } from "../sealer/ec-sealer.js";
+import { OKPSealer } from "../sealer/okp-sealer.js";
+import { serializeEnvelope } from "../serialization.js";
+import {
+  type ECPrivateNamedJWK,
+  type ECPublicNamedJWK,
+  type OKPPrivateNamedJWK,
+  type OKPPublicNamedJWK,
+} from "../types/index.js";
+import { uint8ArrayToBase64 } from "../utils.js";
+
+import { EnvelopeVerifier } from "./envelope-verifier.js";
+
+async function generateJWKs<Private, Public>(
+  algorithm: EcKeyGenParams | Algorithm,
+  usages: KeyUsage[],
+  kid: string
+) {
+  const keyPair = (await crypto.subtle.generateKey(
+    algorithm,
+    true,
+    usages
+  )) as CryptoKeyPair;
+  return {
+    privateJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.privateKey)),
+      kid,
+    } as Private,
+    publicJWK: {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid,
+    } as Public,
+  };
+}
+
+const ecSender = await generateJWKs<ECPrivateNamedJWK, ECPublicNamedJWK>(
+  { name: "ECDSA", namedCurve: "P-256" },
+  ["sign", "verify"],
+  "ec-sender"
+);
+const ecRecipient = await generateJWKs<ECPrivateNamedJWK, ECPublicNamedJWK>(
+  { name: "ECDH", namedCurve: "P-256" },
+  ["deriveKey"],
+  "ec-recipient"
+);
+const okpSender = await generateJWKs<OKPPrivateNamedJWK, OKPPublicNamedJWK>(
+  { name: "Ed25519" },
+  ["sign", "verify"],
+  "okp-sender"
+);
+const okpRecipient = await generateJWKs<OKPPrivateNamedJWK, OKPPublicNamedJWK>(
+  { name: "X25519" },
+  ["deriveKey"],
+  "okp-recipient"
+);
+
+const ecSealer = await ECSealer.create(ecSender.privateJWK, [
+  ecRecipient.publicJWK,
+]);
+const okpSealer = await OKPSealer.create(okpSender.privateJWK, [
+  okpRecipient.publicJWK,
+]);
+const verifier = await EnvelopeVerifier.create({
+  keys: [ecSender.publicJWK, okpSender.publicJWK],
+});
+
+describe("EnvelopeVerifier", () => {
+  it("verifies envelopes from senders of any key type", async () => {
+    const exp = new Date(Date.now() + 60_000);
+    const ecEnvelope = await ecSealer.seal("hello", ["ec-recipient"], { exp });
+    const okpEnvelope = await okpSealer.seal("hello", ["okp-recipient"]);
+
+    expect(await verifier.verify(ecEnvelope)).toEqual({
+      v: 2,
+      kid: "ec-sender",
+      signers: ["ec-sender"],
+      recipients: ["ec-recipient"],
+      header: { v: 2, alg: "ES256", kw: "ECDH-ES+A256KW", enc: "A256GCM" },
+      claims: { jti: ecEnvelope.jti, exp: ecEnvelope.exp },
+    });
+    expect(await verifier.verify(serializeEnvelope(okpEnvelope))).toMatchObject(
+      { kid: "okp-sender", header: { alg: "EdDSA" } }
+    );
+  });
+
+  it("rejects forged and unknown envelopes", async () => {
+    const envelope = await ecSealer.seal("hello", ["ec-recipient"]);
+    const otherEnvelope = await ecSealer.seal("goodbye", ["ec-recipient"]);
+
+    await expect(
+      verifier.verify({ ...envelope, payload: otherEnvelope.payload })
+    ).rejects.toThrow("Invalid envelope signature");
+    for (const kid of ["stranger", "constructor", "toString", "__proto__"]) {
+      await expect(verifier.verify({ ...envelope, kid })).rejects.toThrow(
+        "Unknown sender key"
+      );
+    }
+  });
+
+  it("checks the associated data", async () => {
+    const envelope = await ecSealer.seal("hello", ["ec-recipient"], {
+      aad: "tenant-1",
+    });
+
+    await expect(
+      verifier.verify(envelope, { aad: "tenant-2" })
+    ).rejects.toThrow("Invalid envelope signature");
+    expect(await verifier.verify(envelope, { aad: "tenant-1" })).toMatchObject({
+      kid: "ec-sender",
+    });
+  });
+
+  it("rejects malformed envelopes", async () => {
+    const envelope = await ecSealer.seal("hello", ["ec-recipient"]);
+
+    await expect(
+      verifier.verify({
+        ...envelope,
+        ctx: uint8ArrayToBase64(new Uint8Array(16)),
+      })
+    ).rejects.toThrow("Malformed envelope");
+    await expect(
+      verifier.verify({ ...envelope, cek: { "ec-recipient": 42 } } as never)
+    ).rejects.toThrow("Malformed envelope");
+  });
+
+  it("applies the validity claims and signature policy", async () => {
+    const countersigner = await EnvelopeCountersigner.create(
+      okpSender.privateJWK
+    );
+    const strict = await EnvelopeVerifier.create(
+      [ecSender.publicJWK, okpSender.publicJWK],
+      {
+        signaturePolicy: { kids: ["ec-sender", "okp-sender"], threshold: 2 },
+      }
+    );
+
+    const envelope = await ecSealer.seal("hello", ["ec-recipient"], {
+      exp: new Date(Date.now() - 60_000),
+    });
+    await expect(verifier.verify(envelope)).rejects.toThrow(
+      "Envelope has expired"
+    );
+
+    const fresh = await ecSealer.seal("hello", ["ec-recipient"]);
+    await expect(strict.verify(fresh)).rejects.toThrow(
+      "Envelope has 1 of 2 required signatures"
+    );
+    expect(
+      (await strict.verify(await countersigner.countersign(fresh))).signers
+    ).toEqual(["ec-sender", "okp-sender"]);
+  });
+
+  it("lists no recipients for anonymous envelopes", async () => {
+    const envelope = await ecSealer.seal("hello", ["ec-recipient"], {
+      anonymousRecipients: true,
+    });
+
+    expect((await verifier.verify(envelope)).recipients).toEqual([]);
+  });
+
+  it("cannot verify hidden senders", async () => {
+    const envelope = await ecSealer.sealHiddenSender("hello", ["ec-recipient"]);
+
+    await expect(verifier.verify(envelope)).rejects.toThrow(
+      "Envelopes with a hidden sender can only be verified by recipients"
+    );
+  });
+});
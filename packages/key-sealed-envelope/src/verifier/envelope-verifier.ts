@@ -0,0 +1,93 @@
+import { signingKeyAlgorithm } from "../keys.js";
+import { deserializeEnvelope } from "../serialization.js";
+import {
+  type HiddenSenderKeySealedEnvelope,
+  type KeySealedEnvelope,
+  type LegacyKeySealedEnvelope,
+  type PublicNamedJWK,
+  type PublicNamedJWKS,
+  type UnsealOptions,
+  type VerifiedEnvelopeMetadata,
+  type VerifierOptions,
+} from "../types/index.js";
+
+import { verifyCore } from "./core.js";
+
+/**
+ * Verifies envelopes without decrypting them, for relays and routing tiers
+ * that must reject forged envelopes but hold no recipient keys.
+ *
+ * Needs only the senders' public keys, which may be of any supported type.
+ * The CTX commitment can only be checked against the CEK, so a verified
+ * envelope can still fail to unseal; see {@link verifyCore}.
+ *
+ * @example
+ * const verifier = await EnvelopeVerifier.create(senderJWKS);
+ * const { kid, recipients } = await verifier.verify(envelope);
+ */
+export class EnvelopeVerifier {
+  private readonly senderKeys: Map<string, CryptoKey>;
+  private readonly options: VerifierOptions;
+
+  private constructor(
+    senderKeys: Map<string, CryptoKey>,
+    options: VerifierOptions
+  ) {
+    this.senderKeys = senderKeys;
+    this.options = options;
+  }
+
+  /**
+   * Creates a new EnvelopeVerifier instance.
+   * @param senderKeys - Array of sender public keys or JWKS for verification
+   * @param options - Verifier policy, such as validity claim tolerances
+   * @returns New EnvelopeVerifier instance
+   * @throws If a key type is not supported
+   */
+  static async create(
+    senderKeys: PublicNamedJWK[] | PublicNamedJWKS,
+    options: VerifierOptions = {}
+  ): Promise<EnvelopeVerifier> {
+    const senderJwks = Array.isArray(senderKeys) ? senderKeys : senderKeys.keys;
+
+    const senderKeyMap = new Map<string, CryptoKey>();
+    for (const jwk of senderJwks) {
+      const senderKey = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        signingKeyAlgorithm(jwk),
+        true,
+        ["verify"]
+      );
+      senderKeyMap.set(jwk.kid, senderKey);
+    }
+
+    return new EnvelopeVerifier(senderKeyMap, options);
+  }
+
+  /**
+   * Verifies an envelope's structure, signature and claims.
+   *
+   * @param input - The sealed envelope, or its serialized bytes in either
+   *   encoding or as a COSE message
+   * @param options - Per-envelope options such as associated data
+   * @returns What the envelope says about itself
+   * @throws If sender is unknown, signature is invalid or the envelope is
+   *   malformed, hides its sender or is outside its validity window
+   */
+  async verify(
+    input:
+      | KeySealedEnvelope
+      | LegacyKeySealedEnvelope
+      | HiddenSenderKeySealedEnvelope
+      | Uint8Array,
+    options: UnsealOptions = {}
+  ): Promise<VerifiedEnvelopeMetadata> {
+    const envelope =
+      input instanceof Uint8Array ? deserializeEnvelope(input) : input;
+    return await verifyCore(envelope, Object.fromEntries(this.senderKeys), {
+      ...this.options,
+      ...options,
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { EnvelopeVerifier } from "./envelope-verifier.js";
+export { verifyCore } from "./core.js";
@@ -6,6 +6,13 @@ export default defineConfig({
 
     include: ["src/**/*.spec.ts"],
 
+    // cose-ts ships ESM with extensionless imports, which only Vite resolves
+    server: {
+      deps: {
+        inline: ["@ldclabs/cose-ts"],
+      },
+    },
+
     coverage: {
       enabled: true,
       all: true,
@@ -128,6 +128,9 @@ describe("KeySealedEnvelopeECCodec", () => {
   let clientCodec: KeySealedEnvelopeECCodec;
   let workerCodec: KeySealedEnvelopeECCodec;
   let malloryCodec: KeySealedEnvelopeECCodec; // An attacker
+  let binaryClientCodec: KeySealedEnvelopeECCodec;
+  let compressingClientCodec: KeySealedEnvelopeECCodec;
+  let anonymousClientCodec: KeySealedEnvelopeECCodec;
 
   beforeAll(async () => {
     const keys = await generateKeys();
@@ -139,6 +142,18 @@ describe("KeySealedEnvelopeECCodec", () => {
       senderPublicKeys: keys.senderPublicKeys,
     };
     clientCodec = new KeySealedEnvelopeECCodec(clientOptions);
+    binaryClientCodec = new KeySealedEnvelopeECCodec({
+      ...clientOptions,
+      envelopeEncoding: "binary",
+    });
+    compressingClientCodec = new KeySealedEnvelopeECCodec({
+      ...clientOptions,
+      compression: "gzip",
+    });
+    anonymousClientCodec = new KeySealedEnvelopeECCodec({
+      ...clientOptions,
+      anonymousRecipients: true,
+    });
 
     const workerOptions: KeySealedEnvelopeECCodecOptions = {
       ownSigningKey: keys.workerSigningPrivateJWK,
@@ -180,6 +195,50 @@ describe("KeySealedEnvelopeECCodec", () => {
     });
   });
 
+  describe("envelope encoding", () => {
+    it("should write JSON envelopes by default", async () => {
+      const encoded = await clientCodec.encode([createSamplePayload("json")]);
+      expect(new TextDecoder().decode(encoded[0].data!)).toMatch(/^\{/);
+    });
+
+    it("should decode binary envelopes", async () => {
+      const originalPayload = createSamplePayload("hello binary");
+      const encoded = await binaryClientCodec.encode([originalPayload]);
+      const jsonEncoded = await clientCodec.encode([originalPayload]);
+      expect(encoded[0].data!.length).toBeLessThan(jsonEncoded[0].data!.length);
+
+      const decoded = await workerCodec.decode(encoded);
+      expect(decoded[0]).toEqual(originalPayload);
+    });
+  });
+
+  describe("compression", () => {
+    it("should shrink repetitive payloads and decode them", async () => {
+      const originalPayload = createSamplePayload("hello ".repeat(1000));
+      const encoded = await compressingClientCodec.encode([originalPayload]);
+      const uncompressed = await clientCodec.encode([originalPayload]);
+      expect(encoded[0].data!.length).toBeLessThan(
+        uncompressed[0].data!.length / 4
+      );
+
+      const decoded = await workerCodec.decode(encoded);
+      expect(decoded[0]).toEqual(originalPayload);
+    });
+  });
+
+  describe("anonymous recipients", () => {
+    it("should hide recipient key IDs and still decode", async () => {
+      const originalPayload = createSamplePayload("hello anonymous");
+      const encoded = await anonymousClientCodec.encode([originalPayload]);
+      const envelope = JSON.parse(new TextDecoder().decode(encoded[0].data!));
+      expect(envelope.anon).toBe(true);
+      expect(Object.keys(envelope.cek)).not.toContain("worker-1");
+
+      const decoded = await workerCodec.decode(encoded);
+      expect(decoded[0]).toEqual(originalPayload);
+    });
+  });
+
   describe("sad path", () => {
     it("should pass through a payload that is not encoded with the codec", async () => {
       const originalPayload = createSamplePayload("I am not encoded");
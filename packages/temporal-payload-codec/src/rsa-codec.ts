@@ -1,9 +1,12 @@
 import {
+  type CompressionAlgorithm,
   type RSAPrivateNamedJWK,
   type RSAPublicNamedJWKS,
   RSASealer,
   RSAUnsealer,
-  type KeySealedEnvelope,
+  type EnvelopeEncoding,
+  serializeEnvelope,
+  type UnsealerOptions,
 } from "@eropple/key-sealed-envelope";
 import { type Payload, type PayloadCodec } from "@temporalio/common";
 import { temporal } from "@temporalio/proto";
@@ -36,6 +39,33 @@ export type KeySealedEnvelopeRSACodecOptions = {
    * is used during the `decode` phase to verify the signature of the envelope.
    */
   senderPublicKeys: RSAPublicNamedJWKS;
+  /**
+   * Policy for the unsealer used during the `decode` phase. Set
+   * `allowUnsignedCtx` to keep reading payloads sealed by earlier versions
+   * of `@eropple/key-sealed-envelope` that are still in workflow histories.
+   */
+  unsealerOptions?: UnsealerOptions;
+  /**
+   * How envelopes are written to the payload `data` field. Defaults to
+   * `json`; `binary` is more compact, but payloads written with it cannot be
+   * read by earlier versions of this codec. Either encoding is accepted
+   * during the `decode` phase.
+   */
+  envelopeEncoding?: EnvelopeEncoding;
+  /**
+   * Compresses payloads before they are sealed. Defaults to `none`. Payloads
+   * written with compression cannot be read by earlier versions of this
+   * codec; compressed payloads are always accepted during the `decode`
+   * phase, up to the unsealer's `maxDecompressedSize`.
+   */
+  compression?: CompressionAlgorithm | "none";
+  /**
+   * Leaves recipient key IDs out of the envelopes, so that workflow
+   * histories do not reveal which Clients and Workers can read a payload.
+   * Each recipient then tries every entry, so keep the recipient count
+   * within the unsealer's `maxRecipientAttempts`.
+   */
+  anonymousRecipients?: boolean;
 };
 
 /**
@@ -66,13 +96,19 @@ export class KeySealedEnvelopeRSACodec implements PayloadCodec {
       payloads.map(async (payload) => {
         const encodedPayload =
           temporal.api.common.v1.Payload.encode(payload).finish();
-        const envelope = await sealer.seal(encodedPayload, recipientKids);
+        const envelope = await sealer.seal(encodedPayload, recipientKids, {
+          compression: this.options.compression ?? "none",
+          anonymousRecipients: this.options.anonymousRecipients ?? false,
+        });
 
         return {
           metadata: {
             [METADATA_ENCODING_KEY]: new TextEncoder().encode(ENCODING),
           },
-          data: new TextEncoder().encode(JSON.stringify(envelope)),
+          data: serializeEnvelope(
+            envelope,
+            this.options.envelopeEncoding ?? "json"
+          ),
         };
       })
     );
@@ -81,7 +117,8 @@ export class KeySealedEnvelopeRSACodec implements PayloadCodec {
   public async decode(payloads: Payload[]): Promise<Payload[]> {
     const unsealer = await RSAUnsealer.create(
       this.options.ownDecryptionKey,
-      this.options.senderPublicKeys
+      this.options.senderPublicKeys,
+      this.options.unsealerOptions
     );
 
     return Promise.all(
@@ -95,11 +132,7 @@ export class KeySealedEnvelopeRSACodec implements PayloadCodec {
           return payload;
         }
 
-        const envelope: KeySealedEnvelope = JSON.parse(
-          new TextDecoder().decode(payload.data)
-        );
-
-        const decryptedPayload = await unsealer.unseal(envelope);
+        const decryptedPayload = await unsealer.unseal(payload.data);
 
         return temporal.api.common.v1.Payload.decode(decryptedPayload);
       })